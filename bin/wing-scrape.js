@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Runs the TypeScript sources directly, like the npm scripts do
+require('ts-node').register({ transpileOnly: true });
+
+const { run } = require('../src/cli');
+
+run(process.argv.slice(2)).then((code) => {
+	process.exitCode = code;
+});
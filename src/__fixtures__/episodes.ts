@@ -0,0 +1,23 @@
+import { EpisodeTag, HotOnesEpisode } from '../types';
+
+// A test episode: S1E1 with no guests, date or tags unless the test says so.
+// Suites build their episodes through here, so a schema change is one edit.
+export const makeEpisode = (
+	fields: Partial<HotOnesEpisode> = {},
+): HotOnesEpisode => ({
+	season_number: 1,
+	episode_number: 1,
+	title: 'Episode',
+	guests: [],
+	topics: [],
+	air_date: '',
+	description: '',
+	tags: [],
+	...fields,
+});
+
+// tag('Music', 'Rapper')
+export const tag = (
+	category: string,
+	...sub_categories: string[]
+): EpisodeTag => ({ category, sub_categories });
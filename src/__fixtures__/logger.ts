@@ -0,0 +1,8 @@
+import { ScrapeLogger } from '../types';
+
+// Keeps scraper progress out of the test output; assert on the mocks instead
+export const silentLogger = (): jest.Mocked<ScrapeLogger> => ({
+	log: jest.fn(),
+	warn: jest.fn(),
+	error: jest.fn(),
+});
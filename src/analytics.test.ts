@@ -0,0 +1,145 @@
+import {
+	bar,
+	computeAirDateGaps,
+	computeAnalytics,
+	computeCadence,
+	sparkline,
+} from './analytics';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	season_number: number,
+	air_date: string,
+	categories: string[],
+	title = `S${season_number} ${air_date}`,
+): HotOnesEpisode =>
+	makeEpisode({
+		season_number,
+		title,
+		air_date,
+		tags: categories.map((category) => tag(category)),
+	});
+
+const episodes = [
+	episode(1, '2015-03-12', ['Music']),
+	episode(1, '2015-03-19', ['Sports']),
+	episode(1, '2015-03-26', ['Music', 'Comedy']),
+	episode(2, '2016-01-07', ['Comedy']),
+	episode(2, '2016-01-07', ['Comedy'], 'Same-day special'),
+	episode(2, '2016-01-21', ['Music']),
+	episode(0, '', ['Other']),
+];
+
+describe('computeAirDateGaps', () => {
+	it('measures gaps between distinct air dates', () => {
+		const gaps = computeAirDateGaps(episodes);
+
+		// 7, 7, 287, 14
+		expect(gaps.averageDays).toBe(78.8);
+		expect(gaps.medianDays).toBe(10.5);
+		expect(gaps.longestHiatus).toEqual({
+			days: 287,
+			from: { title: 'S1 2015-03-26', air_date: '2015-03-26' },
+			to: { title: 'S2 2016-01-07', air_date: '2016-01-07' },
+		});
+	});
+
+	it('needs at least two dates', () => {
+		expect(computeAirDateGaps(episodes.slice(0, 1))).toEqual({
+			averageDays: null,
+			medianDays: null,
+			longestHiatus: null,
+		});
+	});
+});
+
+describe('computeCadence', () => {
+	it('counts releases by weekday (Monday first) and month', () => {
+		const { byWeekday, byMonth } = computeCadence(episodes);
+
+		expect(byWeekday[0].label).toBe('Mon');
+		expect(byWeekday.find(({ label }) => label === 'Thu')?.count).toBe(6);
+		expect(byMonth.map(({ count }) => count).slice(0, 3)).toEqual([
+			3, 0, 3,
+		]);
+	});
+});
+
+describe('computeAnalytics', () => {
+	const analytics = computeAnalytics(episodes);
+
+	it('summarises the dated range', () => {
+		expect(analytics).toMatchObject({
+			datedEpisodes: 6,
+			firstAirDate: '2015-03-12',
+			lastAirDate: '2016-01-21',
+		});
+	});
+
+	it('mixes categories per season, counting undated episodes', () => {
+		expect(
+			analytics.categoryMixBySeason.map(({ period }) => period),
+		).toEqual([0, 1, 2]);
+		expect(analytics.categoryMixBySeason[1]).toEqual({
+			period: 1,
+			total: 3,
+			categories: [
+				{ category: 'Music', count: 2, share: 0.667 },
+				{ category: 'Sports', count: 1, share: 0.333 },
+				{ category: 'Comedy', count: 1, share: 0.333 },
+			],
+		});
+	});
+
+	it('tracks each category share year over year', () => {
+		expect(analytics.categoryTrends).toEqual([
+			{
+				category: 'Music',
+				total: 3,
+				shares: [
+					{ period: 2015, share: 0.667 },
+					{ period: 2016, share: 0.333 },
+				],
+			},
+			{
+				category: 'Comedy',
+				total: 3,
+				shares: [
+					{ period: 2015, share: 0.333 },
+					{ period: 2016, share: 0.667 },
+				],
+			},
+			{
+				category: 'Sports',
+				total: 1,
+				shares: [
+					{ period: 2015, share: 0.333 },
+					{ period: 2016, share: 0 },
+				],
+			},
+		]);
+	});
+
+	it('copes with no episodes', () => {
+		expect(computeAnalytics([])).toMatchObject({
+			datedEpisodes: 0,
+			firstAirDate: null,
+			categoryTrends: [],
+		});
+	});
+});
+
+describe('charts', () => {
+	it('draws sparklines scaled from zero', () => {
+		expect(sparkline([0, 1, 2, 4])).toBe('▁▃▅█');
+		expect(sparkline([0, 0])).toBe('▁▁');
+		expect(sparkline([0.5], 1)).toBe('▅');
+	});
+
+	it('draws bars with at least one block for any count', () => {
+		expect(bar(10, 10, 5)).toBe('█████');
+		expect(bar(1, 100, 5)).toBe('█');
+		expect(bar(0, 10)).toBe('');
+	});
+});
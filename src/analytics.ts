@@ -0,0 +1,256 @@
+import { HotOnesEpisode } from './types';
+
+// How many episodes in one season or year carried each category
+export interface CategoryMix {
+	period: number;
+	total: number;
+	categories: { category: string; count: number; share: number }[];
+}
+
+export interface DatedEpisode {
+	title: string;
+	air_date: string;
+}
+
+export interface AirDateGaps {
+	// Mean days between consecutive air dates; null with fewer than two dates
+	averageDays: number | null;
+	medianDays: number | null;
+	longestHiatus: {
+		days: number;
+		from: DatedEpisode;
+		to: DatedEpisode;
+	} | null;
+}
+
+export interface ReleaseCadence {
+	byWeekday: { label: string; count: number }[];
+	byMonth: { label: string; count: number }[];
+}
+
+// A category's share of each year's episodes, oldest year first
+export interface CategoryTrend {
+	category: string;
+	total: number;
+	shares: { period: number; share: number }[];
+}
+
+export interface EpisodeAnalytics {
+	datedEpisodes: number;
+	firstAirDate: string | null;
+	lastAirDate: string | null;
+	categoryMixBySeason: CategoryMix[];
+	categoryMixByYear: CategoryMix[];
+	airDateGaps: AirDateGaps;
+	cadence: ReleaseCadence;
+	categoryTrends: CategoryTrend[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = [
+	'Jan',
+	'Feb',
+	'Mar',
+	'Apr',
+	'May',
+	'Jun',
+	'Jul',
+	'Aug',
+	'Sep',
+	'Oct',
+	'Nov',
+	'Dec',
+];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPARK_BLOCKS = '▁▂▃▄▅▆▇█';
+
+const round = (value: number, digits = 3) =>
+	Math.round(value * 10 ** digits) / 10 ** digits;
+
+const hasAirDate = (episode: HotOnesEpisode) =>
+	/^\d{4}-\d{2}-\d{2}/.test(episode.air_date);
+
+const airDate = (episode: HotOnesEpisode) =>
+	new Date(`${episode.air_date.slice(0, 10)}T00:00:00Z`);
+
+// An episode counts once per category, however many sub-categories it has
+const categoriesOf = (episode: HotOnesEpisode) => [
+	...new Set(episode.tags.map((tag) => tag.category)),
+];
+
+function groupBy(
+	episodes: HotOnesEpisode[],
+	key: (episode: HotOnesEpisode) => number,
+): Map<number, HotOnesEpisode[]> {
+	const groups = new Map<number, HotOnesEpisode[]>();
+	episodes.forEach((episode) => {
+		const group = groups.get(key(episode)) ?? [];
+		group.push(episode);
+		groups.set(key(episode), group);
+	});
+	return new Map([...groups.entries()].sort(([a], [b]) => a - b));
+}
+
+function categoryMix(groups: Map<number, HotOnesEpisode[]>): CategoryMix[] {
+	return [...groups.entries()].map(([period, episodes]) => {
+		const counts = new Map<string, number>();
+		episodes
+			.flatMap(categoriesOf)
+			.forEach((category) =>
+				counts.set(category, (counts.get(category) ?? 0) + 1),
+			);
+
+		return {
+			period,
+			total: episodes.length,
+			categories: [...counts.entries()]
+				.sort(([, a], [, b]) => b - a)
+				.map(([category, count]) => ({
+					category,
+					count,
+					share: round(count / episodes.length),
+				})),
+		};
+	});
+}
+
+export function computeAirDateGaps(episodes: HotOnesEpisode[]): AirDateGaps {
+	// Specials often share a day with a regular episode, so gaps are between distinct dates
+	const byDate = new Map<string, HotOnesEpisode>();
+	episodes
+		.filter(hasAirDate)
+		.sort((a, b) => a.air_date.localeCompare(b.air_date))
+		.forEach((episode) => {
+			const date = episode.air_date.slice(0, 10);
+			if (!byDate.has(date)) {
+				byDate.set(date, episode);
+			}
+		});
+
+	const dated = [...byDate.values()];
+	if (dated.length < 2) {
+		return { averageDays: null, medianDays: null, longestHiatus: null };
+	}
+
+	const gaps = dated.slice(1).map((episode, index) => ({
+		days: Math.round(
+			(airDate(episode).getTime() - airDate(dated[index]).getTime()) /
+				DAY_MS,
+		),
+		from: dated[index],
+		to: episode,
+	}));
+	const sorted = gaps.map(({ days }) => days).sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	const longest = gaps.reduce((best, gap) =>
+		gap.days > best.days ? gap : best,
+	);
+	const describe = ({ title, air_date }: HotOnesEpisode) => ({
+		title,
+		air_date,
+	});
+
+	return {
+		averageDays: round(
+			sorted.reduce((sum, days) => sum + days, 0) / sorted.length,
+			1,
+		),
+		medianDays:
+			sorted.length % 2 === 1
+				? sorted[middle]
+				: (sorted[middle - 1] + sorted[middle]) / 2,
+		longestHiatus: {
+			days: longest.days,
+			from: describe(longest.from),
+			to: describe(longest.to),
+		},
+	};
+}
+
+export function computeCadence(episodes: HotOnesEpisode[]): ReleaseCadence {
+	const weekdays = WEEKDAYS.map(() => 0);
+	const months = MONTHS.map(() => 0);
+	episodes.filter(hasAirDate).forEach((episode) => {
+		const date = airDate(episode);
+		weekdays[date.getUTCDay()]++;
+		months[date.getUTCMonth()]++;
+	});
+
+	return {
+		// Monday first, the way release schedules are usually read
+		byWeekday: [1, 2, 3, 4, 5, 6, 0].map((day) => ({
+			label: WEEKDAYS[day],
+			count: weekdays[day],
+		})),
+		byMonth: MONTHS.map((label, month) => ({
+			label,
+			count: months[month],
+		})),
+	};
+}
+
+export function computeCategoryTrends(
+	mixByYear: CategoryMix[],
+): CategoryTrend[] {
+	const totals = new Map<string, number>();
+	mixByYear.forEach(({ categories }) =>
+		categories.forEach(({ category, count }) =>
+			totals.set(category, (totals.get(category) ?? 0) + count),
+		),
+	);
+
+	return [...totals.entries()]
+		.sort(([, a], [, b]) => b - a)
+		.map(([category, total]) => ({
+			category,
+			total,
+			shares: mixByYear.map(({ period, categories }) => ({
+				period,
+				share:
+					categories.find((entry) => entry.category === category)
+						?.share ?? 0,
+			})),
+		}));
+}
+
+export function computeAnalytics(episodes: HotOnesEpisode[]): EpisodeAnalytics {
+	const dated = episodes.filter(hasAirDate);
+	const dates = dated.map((episode) => episode.air_date.slice(0, 10)).sort();
+	const categoryMixByYear = categoryMix(
+		groupBy(dated, (episode) => airDate(episode).getUTCFullYear()),
+	);
+
+	return {
+		datedEpisodes: dated.length,
+		firstAirDate: dates[0] ?? null,
+		lastAirDate: dates[dates.length - 1] ?? null,
+		categoryMixBySeason: categoryMix(
+			groupBy(episodes, (episode) => episode.season_number),
+		),
+		categoryMixByYear,
+		airDateGaps: computeAirDateGaps(episodes),
+		cadence: computeCadence(episodes),
+		categoryTrends: computeCategoryTrends(categoryMixByYear),
+	};
+}
+
+// ▁▃█ style chart scaled from zero, so flat-but-high series still look high
+export function sparkline(values: number[], max = Math.max(...values)): string {
+	return values
+		.map((value) =>
+			max > 0
+				? SPARK_BLOCKS[
+						Math.round((value / max) * (SPARK_BLOCKS.length - 1))
+				  ]
+				: SPARK_BLOCKS[0],
+		)
+		.join('');
+}
+
+// A horizontal bar; anything above zero gets at least one block
+export function bar(value: number, max: number, width = 30): string {
+	if (value <= 0 || max <= 0) {
+		return '';
+	}
+	return '█'.repeat(Math.max(1, Math.round((value / max) * width)));
+}
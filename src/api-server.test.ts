@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { createApiServer } from './api-server';
+import { numberEpisodes } from './episode-numbering';
+import { createReport, loadReport, saveReport } from './report';
+import { TVDB_LISTING_URL } from './tvdb-parser';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	season_number: number,
+	episode_number: number,
+	title: string,
+	air_date: string,
+	category: string,
+): HotOnesEpisode =>
+	makeEpisode({
+		season_number,
+		episode_number,
+		title,
+		air_date,
+		tags: [tag(category)],
+	});
+
+// Numbered like a loaded report, so episodes compare equal after a round trip
+const episodes = numberEpisodes([
+	episode(1, 1, 'Tony Yayo Talks Shmoney Dance', '2015-03-12', 'Music'),
+	episode(1, 2, 'Anthony Rizzo On Chicago Cubs', '2015-05-12', 'Sports'),
+	episode(23, 12, "Conan O'Brien Needs a Doctor", '2024-01-25', 'Comedy'),
+]);
+
+let directory: string;
+let reportPath: string;
+let overridesPath: string;
+let server: http.Server;
+let baseUrl: string;
+let scrapeAllEpisodes: jest.Mock<Promise<HotOnesEpisode[]>, []>;
+
+const request = async (pathname: string, method = 'GET') => {
+	const response = await fetch(`${baseUrl}${pathname}`, { method });
+	return { status: response.status, body: await response.json() };
+};
+
+beforeEach(async () => {
+	directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wing-scrape-api-'));
+	reportPath = path.join(directory, 'report.json');
+	overridesPath = path.join(directory, 'overrides.json');
+	saveReport(createReport(episodes, TVDB_LISTING_URL), reportPath);
+
+	scrapeAllEpisodes = jest.fn();
+	server = createApiServer({
+		reportPath,
+		scraper: { scrapeAllEpisodes, url: TVDB_LISTING_URL },
+		overridesPath,
+	});
+	await new Promise<void>((resolve) =>
+		server.listen(0, '127.0.0.1', resolve),
+	);
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+	await new Promise((resolve) => server.close(resolve));
+	fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('GET /episodes', () => {
+	it('returns a page of numbered episodes', async () => {
+		const { status, body } = await request('/episodes?per_page=2&page=2');
+
+		expect(status).toBe(200);
+		expect(body).toMatchObject({
+			total: 3,
+			page: 2,
+			per_page: 2,
+			pages: 2,
+		});
+		expect(body.episodes).toEqual([{ number: 3, ...episodes[2] }]);
+	});
+
+	it('filters by season, category, date range and text', async () => {
+		const titles = async (query: string) =>
+			(await request(`/episodes?${query}`)).body.episodes.map(
+				(result: HotOnesEpisode) => result.title,
+			);
+
+		expect(await titles('season=1')).toHaveLength(2);
+		expect(await titles('category=sports')).toEqual([episodes[1].title]);
+		expect(await titles('from=2015-04-01&to=2024-01-25')).toEqual([
+			episodes[1].title,
+			episodes[2].title,
+		]);
+		expect(await titles('q=conan')).toEqual([episodes[2].title]);
+	});
+
+	it('rejects malformed parameters with 400', async () => {
+		expect((await request('/episodes?page=0')).status).toBe(400);
+		expect((await request('/episodes?season=one')).status).toBe(400);
+		const { status, body } = await request('/episodes?from=March');
+		expect(status).toBe(400);
+		expect(body.error.message).toMatch(/"from" must be a date/);
+	});
+});
+
+describe('GET /episodes/:season/:episode', () => {
+	it('returns a single episode', async () => {
+		const { status, body } = await request('/episodes/23/12');
+		expect(status).toBe(200);
+		expect(body).toEqual(episodes[2]);
+	});
+
+	it('returns 404 for unknown episodes', async () => {
+		expect((await request('/episodes/23/99')).status).toBe(404);
+	});
+
+	it('reaches specials by their Season 0 number, and 409s on a shared E0', async () => {
+		scrapeAllEpisodes.mockResolvedValue([
+			...episodes,
+			{
+				...episode(23, 0, 'Holiday Special', '2023-12-14', 'Comedy'),
+				special_number: 14,
+			},
+			episode(23, 0, 'Truth or Dab', '2023-12-21', 'Comedy'),
+			episode(23, 0, 'Hot Ones Versus', '2024-01-04', 'Comedy'),
+		]);
+		expect((await request('/refresh', 'POST')).status).toBe(200);
+
+		expect((await request('/episodes/0/14')).body.title).toBe(
+			'Holiday Special',
+		);
+		const { status, body } = await request('/episodes/23/0/similar');
+		expect(status).toBe(409);
+		expect(body.error.candidates).toEqual([
+			{ code: 'S23E0', title: 'Truth or Dab' },
+			{ code: 'S23E0', title: 'Hot Ones Versus' },
+		]);
+	});
+});
+
+describe('GET /episodes/:season/:episode/similar', () => {
+	it('ranks related episodes with a score breakdown', async () => {
+		expect((await request('/episodes/23/12/similar')).body.similar).toEqual(
+			[],
+		);
+
+		// The index is rebuilt after a refresh brings in a related episode
+		scrapeAllEpisodes.mockResolvedValue([
+			...episodes,
+			episode(24, 1, "Conan O'Brien Returns", '2024-09-26', 'Comedy'),
+		]);
+		expect((await request('/refresh', 'POST')).status).toBe(200);
+
+		const { status, body } = await request(
+			'/episodes/23/12/similar?limit=5',
+		);
+		expect(status).toBe(200);
+		expect(body.episode.title).toBe(episodes[2].title);
+		expect(body.similar).toEqual([
+			expect.objectContaining({
+				number: 4,
+				code: 'S24E1',
+				sharedTags: ['Comedy'],
+				sharedTerms: ['conan', 'obrien'],
+				daysApart: 245,
+			}),
+		]);
+		expect(body.similar[0].breakdown).toMatchObject({ tags: 1 });
+		expect(body.weights).toEqual({ text: 0.6, tags: 0.3, airDate: 0.1 });
+	});
+
+	it('validates the episode and limit', async () => {
+		expect((await request('/episodes/23/99/similar')).status).toBe(404);
+		expect((await request('/episodes/23/12/similar?limit=0')).status).toBe(
+			400,
+		);
+	});
+});
+
+describe('GET /stats', () => {
+	it('returns dataset statistics', async () => {
+		const { body } = await request('/stats');
+		expect(body).toMatchObject({ totalEpisodes: 3, totalSeasons: 2 });
+		expect(body.analytics.categoryMixByYear).toHaveLength(2);
+	});
+});
+
+describe('POST /refresh', () => {
+	it('scrapes, saves and serves the new dataset', async () => {
+		const refreshed = [
+			...episodes,
+			episode(23, 13, 'Jennifer Lawrence', '2024-02-01', 'Movie/TV'),
+		];
+		scrapeAllEpisodes.mockResolvedValue(refreshed);
+
+		const { status, body } = await request('/refresh', 'POST');
+		expect(status).toBe(200);
+		expect(body).toMatchObject({ episodes: 4, previous_episodes: 3 });
+		expect((await request('/episodes')).body.total).toBe(4);
+		expect(loadReport(reportPath).report.episodes).toHaveLength(4);
+	});
+
+	it('re-applies the overrides file to the new dataset', async () => {
+		fs.writeFileSync(
+			overridesPath,
+			JSON.stringify({
+				schema_version: 1,
+				episodes: {
+					S1E1: { add_tags: ['Music/Rapper'], note: 'G-Unit' },
+				},
+			}),
+		);
+		scrapeAllEpisodes.mockResolvedValue(episodes);
+
+		expect((await request('/refresh', 'POST')).status).toBe(200);
+		expect((await request('/episodes/1/1')).body).toMatchObject({
+			note: 'G-Unit',
+			tags: [
+				{
+					category: 'Music',
+					sub_categories: ['Rapper'],
+					confidence: 1,
+				},
+			],
+		});
+	});
+
+	it('keeps the current data when the scrape fails or looks partial', async () => {
+		scrapeAllEpisodes.mockRejectedValueOnce(new Error('HTTP 503'));
+		expect((await request('/refresh', 'POST')).status).toBe(502);
+
+		scrapeAllEpisodes.mockResolvedValueOnce([episodes[0]]);
+		expect((await request('/refresh', 'POST')).status).toBe(502);
+
+		expect((await request('/episodes')).body.total).toBe(3);
+	});
+
+	it('returns 409 while a refresh is already running', async () => {
+		let finish: (value: HotOnesEpisode[]) => void = () => undefined;
+		scrapeAllEpisodes.mockReturnValue(
+			new Promise((resolve) => (finish = resolve)),
+		);
+
+		const first = request('/refresh', 'POST');
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect((await request('/refresh', 'POST')).status).toBe(409);
+
+		finish(episodes);
+		expect((await first).status).toBe(200);
+	});
+});
+
+it('answers unknown routes with 404 and wrong methods with 405', async () => {
+	expect((await request('/sauces')).status).toBe(404);
+
+	const response = await fetch(`${baseUrl}/refresh`);
+	expect(response.status).toBe(405);
+	expect(response.headers.get('allow')).toBe('POST');
+});
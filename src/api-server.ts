@@ -0,0 +1,319 @@
+import { HotOnesEpisode, HotOnesReport } from './types';
+import {
+	computeStats,
+	EpisodeFilter,
+	filterEpisodes,
+	paginate,
+	resolveEpisode,
+} from './episode-queries';
+import {
+	createReport,
+	DEFAULT_REPORT_PATH,
+	loadReport,
+	saveReport,
+} from './report';
+import { isSuspiciousShrink } from './report-diff';
+import { computeAnalytics } from './analytics';
+import { episodeCode, numberEpisodes } from './episode-numbering';
+import { SimilarityIndex, SIMILARITY_WEIGHTS } from './similarity';
+import { HotOnesScraper } from './hot-ones-scraper';
+import { applyOverridesFile, DEFAULT_OVERRIDES_PATH } from './overrides';
+import { brand } from './theme';
+import * as http from 'http';
+
+export const DEFAULT_API_PORT = 3000;
+const DEFAULT_PER_PAGE = 25;
+const MAX_PER_PAGE = 100;
+const DEFAULT_SIMILAR_LIMIT = 10;
+
+type RefreshScraper = Pick<HotOnesScraper, 'scrapeAllEpisodes' | 'url'>;
+
+export interface ApiServerOptions {
+	reportPath?: string;
+	// Used by POST /refresh; defaults to a live TheTVDB scraper
+	scraper?: RefreshScraper;
+	// Curation re-applied to every refresh
+	overridesPath?: string;
+}
+
+class ApiError extends Error {
+	constructor(
+		public readonly status: number,
+		message: string,
+		// Extra fields for the error body, e.g. the candidates of a 409
+		public readonly details: Record<string, unknown> = {},
+	) {
+		super(message);
+		this.name = 'ApiError';
+	}
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function sendJson(
+	res: http.ServerResponse,
+	status: number,
+	body: unknown,
+	headers: http.OutgoingHttpHeaders = {},
+): void {
+	res.writeHead(status, {
+		'Content-Type': 'application/json; charset=utf-8',
+		...headers,
+	});
+	res.end(JSON.stringify(body));
+}
+
+function integerParam(
+	params: URLSearchParams,
+	name: string,
+	min: number,
+): number | undefined {
+	const value = params.get(name);
+	if (value === null) {
+		return undefined;
+	}
+
+	const number = Number(value);
+	if (!Number.isInteger(number) || number < min) {
+		throw new ApiError(400, `"${name}" must be an integer >= ${min}`);
+	}
+	return number;
+}
+
+function dateParam(params: URLSearchParams, name: string): string | undefined {
+	const value = params.get(name);
+	if (value !== null && !ISO_DATE.test(value)) {
+		throw new ApiError(400, `"${name}" must be a date like 2024-01-25`);
+	}
+	return value ?? undefined;
+}
+
+function parseEpisodeFilter(params: URLSearchParams): EpisodeFilter {
+	return {
+		season: integerParam(params, 'season', 0),
+		category: params.get('category') ?? undefined,
+		from: dateParam(params, 'from'),
+		to: dateParam(params, 'to'),
+		query: params.get('q') ?? undefined,
+	};
+}
+
+export function createApiServer(options: ApiServerOptions = {}): http.Server {
+	const reportPath = options.reportPath ?? DEFAULT_REPORT_PATH;
+	const scraper = options.scraper ?? new HotOnesScraper();
+	const overridesPath = options.overridesPath ?? DEFAULT_OVERRIDES_PATH;
+
+	let report: HotOnesReport = loadReport(reportPath).report;
+	let refreshing = false;
+	// Built on first use and dropped whenever the report is replaced
+	let similarityIndex: SimilarityIndex | undefined;
+
+	// Resolved like an episode code, so /episodes/0/14 is special S0E14; a
+	// season's specials all share episode 0, so that can match several
+	const findEpisode = (season: string, episodeNumber: string) => {
+		const code = `S${Number(season)}E${Number(episodeNumber)}`;
+		const matches = resolveEpisode(report.episodes, code);
+		if (matches.length === 0) {
+			throw new ApiError(404, `No episode ${code}`);
+		}
+		if (matches.length > 1) {
+			throw new ApiError(
+				409,
+				`${code} matches ${matches.length} episodes`,
+				{
+					candidates: matches.map(({ episode }) => ({
+						code: episodeCode(episode),
+						title: episode.title,
+					})),
+				},
+			);
+		}
+		return matches[0].episode;
+	};
+
+	const routes: {
+		method: string;
+		pattern: RegExp;
+		handle: (
+			match: RegExpMatchArray,
+			url: URL,
+		) => Promise<unknown> | unknown;
+	}[] = [
+		{
+			method: 'GET',
+			pattern: /^\/episodes\/?$/,
+			handle: (_match, url) => {
+				const page = integerParam(url.searchParams, 'page', 1) ?? 1;
+				const perPage = Math.min(
+					integerParam(url.searchParams, 'per_page', 1) ??
+						DEFAULT_PER_PAGE,
+					MAX_PER_PAGE,
+				);
+				const { items, ...meta } = paginate(
+					filterEpisodes(
+						report.episodes,
+						parseEpisodeFilter(url.searchParams),
+					),
+					page,
+					perPage,
+				);
+				return {
+					...meta,
+					episodes: items.map(({ number, episode }) => ({
+						number,
+						...episode,
+					})),
+				};
+			},
+		},
+		{
+			method: 'GET',
+			pattern: /^\/episodes\/(\d+)\/(\d+)\/?$/,
+			handle: ([, season, episodeNumber]) =>
+				findEpisode(season, episodeNumber),
+		},
+		{
+			method: 'GET',
+			pattern: /^\/episodes\/(\d+)\/(\d+)\/similar\/?$/,
+			handle: ([, season, episodeNumber], url) => {
+				const episode = findEpisode(season, episodeNumber);
+				const limit = Math.min(
+					integerParam(url.searchParams, 'limit', 1) ??
+						DEFAULT_SIMILAR_LIMIT,
+					MAX_PER_PAGE,
+				);
+				similarityIndex ??= new SimilarityIndex(report.episodes);
+				return {
+					episode,
+					weights: SIMILARITY_WEIGHTS,
+					similar: similarityIndex
+						.similarTo(episode, { limit })
+						.map(
+							({
+								number,
+								episode: similarEpisode,
+								...score
+							}) => ({
+								number,
+								code: episodeCode(similarEpisode),
+								...score,
+								episode: similarEpisode,
+							}),
+						),
+				};
+			},
+		},
+		{
+			method: 'GET',
+			pattern: /^\/stats\/?$/,
+			handle: () => ({
+				scraped_at: report.scraped_at,
+				...computeStats(report.episodes),
+				analytics: computeAnalytics(report.episodes),
+			}),
+		},
+		{
+			method: 'POST',
+			pattern: /^\/refresh\/?$/,
+			handle: async () => {
+				if (refreshing) {
+					throw new ApiError(409, 'A refresh is already running');
+				}
+
+				refreshing = true;
+				let episodes: HotOnesEpisode[];
+				try {
+					episodes = numberEpisodes(
+						await scraper.scrapeAllEpisodes(),
+					);
+				} catch (error) {
+					throw new ApiError(
+						502,
+						`Scrape failed: ${
+							error instanceof Error ? error.message : error
+						}`,
+					);
+				} finally {
+					refreshing = false;
+				}
+
+				// Same guard as npm run scrape: don't swap in a partial page
+				if (
+					isSuspiciousShrink(report.episodes.length, episodes.length)
+				) {
+					throw new ApiError(
+						502,
+						`Scrape returned ${episodes.length} episodes but the dataset has ${report.episodes.length}; keeping the current data`,
+					);
+				}
+
+				let curated: HotOnesEpisode[];
+				try {
+					curated = applyOverridesFile(
+						episodes,
+						overridesPath,
+					).episodes;
+				} catch (error) {
+					throw new ApiError(
+						500,
+						error instanceof Error ? error.message : String(error),
+					);
+				}
+
+				const previousCount = report.episodes.length;
+				report = createReport(curated, scraper.url);
+				similarityIndex = undefined;
+				saveReport(report, reportPath);
+				return {
+					scraped_at: report.scraped_at,
+					episodes: episodes.length,
+					previous_episodes: previousCount,
+				};
+			},
+		},
+	];
+
+	return http.createServer(async (req, res) => {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+
+		try {
+			const matching = routes.flatMap((route) => {
+				const match = url.pathname.match(route.pattern);
+				return match ? [{ route, match }] : [];
+			});
+
+			if (matching.length === 0) {
+				throw new ApiError(404, `No route for ${url.pathname}`);
+			}
+
+			const found = matching.find(
+				({ route }) => route.method === req.method,
+			);
+			if (!found) {
+				const allowed = matching
+					.map(({ route }) => route.method)
+					.join(', ');
+				sendJson(
+					res,
+					405,
+					{ error: { status: 405, message: `Use ${allowed}` } },
+					{ Allow: allowed },
+				);
+				return;
+			}
+
+			sendJson(res, 200, await found.route.handle(found.match, url));
+		} catch (error) {
+			const status = error instanceof ApiError ? error.status : 500;
+			const message =
+				error instanceof ApiError
+					? error.message
+					: 'Internal server error';
+			if (status === 500) {
+				console.error(brand.error('❌ API error:'), error);
+			}
+			const details = error instanceof ApiError ? error.details : {};
+			sendJson(res, status, { error: { status, message, ...details } });
+		}
+	});
+}
@@ -0,0 +1,420 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EXIT_CODES, positionalArgs, run } from './cli';
+import { numberEpisodes } from './episode-numbering';
+import { createReport, loadReport, saveReport } from './report';
+import { TVDB_LISTING_URL } from './tvdb-parser';
+import { HotOnesEpisode } from './types';
+
+// Numbered like a loaded report, so episodes compare equal after a round trip
+const episodes: HotOnesEpisode[] = numberEpisodes([
+	{
+		season_number: 1,
+		episode_number: 1,
+		title: "Tony Yayo Talks Shmoney Dance & Eminem's Taco Habit While Eating Spicy Chicken Wings",
+		guests: ['Tony Yayo'],
+		topics: ['Shmoney Dance'],
+		air_date: '2015-03-12',
+		description: '',
+		tags: [{ category: 'Music', sub_categories: ['Rapper'] }],
+	},
+	{
+		season_number: 23,
+		episode_number: 12,
+		title: "Conan O'Brien Needs a Doctor While Eating Spicy Wings",
+		guests: ["Conan O'Brien"],
+		topics: [],
+		air_date: '2024-01-25',
+		description: '',
+		tags: [{ category: 'Comedy', sub_categories: [] }],
+	},
+]);
+
+let directory: string;
+let reportPath: string;
+let statePath: string;
+let saucesPath: string;
+let stdout: string[];
+let stderr: string[];
+
+const runCli = (...argv: string[]) =>
+	run([
+		...argv,
+		'--report',
+		reportPath,
+		'--state',
+		statePath,
+		'--sauces',
+		saucesPath,
+	]);
+
+// Scrapes a saved TheTVDB page with three episodes on it
+const scrapeFixture = (...argv: string[]) =>
+	runCli(
+		'scrape',
+		'--source',
+		'file',
+		'--html',
+		path.join(
+			__dirname,
+			'__fixtures__',
+			'thetvdb-allseasons-edge-cases.html',
+		),
+		'--overrides',
+		path.join(directory, 'overrides.json'),
+		...argv,
+	);
+
+beforeEach(() => {
+	directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wing-scrape-cli-'));
+	reportPath = path.join(directory, 'report.json');
+	statePath = path.join(directory, 'state.json');
+	saucesPath = path.join(directory, 'sauces.json');
+	saveReport(createReport(episodes, TVDB_LISTING_URL), reportPath);
+
+	stdout = [];
+	stderr = [];
+	jest.spyOn(console, 'log').mockImplementation((...args) => {
+		stdout.push(args.join(' '));
+	});
+	jest.spyOn(console, 'error').mockImplementation((...args) => {
+		stderr.push(args.join(' '));
+	});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+	fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('positionalArgs', () => {
+	it('skips flags and the values of flags that take one', () => {
+		expect(
+			positionalArgs(['search', '--report', 'r.json', 'conan', '--json']),
+		).toEqual(['search', 'conan']);
+	});
+});
+
+describe('run', () => {
+	it('prints search results as JSON', async () => {
+		expect(await runCli('search', 'conan', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toMatchObject([
+			{ number: 2, episode: episodes[1] },
+		]);
+	});
+
+	it('exits with notFound when a search matches nothing', async () => {
+		expect(await runCli('search', 'nobody')).toBe(EXIT_CODES.notFound);
+	});
+
+	it('lists a season', async () => {
+		expect(await runCli('season', '23', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toHaveLength(1);
+	});
+
+	it('shows an episode by number', async () => {
+		expect(await runCli('show', '1', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toEqual({
+			code: 'S1E1',
+			number: 1,
+			episode: episodes[0],
+			state: null,
+			sauces: null,
+		});
+		expect(await runCli('show', '3')).toBe(EXIT_CODES.notFound);
+	});
+
+	it('shows an episode by code, overall number or guest', async () => {
+		for (const reference of [['s23e12'], ['#2'], ['conan', "o'brien"]]) {
+			stdout = [];
+			expect(await runCli('show', ...reference, '--json')).toBe(
+				EXIT_CODES.ok,
+			);
+			expect(JSON.parse(stdout.join('\n')).code).toBe('S23E12');
+		}
+		expect(await runCli('show', 'S9E9')).toBe(EXIT_CODES.notFound);
+	});
+
+	it('lists the candidates for an ambiguous show or guest and exits with usage', async () => {
+		expect(await runCli('show', 'eating', '--json')).toBe(EXIT_CODES.usage);
+		expect(JSON.parse(stdout.join('\n'))).toHaveLength(2);
+
+		stdout = [];
+		expect(await runCli('guest', 'on', '--json')).toBe(EXIT_CODES.usage);
+		expect(
+			JSON.parse(stdout.join('\n')).map(
+				(profile: { name: string }) => profile.name,
+			),
+		).toEqual(expect.arrayContaining(['Tony Yayo', "Conan O'Brien"]));
+	});
+
+	it('prints stats', async () => {
+		expect(await runCli('stats', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toMatchObject({
+			totalEpisodes: 2,
+			totalSeasons: 2,
+			analytics: {
+				firstAirDate: '2015-03-12',
+				lastAirDate: '2024-01-25',
+			},
+		});
+	});
+
+	it('drills into the taxonomy by alias', async () => {
+		expect(await runCli('taxonomy', 'mc', '--json')).toBe(EXIT_CODES.ok);
+		const result = JSON.parse(stdout.join('\n'));
+
+		expect(result.path).toEqual(['Music', 'Rapper']);
+		expect(result.counts[0]).toMatchObject({ name: 'Rapper', count: 1 });
+		expect(result.episodes).toMatchObject([{ number: 1 }]);
+		expect(await runCli('taxonomy', 'polka')).toBe(EXIT_CODES.notFound);
+	});
+
+	it('tracks watches, ratings and favorites outside the report', async () => {
+		expect(await runCli('watch', 'conan')).toBe(EXIT_CODES.ok);
+		expect(await runCli('rate', 'S23E12', '5')).toBe(EXIT_CODES.ok);
+		expect(await runCli('fav', '#1')).toBe(EXIT_CODES.ok);
+		expect(await runCli('rate', 'S23E12', '7')).toBe(EXIT_CODES.usage);
+		expect(await runCli('watch', 'nobody')).toBe(EXIT_CODES.notFound);
+
+		stdout = [];
+		expect(await runCli('show', 'S23E12', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n')).state).toMatchObject({
+			watched: true,
+			rating: 5,
+		});
+
+		stdout = [];
+		expect(await runCli('favorites', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toMatchObject([{ number: 1 }]);
+
+		stdout = [];
+		expect(await runCli('unwatched', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toMatchObject([{ number: 1 }]);
+
+		stdout = [];
+		expect(await runCli('random', 'unwatched', '--json')).toBe(
+			EXIT_CODES.ok,
+		);
+		expect(JSON.parse(stdout.join('\n')).picks[0].number).toBe(1);
+		expect(await runCli('random', 'unwatched', 'category:comedy')).toBe(
+			EXIT_CODES.notFound,
+		);
+		expect(await runCli('random', 'season:last')).toBe(EXIT_CODES.usage);
+
+		expect(await runCli('watch', 'conan', 'off')).toBe(EXIT_CODES.ok);
+		expect(
+			JSON.parse(fs.readFileSync(statePath, 'utf-8')).episodes.S23E12,
+		).toEqual({ rating: 5, updated_at: expect.any(String) });
+	});
+
+	it('repeats random picks for the same seed', async () => {
+		const pick = async () => {
+			stdout = [];
+			expect(
+				await runCli('random', '2', 'spicy', 'seed:wings', '--json'),
+			).toBe(EXIT_CODES.ok);
+			return JSON.parse(stdout.join('\n'));
+		};
+
+		const first = await pick();
+		expect(first).toMatchObject({ seed: 'wings', candidates: 2 });
+		expect(first.picks).toHaveLength(2);
+		expect(await pick()).toEqual(first);
+	});
+
+	it('finds nothing similar when episodes only share common words', async () => {
+		// With two episodes, words they both use carry no weight
+		expect(await runCli('similar', 'S1E1', '--json')).toBe(
+			EXIT_CODES.notFound,
+		);
+		expect(JSON.parse(stdout.join('\n'))).toMatchObject({
+			code: 'S1E1',
+			number: 1,
+			similar: [],
+		});
+		expect(await runCli('similar', 'S1E1', '--limit', '0')).toBe(
+			EXIT_CODES.usage,
+		);
+		expect(await runCli('similar', 'nobody')).toBe(EXIT_CODES.notFound);
+	});
+
+	it('shows sauce lineups and where a sauce appeared', async () => {
+		expect(await runCli('sauces')).toBe(EXIT_CODES.notFound);
+
+		const lastDab = {
+			name: 'The Last Dab: Apollo',
+			maker: 'Smokin Ed Currie',
+			scoville: 2000000,
+			wing: 10,
+			last_dab: true,
+		};
+		fs.writeFileSync(
+			saucesPath,
+			JSON.stringify({
+				schema_version: 1,
+				lineups: [{ season: 23, sauces: [lastDab] }],
+			}),
+		);
+
+		expect(await runCli('sauces', '23', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toEqual({
+			season: 23,
+			sauces: [lastDab],
+		});
+
+		stdout = [];
+		expect(await runCli('sauces', 'find', 'apollo', '--json')).toBe(
+			EXIT_CODES.ok,
+		);
+		expect(JSON.parse(stdout.join('\n'))).toEqual([
+			{ season: 23, sauce: lastDab },
+		]);
+
+		stdout = [];
+		expect(await runCli('show', 'S23E12', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n')).sauces).toEqual([lastDab]);
+
+		expect(await runCli('sauces')).toBe(EXIT_CODES.ok);
+		expect(await runCli('sauces', '1')).toBe(EXIT_CODES.notFound);
+		expect(await runCli('sauces', 'hottest')).toBe(EXIT_CODES.usage);
+	});
+
+	it('profiles a guest and reports returning guests', async () => {
+		expect(await runCli('guest', 'conan obrien', '--json')).toBe(
+			EXIT_CODES.ok,
+		);
+		expect(JSON.parse(stdout.join('\n'))).toMatchObject({
+			name: "Conan O'Brien",
+			episodes: 1,
+			specials: 0,
+			appearances: [{ number: 2 }],
+		});
+
+		expect(await runCli('guest', 'nobody')).toBe(EXIT_CODES.notFound);
+		expect(await runCli('guest')).toBe(EXIT_CODES.usage);
+		expect(await runCli('guests')).toBe(EXIT_CODES.notFound);
+	});
+
+	it('re-tags a saved report, keeping pinned tags', async () => {
+		const overridesPath = path.join(directory, 'overrides.json');
+		fs.writeFileSync(
+			overridesPath,
+			JSON.stringify({
+				schema_version: 1,
+				episodes: {
+					S1E1: {
+						pin_tags: [{ category: 'Comedy', sub_categories: [] }],
+					},
+				},
+			}),
+		);
+		saveReport(
+			createReport(
+				[
+					episodes[0],
+					{
+						...episodes[1],
+						tags: [
+							{
+								category: 'Sports',
+								sub_categories: ['Basketball Player'],
+							},
+						],
+					},
+				],
+				TVDB_LISTING_URL,
+			),
+			reportPath,
+		);
+
+		expect(
+			await runCli('retag', '--overrides', overridesPath, '--json'),
+		).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toEqual({
+			episodes: 2,
+			changed: 2,
+			overrides_applied: 1,
+		});
+		const [yayo, conan] = loadReport(reportPath).report.episodes;
+		expect(yayo.tags).toEqual([{ category: 'Comedy', sub_categories: [] }]);
+		expect(conan.tags).not.toContainEqual(
+			expect.objectContaining({ category: 'Sports' }),
+		);
+	});
+
+	it('reports episodes with colliding numbers', async () => {
+		expect(await runCli('check', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toEqual({ issues: [] });
+
+		saveReport(
+			createReport([...episodes, episodes[1]], TVDB_LISTING_URL),
+			reportPath,
+		);
+		stdout = [];
+		expect(await runCli('check', '--json')).toBe(EXIT_CODES.error);
+		expect(
+			JSON.parse(stdout.join('\n')).issues.map(
+				(issue: { kind: string }) => issue.kind,
+			),
+		).toEqual(['duplicate-number', 'duplicate-title']);
+	});
+
+	it('rejects unknown commands and bad arguments as usage errors', async () => {
+		expect(await runCli('dance')).toBe(EXIT_CODES.usage);
+		expect(await runCli('season', 'five')).toBe(EXIT_CODES.usage);
+		expect(await runCli('search')).toBe(EXIT_CODES.usage);
+		expect(await runCli('search', '(conan')).toBe(EXIT_CODES.usage);
+		expect(await runCli('scrape', '--source', 'myspace')).toBe(
+			EXIT_CODES.usage,
+		);
+		expect(await runCli('stats', '--theme', 'neon')).toBe(EXIT_CODES.usage);
+	});
+
+	it('prints nothing but ASCII with --plain', async () => {
+		for (const command of [['show', 'S23E12'], ['stats'], ['guests']]) {
+			await runCli(...command, '--plain');
+		}
+		expect(stdout.join('\n')).toContain('Conan');
+		expect(stdout.join('\n')).not.toMatch(/[^\x00-\x7f]/);
+	});
+
+	it('keeps scrape progress ASCII with --plain', async () => {
+		jest.spyOn(console, 'warn').mockImplementation((...args) => {
+			stderr.push(args.join(' '));
+		});
+		expect(await scrapeFixture('--plain')).toBe(EXIT_CODES.ok);
+		expect(stdout.join('\n')).toContain('Extracted 3 total episodes');
+		expect([...stdout, ...stderr].join('\n')).not.toMatch(/[^\x00-\x7f]/);
+	});
+
+	it('refuses to replace the report with a much smaller scrape', async () => {
+		jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+		const larger = numberEpisodes(
+			Array.from({ length: 10 }, (_, index) => ({
+				...episodes[1],
+				episode_number: index + 1,
+			})),
+		);
+		saveReport(createReport(larger, TVDB_LISTING_URL), reportPath);
+
+		expect(await scrapeFixture()).toBe(EXIT_CODES.error);
+		expect(stderr.join('\n')).toContain('report was NOT overwritten');
+		expect(loadReport(reportPath).report.episodes).toHaveLength(10);
+
+		stdout = [];
+		expect(await scrapeFixture('--force', '--json')).toBe(EXIT_CODES.ok);
+		expect(JSON.parse(stdout.join('\n'))).toMatchObject({
+			episodes: 3,
+			changes: { removed: 10 },
+		});
+		expect(loadReport(reportPath).report.episodes).toHaveLength(3);
+	});
+
+	it('fails when the report is missing', async () => {
+		fs.rmSync(reportPath);
+		expect(await runCli('stats')).toBe(EXIT_CODES.error);
+		expect(stderr.join('\n')).toContain('Run "wing-scrape scrape" first');
+	});
+});
@@ -0,0 +1,1578 @@
+import {
+	EpisodeSource,
+	HotOnesEpisode,
+	HotOnesReport,
+	SauceLineup,
+} from './types';
+import {
+	createEpisodeSources,
+	fetchFromSources,
+	getFlagValue,
+	parseSourceArgs,
+} from './episode-sources';
+import {
+	computeStats,
+	EpisodeStats,
+	filterEpisodes,
+	listSeason,
+	numbered,
+	NumberedEpisode,
+	resolveEpisode,
+} from './episode-queries';
+import {
+	DiscoveryError,
+	DiscoveryOptions,
+	DiscoveryResult,
+	discoverEpisodes,
+	parseDiscoveryArgs,
+} from './discovery';
+import { SearchIndex, SearchQueryError } from './search-index';
+import {
+	explainSimilarity,
+	SimilarEpisode,
+	SimilarityIndex,
+	SIMILARITY_WEIGHTS,
+} from './similarity';
+import {
+	bar,
+	computeAnalytics,
+	EpisodeAnalytics,
+	sparkline,
+} from './analytics';
+import {
+	countTaxonomy,
+	findTaxonomyNode,
+	formatTaxonomyPath,
+	TaxonomyCount,
+} from './taxonomy';
+import {
+	describeEpisodeNumber,
+	episodeCode,
+	findNumberingIssues,
+	NumberingIssue,
+} from './episode-numbering';
+import {
+	createReport,
+	DEFAULT_REPORT_PATH,
+	formatIssues,
+	loadReport,
+	ReportValidationError,
+	saveReport,
+} from './report';
+import { diffReports, isSuspiciousShrink } from './report-diff';
+import { categorizeProfession } from './tagging';
+import { ExportOptions, parseExportArgs, writeExport } from './exporters';
+import { createApiServer, DEFAULT_API_PORT } from './api-server';
+import {
+	applyOverridesFile,
+	DEFAULT_OVERRIDES_PATH,
+	OverridesError,
+} from './overrides';
+import {
+	DEFAULT_USER_STATE_PATH,
+	describeEpisodeState,
+	EpisodeState,
+	getEpisodeState,
+	listFavorites,
+	listUnwatched,
+	loadUserState,
+	markWatched,
+	rateEpisode,
+	saveUserState,
+	setFavorite,
+	UserState,
+	UserStateError,
+} from './user-state';
+import { describeGuestTags, GuestProfile, GuestRegistry } from './guests';
+import {
+	DEFAULT_SAUCES_PATH,
+	findLastDab,
+	findLineup,
+	findSauce,
+	formatScoville,
+	lineupForEpisode,
+	loadSauceCatalog,
+	SaucesError,
+	seasonHeat,
+	SeasonHeat,
+} from './sauces';
+import {
+	brand,
+	createTable,
+	detectPresentation,
+	ThemeError,
+	usePresentation,
+} from './theme';
+import * as fs from 'fs';
+import { AddressInfo } from 'net';
+
+export const EXIT_CODES = {
+	ok: 0,
+	// Scrape failed, report unreadable, check found problems, ...
+	error: 1,
+	// Unknown command, bad arguments, or a show/guest matching several
+	usage: 2,
+	// The query ran fine but matched nothing
+	notFound: 3,
+} as const;
+
+// Flags that take a value, so their value isn't mistaken for a positional
+const VALUE_FLAGS = [
+	'--source',
+	'--html',
+	'--playlist',
+	'--user-agent',
+	'--format',
+	'--out',
+	'--report',
+	'--overrides',
+	'--state',
+	'--sauces',
+	'--limit',
+	'--port',
+	'--host',
+	'--theme',
+];
+
+const USAGE = `Usage: wing-scrape <command> [options]
+
+Commands:
+  search <query>    Ranked search (guest:, season:, category:, year:,
+                    before:, after:, "phrases", AND/OR/NOT)
+  season <number>   List all episodes from a season
+  show <episode>    Show one episode: S22E5, #433 (overall number),
+                    a list number, or a guest name
+  random [filters]  Random picks: a number for how many, season:3-5,
+                    year:2019, category:<name>, keywords, unwatched,
+                    favorites, seed:<any> to repeat, like:<episode>
+  guest <name>      Every appearance of a guest (nicknames work too)
+  guests            Returning guests, most appearances first
+  similar <episode> Episodes most like this one, and why (--limit <n>)
+  watch <episode> [off]   Mark an episode watched (or not)
+  rate <episode> <1-5>    Rate an episode ("clear" removes the rating)
+  fav <episode> [off]     Add an episode to your favorites (or remove it)
+  favorites         List your favorite episodes
+  unwatched         List episodes you haven't watched yet
+  sauces [season]   A season's sauce lineup; "sauces find <name>" lists
+                    the seasons a sauce was in; no season charts the heat
+  stats             Episode statistics, release cadence and category trends
+  taxonomy [node]   Profession tree with episode counts; name a node
+                    (or an alias like "hoops") to list its episodes
+  check             List episodes with missing or colliding numbers
+  retag             Re-tag the saved report with the current tagging rules,
+                    then re-apply the overrides (--overrides <path>)
+  scrape            Scrape episodes and update the report
+  serve             Serve the report over a local HTTP JSON API
+  help              Show this message
+
+Options:
+  --json            Print machine-readable JSON
+  --report <path>   Report to read/write (default: ./hot-ones-report.json)
+  --state <path>    Watched/ratings/favorites file
+                    (default: ./hot-ones-user-state.json)
+  --sauces <path>   Sauce lineups you curate (default: ./hot-ones-sauces.json;
+                    not shipped, see "Sauce lineups" in the README)
+  --plain           No colour, emoji or box drawing (screen readers, logs)
+  --theme <name>    Colours: hot (default), contrast or mono
+
+Scrape options:
+  --source, --html, --playlist, --user-agent, --deep, --format, --out
+  --overrides <path> Curation to re-apply (default: ./hot-ones-overrides.json)
+  --force           Save even when the scrape has far fewer episodes than the
+                    saved report, or the saved report can't be read
+
+Serve options:
+  --overrides <path> Curation re-applied after POST /refresh
+  --port <number>   Port to listen on (default: 3000)
+  --host <address>  Address to bind (default: 127.0.0.1)
+
+Exit codes: 0 ok, 1 error, 2 usage error, 3 nothing found`;
+
+class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UsageError';
+	}
+}
+
+interface CommandContext {
+	args: string[];
+	argv: string[];
+	json: boolean;
+	reportPath: string;
+}
+
+type Command = (context: CommandContext) => Promise<number>;
+
+export function positionalArgs(argv: string[]): string[] {
+	const positionals: string[] = [];
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (VALUE_FLAGS.includes(arg)) {
+			i++;
+		} else if (!arg.startsWith('-')) {
+			positionals.push(arg);
+		}
+	}
+	return positionals;
+}
+
+const printJson = (data: unknown) => console.log(JSON.stringify(data, null, 2));
+
+const saucesPath = (argv: string[]) =>
+	getFlagValue(argv, '--sauces') ?? DEFAULT_SAUCES_PATH;
+
+const userStatePath = (argv: string[]) =>
+	getFlagValue(argv, '--state') ?? DEFAULT_USER_STATE_PATH;
+
+function loadSavedReport(reportPath: string): HotOnesReport {
+	if (!fs.existsSync(reportPath)) {
+		throw new Error(
+			`No report found at ${reportPath}. Run "wing-scrape scrape" first.`,
+		);
+	}
+	return loadReport(reportPath).report;
+}
+
+const loadEpisodes = (reportPath: string) =>
+	loadSavedReport(reportPath).episodes;
+
+function printEpisodeList(results: NumberedEpisode[], heading: string): void {
+	console.log(brand.highlight(heading));
+
+	const table = createTable({
+		head: [
+			brand.highlight('#'),
+			brand.highlight('Title'),
+			brand.highlight('Season/Episode'),
+			brand.highlight('Air Date'),
+		],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+		colWidths: [6, 50, 16, 13],
+	});
+
+	results.forEach(({ episode, number }) => {
+		table.push([
+			brand.success(number.toString()),
+			brand.info(
+				episode.title.length > 45
+					? episode.title.substring(0, 45) + '...'
+					: episode.title,
+			),
+			brand.dim(episodeCode(episode)),
+			brand.dim(episode.air_date),
+		]);
+	});
+
+	console.log(table.toString());
+}
+
+function printEpisode(
+	{ episode, number }: NumberedEpisode,
+	episodeState?: EpisodeState,
+	lineup?: SauceLineup,
+): void {
+	console.log(brand.title(`🌶️  ${episodeCode(episode)}: ${episode.title}`));
+	console.log(brand.dim(`   Shortcut: ${number}`));
+
+	const table = createTable({
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+		colWidths: [16, 60],
+		wordWrap: true,
+	});
+
+	table.push(
+		[
+			brand.highlight('Guests'),
+			brand.info(
+				episode.guests.length > 0
+					? episode.guests.join(', ')
+					: 'Hot Ones Special',
+			),
+		],
+		[brand.highlight('Season'), brand.info(`${episode.season_number}`)],
+		[
+			brand.highlight('Episode'),
+			brand.info(describeEpisodeNumber(episode)),
+		],
+		[brand.highlight('Air Date'), brand.success(episode.air_date)],
+		[
+			brand.highlight('Categories'),
+			brand.info(episode.tags.map((tag) => tag.category).join(', ')),
+		],
+		[
+			brand.highlight('You'),
+			brand.success(describeEpisodeState(episodeState)),
+		],
+	);
+	if (lineup) {
+		const lastDab = findLastDab(lineup);
+		table.push([
+			brand.highlight('Sauces'),
+			brand.info(
+				`${lineup.sauces.length} wings up to ${formatScoville(
+					Math.max(...lineup.sauces.map(({ scoville }) => scoville)),
+				)}${lastDab ? `, ending on ${lastDab.name}` : ''}`,
+			),
+		]);
+	}
+	if (episode.topics.length > 0) {
+		table.push([
+			brand.highlight('Topics'),
+			brand.dim(episode.topics.join(', ')),
+		]);
+	}
+	if (episode.description) {
+		table.push([
+			brand.highlight('Description'),
+			brand.info(episode.description),
+		]);
+	}
+
+	console.log(table.toString());
+}
+
+function printStats(stats: EpisodeStats): void {
+	console.log(brand.title('📊 Hot Ones Episode Statistics'));
+	console.log(brand.info(`Total Episodes: ${stats.totalEpisodes}`));
+	console.log(brand.info(`Total Seasons: ${stats.totalSeasons}`));
+	console.log(brand.info(`Specials: ${stats.totalSpecials}`));
+	console.log(brand.info(`Unique Guests: ${stats.uniqueGuests}`));
+
+	const sections: [string, string, [string, number][]][] = [
+		[
+			'🎬 Episodes per Season:',
+			'Season',
+			stats.episodesPerSeason.map(({ season, count }) => [
+				String(season),
+				count,
+			]),
+		],
+		[
+			'🏷️  Top Categories:',
+			'Category',
+			stats.topCategories.map(({ category, count }) => [category, count]),
+		],
+		[
+			'🐔 Most Frequent Guests:',
+			'Guest',
+			stats.topGuests.map(({ guest, count }) => [guest, count]),
+		],
+	];
+
+	sections.forEach(([heading, label, rows]) => {
+		const table = createTable({
+			head: [brand.highlight(label), brand.highlight('Episodes')],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+		});
+		rows.forEach(([name, count]) =>
+			table.push([brand.info(name), brand.success(count.toString())]),
+		);
+		console.log(brand.highlight(`\n${heading}`));
+		console.log(table.toString());
+	});
+}
+
+function printNumberingIssues(issues: NumberingIssue[]): void {
+	const table = createTable({
+		head: [
+			brand.highlight('Problem'),
+			brand.highlight('Episode'),
+			brand.highlight('Title'),
+		],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+		colWidths: [18, 18, 50],
+		wordWrap: true,
+	});
+	issues.forEach(({ code, titles, message }) => {
+		table.push([
+			brand.error(message),
+			brand.info(code),
+			brand.dim(titles.join('\n')),
+		]);
+	});
+	console.log(table.toString());
+}
+
+function printPicks(result: DiscoveryResult): void {
+	console.log(
+		brand.highlight(
+			result.similarTo
+				? `🎯 Like ${episodeCode(result.similarTo.episode)} ${
+						result.similarTo.episode.title
+				  }:`
+				: `🎲 ${result.picks.length} of ${result.candidates} episodes:`,
+		),
+	);
+
+	const table = createTable({
+		head: [
+			brand.highlight('Episode'),
+			brand.highlight('Title'),
+			brand.highlight(result.similarTo ? 'In Common' : 'Air Date'),
+		],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+		colWidths: [10, 50, 30],
+		wordWrap: true,
+	});
+	result.picks.forEach(({ episode, similarity }) => {
+		table.push([
+			brand.success(episodeCode(episode)),
+			brand.info(episode.title),
+			brand.dim(
+				similarity ? explainSimilarity(similarity) : episode.air_date,
+			),
+		]);
+	});
+	console.log(table.toString());
+}
+
+function printTaxonomy(counts: TaxonomyCount[]): void {
+	const table = createTable({
+		head: [brand.highlight('Profession'), brand.highlight('Episodes')],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+	});
+	counts.forEach(({ name, depth, count }) => {
+		const label = `${'  '.repeat(depth)}${name}`;
+		table.push(
+			count > 0
+				? [brand.info(label), brand.success(count.toString())]
+				: [brand.dim(label), brand.dim('0')],
+		);
+	});
+	console.log(table.toString());
+}
+
+function printGuest(profile: GuestProfile): void {
+	console.log(brand.title(`🎤 ${profile.name}`));
+	if (profile.aliases.length > 0) {
+		console.log(
+			brand.dim(`   Also known as ${profile.aliases.join(', ')}`),
+		);
+	}
+	console.log(
+		brand.info(
+			`   ${profile.episodes} episode(s), ${profile.specials} special(s)${
+				profile.firstAired
+					? `, ${profile.firstAired} → ${profile.lastAired}`
+					: ''
+			}`,
+		),
+	);
+	console.log(brand.info(`   Categories: ${describeGuestTags(profile)}\n`));
+	printEpisodeList(profile.appearances, '📺 Appearances:');
+}
+
+function printReturningGuests(profiles: GuestProfile[]): void {
+	console.log(brand.highlight(`🔁 ${profiles.length} Returning Guests:`));
+
+	const table = createTable({
+		head: [
+			brand.highlight('Guest'),
+			brand.highlight('Appearances'),
+			brand.highlight('First → Last'),
+			brand.highlight('Categories'),
+		],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+		colWidths: [24, 30, 26, 30],
+		wordWrap: true,
+	});
+	profiles.forEach((profile) => {
+		table.push([
+			brand.success(profile.name),
+			brand.info(
+				profile.appearances
+					.map(({ episode }) => episodeCode(episode))
+					.join(', '),
+			),
+			brand.dim(`${profile.firstAired} → ${profile.lastAired}`),
+			brand.dim(describeGuestTags(profile)),
+		]);
+	});
+	console.log(table.toString());
+}
+
+function printLineup(lineup: SauceLineup): void {
+	console.log(brand.highlight(`\n🌶️  Season ${lineup.season} Sauce Lineup:`));
+
+	const table = createTable({
+		head: [
+			brand.highlight('Wing'),
+			brand.highlight('Sauce'),
+			brand.highlight('Maker'),
+			brand.highlight('Scoville'),
+		],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+		colWidths: [6, 34, 24, 36],
+		wordWrap: true,
+	});
+	const max = Math.max(...lineup.sauces.map(({ scoville }) => scoville));
+	lineup.sauces.forEach((sauce) => {
+		table.push([
+			brand.success(sauce.wing.toString()),
+			sauce.last_dab
+				? brand.title(`${sauce.name} (Last Dab)`)
+				: brand.info(sauce.name),
+			brand.dim(sauce.maker),
+			`${brand.success(bar(sauce.scoville, max, 12))} ${brand.dim(
+				formatScoville(sauce.scoville),
+			)}`,
+		]);
+	});
+	console.log(table.toString());
+}
+
+function printSeasonHeat(heat: SeasonHeat[]): void {
+	console.log(
+		brand.highlight(
+			`🔥 Hottest Wing by Season (S${heat[0].season}-S${
+				heat[heat.length - 1].season
+			}): ${sparkline(heat.map(({ hottest }) => hottest.scoville))}`,
+		),
+	);
+
+	const max = Math.max(...heat.map(({ hottest }) => hottest.scoville));
+	heat.forEach(({ season, hottest, median, lastDab }) =>
+		console.log(
+			`  ${brand.info(`S${season}`.padEnd(4))} ${brand.success(
+				bar(hottest.scoville, max).padEnd(30),
+			)} ${brand.info(formatScoville(hottest.scoville))} ${brand.dim(
+				`· median ${formatScoville(median)}${
+					lastDab ? ` · ${lastDab.name}` : ''
+				}`,
+			)}`,
+		),
+	);
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+function printAnalytics(analytics: EpisodeAnalytics): void {
+	const { airDateGaps: gaps, cadence } = analytics;
+
+	console.log(brand.highlight('\n⏱️  Air Date Gaps:'));
+	if (!gaps.longestHiatus) {
+		console.log(brand.dim('Not enough dated episodes'));
+	} else {
+		console.log(
+			brand.info(
+				`Average gap: ${gaps.averageDays} days (median ${gaps.medianDays})`,
+			),
+		);
+		console.log(
+			brand.info(
+				`Longest hiatus: ${gaps.longestHiatus.days} days, ${gaps.longestHiatus.from.air_date} → ${gaps.longestHiatus.to.air_date}`,
+			),
+		);
+	}
+
+	const cadenceSections: [string, { label: string; count: number }[]][] = [
+		['📅 Releases by Weekday:', cadence.byWeekday],
+		['🗓️  Releases by Month:', cadence.byMonth],
+	];
+	cadenceSections.forEach(([heading, rows]) => {
+		const max = Math.max(...rows.map(({ count }) => count));
+		console.log(brand.highlight(`\n${heading}`));
+		rows.forEach(({ label, count }) =>
+			console.log(
+				`  ${brand.info(label)} ${brand.success(
+					bar(count, max).padEnd(30),
+				)} ${brand.dim(count.toString())}`,
+			),
+		);
+	});
+
+	const years = analytics.categoryMixByYear.map(({ period }) => period);
+	if (years.length > 0) {
+		console.log(
+			brand.highlight(
+				`\n📈 Category Share by Year (${years[0]}-${
+					years[years.length - 1]
+				}):`,
+			),
+		);
+		const trendTable = createTable({
+			head: [
+				brand.highlight('Category'),
+				brand.highlight('Trend'),
+				brand.highlight('First → Last'),
+			],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+		});
+		analytics.categoryTrends.slice(0, 6).forEach(({ category, shares }) => {
+			const values = shares.map(({ share }) => share);
+			trendTable.push([
+				brand.info(category),
+				brand.success(sparkline(values)),
+				brand.dim(
+					`${percent(values[0])} → ${percent(
+						values[values.length - 1],
+					)}`,
+				),
+			]);
+		});
+		console.log(trendTable.toString());
+	}
+
+	console.log(brand.highlight('\n🎭 Guest Mix per Season:'));
+	const mixTable = createTable({
+		head: [
+			brand.highlight('Season'),
+			brand.highlight('Episodes'),
+			brand.highlight('Top Categories'),
+		],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+	});
+	analytics.categoryMixBySeason.forEach(({ period, total, categories }) => {
+		mixTable.push([
+			brand.info(period.toString()),
+			brand.success(total.toString()),
+			brand.dim(
+				categories
+					.slice(0, 3)
+					.map(
+						({ category, share }) =>
+							`${category} ${percent(share)}`,
+					)
+					.join(', '),
+			),
+		]);
+	});
+	console.log(mixTable.toString());
+}
+
+const search: Command = async ({ args, json, reportPath }) => {
+	const term = args.join(' ').trim();
+	if (!term) {
+		throw new UsageError(
+			'search needs a term, e.g. "wing-scrape search conan"',
+		);
+	}
+
+	let results: NumberedEpisode[];
+	try {
+		results = new SearchIndex(loadEpisodes(reportPath)).search(term);
+	} catch (error) {
+		if (error instanceof SearchQueryError) {
+			throw new UsageError(error.message);
+		}
+		throw error;
+	}
+	if (json) {
+		printJson(results);
+	} else if (results.length > 0) {
+		printEpisodeList(
+			results,
+			`🔍 Search results for "${term}" (${results.length} found):`,
+		);
+	} else {
+		console.log(brand.dim(`No episodes found matching "${term}".`));
+	}
+	return results.length > 0 ? EXIT_CODES.ok : EXIT_CODES.notFound;
+};
+
+const season: Command = async ({ args, argv, json, reportPath }) => {
+	const seasonNumber = Number(args[0]);
+	if (args.length !== 1 || !Number.isInteger(seasonNumber)) {
+		throw new UsageError(
+			'season needs a number, e.g. "wing-scrape season 22"',
+		);
+	}
+
+	const results = listSeason(loadEpisodes(reportPath), seasonNumber);
+	if (json) {
+		printJson(results);
+	} else if (results.length > 0) {
+		printEpisodeList(
+			results,
+			`📺 Season ${seasonNumber} Episodes (${results.length} episodes):`,
+		);
+		const lineup = findLineup(
+			loadSauceCatalog(saucesPath(argv)),
+			seasonNumber,
+		);
+		if (lineup) {
+			printLineup(lineup);
+		}
+	} else {
+		console.log(brand.dim(`No episodes found for Season ${seasonNumber}.`));
+	}
+	return results.length > 0 ? EXIT_CODES.ok : EXIT_CODES.notFound;
+};
+
+const show: Command = async ({ args, argv, json, reportPath }) => {
+	const reference = args.join(' ').trim();
+	if (!reference) {
+		throw new UsageError(
+			'show needs an episode, e.g. "wing-scrape show S22E5" or "wing-scrape show conan"',
+		);
+	}
+
+	const matches = resolveEpisode(loadEpisodes(reportPath), reference);
+	if (matches.length === 0) {
+		console.error(brand.error(`❌ No episode matches "${reference}"`));
+		return EXIT_CODES.notFound;
+	}
+
+	// Ambiguous references list the candidates instead of guessing
+	const [episodeState, lineup] =
+		matches.length === 1
+			? [
+					getEpisodeState(
+						loadUserState(userStatePath(argv)),
+						matches[0].episode,
+					),
+					lineupForEpisode(
+						loadSauceCatalog(saucesPath(argv)),
+						matches[0].episode,
+					),
+			  ]
+			: [];
+	if (json) {
+		printJson(
+			matches.length === 1
+				? {
+						code: episodeCode(matches[0].episode),
+						...matches[0],
+						state: episodeState ?? null,
+						sauces: lineup?.sauces ?? null,
+				  }
+				: matches,
+		);
+	} else if (matches.length === 1) {
+		printEpisode(matches[0], episodeState, lineup);
+	} else {
+		printEpisodeList(
+			matches,
+			`🔍 ${matches.length} episodes match "${reference}", show one by its code:`,
+		);
+	}
+	return matches.length === 1 ? EXIT_CODES.ok : EXIT_CODES.usage;
+};
+
+const random: Command = async ({ args, argv, json, reportPath }) => {
+	const state = loadUserState(userStatePath(argv));
+	let options: DiscoveryOptions;
+	let result: DiscoveryResult;
+	try {
+		options = parseDiscoveryArgs(args);
+		result = discoverEpisodes(loadEpisodes(reportPath), state, options);
+	} catch (error) {
+		if (error instanceof DiscoveryError) {
+			throw new UsageError(error.message);
+		}
+		throw error;
+	}
+
+	if (result.picks.length === 0) {
+		console.error(
+			brand.error(
+				args.length > 0
+					? `❌ No episodes match "${args.join(' ')}"`
+					: '❌ The report has no episodes',
+			),
+		);
+		return EXIT_CODES.notFound;
+	}
+
+	if (json) {
+		printJson({
+			seed: result.seed,
+			candidates: result.candidates,
+			similar_to: result.similarTo
+				? episodeCode(result.similarTo.episode)
+				: null,
+			picks: result.picks.map((pick) => ({
+				code: episodeCode(pick.episode),
+				...pick,
+				state: getEpisodeState(state, pick.episode) ?? null,
+			})),
+		});
+		return EXIT_CODES.ok;
+	}
+
+	if (result.picks.length === 1 && !result.similarTo) {
+		printEpisode(
+			result.picks[0],
+			getEpisodeState(state, result.picks[0].episode),
+			lineupForEpisode(
+				loadSauceCatalog(saucesPath(argv)),
+				result.picks[0].episode,
+			),
+		);
+	} else {
+		printPicks(result);
+	}
+	// Every pick is seeded, so any of them can be repeated
+	if (!options.seed) {
+		console.log(
+			brand.dim(`   Add seed:${result.seed} to get the same picks again`),
+		);
+	}
+	return EXIT_CODES.ok;
+};
+
+const DEFAULT_SIMILAR_LIMIT = 10;
+
+function printSimilar(
+	target: NumberedEpisode,
+	similar: SimilarEpisode[],
+): void {
+	console.log(
+		brand.highlight(
+			`🎯 Episodes like ${episodeCode(target.episode)} ${
+				target.episode.title
+			}:`,
+		),
+	);
+
+	const table = createTable({
+		head: [
+			brand.highlight('Episode'),
+			brand.highlight('Title'),
+			brand.highlight('Score'),
+			brand.highlight('Why'),
+		],
+		style: {
+			head: [],
+			border: ['dim'],
+		},
+		colWidths: [10, 40, 20, 36],
+		wordWrap: true,
+	});
+	similar.forEach((result) => {
+		const { text, tags, airDate } = result.breakdown;
+		table.push([
+			brand.success(episodeCode(result.episode)),
+			brand.info(result.episode.title),
+			`${brand.success(result.score.toFixed(2))}\n${brand.dim(
+				`text ${text.toFixed(2)}\ntags ${tags.toFixed(
+					2,
+				)}\ndate ${airDate.toFixed(2)}`,
+			)}`,
+			brand.dim(explainSimilarity(result)),
+		]);
+	});
+	console.log(table.toString());
+	console.log(
+		brand.dim(
+			`   Score = ${SIMILARITY_WEIGHTS.text} × text + ${SIMILARITY_WEIGHTS.tags} × tags + ${SIMILARITY_WEIGHTS.airDate} × air date`,
+		),
+	);
+}
+
+const similar: Command = async ({ args, argv, json, reportPath }) => {
+	const reference = args.join(' ').trim();
+	if (!reference) {
+		throw new UsageError(
+			'similar needs an episode, e.g. "wing-scrape similar S22E5"',
+		);
+	}
+	const limit = Number(
+		getFlagValue(argv, '--limit') ?? DEFAULT_SIMILAR_LIMIT,
+	);
+	if (!Number.isInteger(limit) || limit < 1) {
+		throw new UsageError('--limit needs a whole number of at least 1');
+	}
+
+	const episodes = loadEpisodes(reportPath);
+	const target = findOneEpisode(episodes, reference);
+	if (!target) {
+		return EXIT_CODES.notFound;
+	}
+	const results = new SimilarityIndex(episodes).similarTo(target.episode, {
+		limit,
+	});
+
+	if (json) {
+		printJson({
+			code: episodeCode(target.episode),
+			...target,
+			weights: SIMILARITY_WEIGHTS,
+			similar: results.map((result) => ({
+				code: episodeCode(result.episode),
+				...result,
+			})),
+		});
+	} else if (results.length === 0) {
+		console.log(
+			brand.dim(
+				`No episodes share tags or words with ${episodeCode(
+					target.episode,
+				)}`,
+			),
+		);
+	} else {
+		printSimilar(target, results);
+	}
+	return results.length > 0 ? EXIT_CODES.ok : EXIT_CODES.notFound;
+};
+
+// Resolves exactly one episode, or explains why not on stderr
+function findOneEpisode(
+	episodes: HotOnesEpisode[],
+	reference: string,
+): NumberedEpisode | undefined {
+	const matches = resolveEpisode(episodes, reference);
+	if (matches.length === 1) {
+		return matches[0];
+	}
+	console.error(
+		brand.error(
+			matches.length === 0
+				? `❌ No episode matches "${reference}"`
+				: `❌ "${reference}" matches ${
+						matches.length
+				  } episodes: ${matches
+						.slice(0, 5)
+						.map(({ episode }) => episodeCode(episode))
+						.join(', ')}`,
+		),
+	);
+	return undefined;
+}
+
+// Shared by watch/rate/fav: resolve, update, save, report
+async function updateUserState(
+	{ argv, json, reportPath }: CommandContext,
+	reference: string,
+	update: (state: UserState, episode: HotOnesEpisode) => UserState,
+): Promise<number> {
+	const picked = findOneEpisode(loadEpisodes(reportPath), reference);
+	if (!picked) {
+		return EXIT_CODES.notFound;
+	}
+
+	const statePath = userStatePath(argv);
+	const state = update(loadUserState(statePath), picked.episode);
+	saveUserState(state, statePath);
+
+	const episodeState = getEpisodeState(state, picked.episode);
+	if (json) {
+		printJson({
+			code: episodeCode(picked.episode),
+			title: picked.episode.title,
+			state: episodeState ?? null,
+		});
+	} else {
+		console.log(
+			brand.success(
+				`✅ ${episodeCode(picked.episode)} ${
+					picked.episode.title
+				}: ${describeEpisodeState(episodeState)}`,
+			),
+		);
+	}
+	return EXIT_CODES.ok;
+}
+
+// A trailing "off" undoes watch/fav
+const splitToggle = (args: string[]): [string, boolean] =>
+	args[args.length - 1]?.toLowerCase() === 'off'
+		? [args.slice(0, -1).join(' '), false]
+		: [args.join(' '), true];
+
+const watch: Command = async (context) => {
+	const [reference, watched] = splitToggle(context.args);
+	if (!reference) {
+		throw new UsageError(
+			'watch needs an episode, e.g. "wing-scrape watch S22E5"',
+		);
+	}
+	return updateUserState(context, reference, (state, episode) =>
+		markWatched(state, episode, watched),
+	);
+};
+
+const rate: Command = async (context) => {
+	const value = context.args[context.args.length - 1]?.toLowerCase();
+	const reference = context.args.slice(0, -1).join(' ');
+	const rating = value === 'clear' ? null : Number(value);
+	if (!reference || (rating !== null && !/^[1-5]$/.test(value))) {
+		throw new UsageError(
+			'rate needs an episode and 1-5 (or "clear"), e.g. "wing-scrape rate S22E5 4"',
+		);
+	}
+	return updateUserState(context, reference, (state, episode) =>
+		rateEpisode(state, episode, rating),
+	);
+};
+
+const fav: Command = async (context) => {
+	const [reference, favorite] = splitToggle(context.args);
+	if (!reference) {
+		throw new UsageError(
+			'fav needs an episode, e.g. "wing-scrape fav conan"',
+		);
+	}
+	return updateUserState(context, reference, (state, episode) =>
+		setFavorite(state, episode, favorite),
+	);
+};
+
+const favorites: Command = async ({ argv, json, reportPath }) => {
+	const results = listFavorites(
+		loadEpisodes(reportPath),
+		loadUserState(userStatePath(argv)),
+	);
+	if (json) {
+		printJson(results);
+	} else if (results.length > 0) {
+		printEpisodeList(results, `♥ Your favorites (${results.length}):`);
+	} else {
+		console.log(
+			brand.dim(
+				'No favorites yet. Add one with "wing-scrape fav <episode>".',
+			),
+		);
+	}
+	return results.length > 0 ? EXIT_CODES.ok : EXIT_CODES.notFound;
+};
+
+const unwatched: Command = async ({ argv, json, reportPath }) => {
+	const results = listUnwatched(
+		loadEpisodes(reportPath),
+		loadUserState(userStatePath(argv)),
+	);
+	if (json) {
+		printJson(results);
+	} else if (results.length > 0) {
+		printEpisodeList(
+			results,
+			`📺 Episodes you haven't watched (${results.length}):`,
+		);
+	} else {
+		console.log(brand.success('🏆 You have watched every episode!'));
+	}
+	return results.length > 0 ? EXIT_CODES.ok : EXIT_CODES.notFound;
+};
+
+const guest: Command = async ({ args, json, reportPath }) => {
+	const name = args.join(' ').trim();
+	if (!name) {
+		throw new UsageError(
+			'guest needs a name, e.g. "wing-scrape guest seth rogen"',
+		);
+	}
+
+	const matches = new GuestRegistry(numbered(loadEpisodes(reportPath))).find(
+		name,
+	);
+	if (matches.length === 0) {
+		console.error(brand.error(`❌ No guest matches "${name}"`));
+		return EXIT_CODES.notFound;
+	}
+
+	// Ambiguous names list the candidates instead of guessing
+	if (json) {
+		printJson(
+			matches.length === 1
+				? matches[0]
+				: matches.map((profile) => ({
+						name: profile.name,
+						appearances: profile.appearances.length,
+				  })),
+		);
+	} else if (matches.length === 1) {
+		printGuest(matches[0]);
+	} else {
+		console.log(
+			brand.highlight(
+				`🔍 ${matches.length} guests match "${name}", pick one:`,
+			),
+		);
+		matches.forEach((profile) =>
+			console.log(
+				`   ${brand.info(profile.name)} ${brand.dim(
+					`(${profile.appearances.length})`,
+				)}`,
+			),
+		);
+	}
+	return matches.length === 1 ? EXIT_CODES.ok : EXIT_CODES.usage;
+};
+
+const guests: Command = async ({ json, reportPath }) => {
+	const returning = new GuestRegistry(
+		numbered(loadEpisodes(reportPath)),
+	).returning();
+	if (json) {
+		printJson(
+			returning.map(({ appearances, ...profile }) => ({
+				...profile,
+				appearances: appearances.map(({ episode }) =>
+					episodeCode(episode),
+				),
+			})),
+		);
+	} else if (returning.length > 0) {
+		printReturningGuests(returning);
+	} else {
+		console.log(brand.dim('No guest has been on more than once.'));
+	}
+	return returning.length > 0 ? EXIT_CODES.ok : EXIT_CODES.notFound;
+};
+
+const sauces: Command = async ({ args, argv, json }) => {
+	const filePath = saucesPath(argv);
+	const catalog = loadSauceCatalog(filePath);
+	if (catalog.lineups.length === 0) {
+		console.error(
+			brand.error(
+				`❌ No sauce lineups yet. None ship with the repo; curate them in ${filePath} (see "Sauce lineups" in the README)`,
+			),
+		);
+		return EXIT_CODES.notFound;
+	}
+
+	const [first, ...rest] = args;
+	if (first?.toLowerCase() === 'find') {
+		const query = rest.join(' ').trim();
+		if (!query) {
+			throw new UsageError(
+				'sauces find needs a sauce or maker, e.g. "wing-scrape sauces find last dab"',
+			);
+		}
+		const appearances = findSauce(catalog, query);
+		if (json) {
+			printJson(appearances);
+		} else if (appearances.length > 0) {
+			console.log(
+				brand.highlight(
+					`🔍 "${query}" in ${
+						new Set(appearances.map(({ season }) => season)).size
+					} season(s):`,
+				),
+			);
+			appearances.forEach(({ season, sauce }) =>
+				console.log(
+					`  ${brand.success(`S${season}`.padEnd(4))} ${brand.dim(
+						`wing ${sauce.wing}`.padEnd(8),
+					)} ${brand.info(sauce.name)} ${brand.dim(
+						`(${sauce.maker}, ${formatScoville(sauce.scoville)})`,
+					)}`,
+				),
+			);
+		} else {
+			console.log(brand.dim(`No sauces match "${query}".`));
+		}
+		return appearances.length > 0 ? EXIT_CODES.ok : EXIT_CODES.notFound;
+	}
+
+	if (first === undefined) {
+		const heat = seasonHeat(catalog);
+		if (json) {
+			printJson(heat);
+		} else {
+			printSeasonHeat(heat);
+		}
+		return EXIT_CODES.ok;
+	}
+
+	const seasonNumber = Number(first);
+	if (args.length !== 1 || !Number.isInteger(seasonNumber)) {
+		throw new UsageError(
+			'sauces takes a season number, "find <sauce>", or nothing for the heat chart',
+		);
+	}
+	const lineup = findLineup(catalog, seasonNumber);
+	if (json) {
+		printJson(lineup ?? null);
+	} else if (lineup) {
+		printLineup(lineup);
+	} else {
+		console.log(brand.dim(`No lineup curated for Season ${seasonNumber}.`));
+	}
+	return lineup ? EXIT_CODES.ok : EXIT_CODES.notFound;
+};
+
+const stats: Command = async ({ json, reportPath }) => {
+	const episodes = loadEpisodes(reportPath);
+	const result = computeStats(episodes);
+	const analytics = computeAnalytics(episodes);
+	if (json) {
+		printJson({ ...result, analytics });
+	} else {
+		printStats(result);
+		printAnalytics(analytics);
+	}
+	return EXIT_CODES.ok;
+};
+
+const scrape: Command = async ({ argv, json, reportPath }) => {
+	let sources: EpisodeSource[];
+	let exportOptions: ExportOptions | undefined;
+	try {
+		sources = createEpisodeSources(parseSourceArgs(argv));
+		exportOptions = parseExportArgs(argv);
+	} catch (error) {
+		throw new UsageError(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+
+	// Scraper progress goes to stderr so --json output stays pipeable
+	const log = console.log;
+	if (json) {
+		console.log = console.error;
+	}
+
+	let scraped: HotOnesEpisode[];
+	try {
+		scraped = await fetchFromSources(sources);
+	} finally {
+		console.log = log;
+	}
+
+	if (scraped.length === 0) {
+		console.error(brand.error('⚠️  No episodes found.'));
+		return EXIT_CODES.notFound;
+	}
+
+	const { episodes, applied, unmatched } = applyOverridesFile(
+		scraped,
+		getFlagValue(argv, '--overrides') ?? DEFAULT_OVERRIDES_PATH,
+	);
+	if (unmatched.length > 0) {
+		console.error(
+			brand.error(
+				`⚠️  Overrides for unknown episodes: ${unmatched.join(', ')}`,
+			),
+		);
+	}
+
+	const issues = findNumberingIssues(episodes);
+	if (issues.length > 0) {
+		console.error(
+			brand.error(
+				`⚠️  ${issues.length} numbering problems, see "wing-scrape check"`,
+			),
+		);
+	}
+
+	// Same guard as npm run scrape: don't swap a partial page in for the report
+	const force = argv.includes('--force');
+	let previous: HotOnesEpisode[] = [];
+	if (fs.existsSync(reportPath)) {
+		try {
+			previous = loadReport(reportPath).report.episodes;
+		} catch (error) {
+			if (!force) {
+				throw error;
+			}
+		}
+	}
+	const diff = diffReports(previous, episodes);
+	if (isSuspiciousShrink(previous.length, episodes.length)) {
+		if (!force) {
+			console.error(
+				brand.error(
+					`⚠️  Scrape returned ${episodes.length} episodes but the report has ${previous.length}. ` +
+						'This looks like a partial page, so the report was NOT overwritten. ' +
+						'Re-run with --force to save it anyway.',
+				),
+			);
+			return EXIT_CODES.error;
+		}
+		console.error(
+			brand.highlight(
+				'⚠️  Episode count dropped sharply, saving anyway (--force)',
+			),
+		);
+	}
+
+	const report = createReport(episodes, sources[0].url);
+	saveReport(report, reportPath);
+	if (exportOptions) {
+		await writeExport(
+			episodes,
+			exportOptions.format,
+			exportOptions.outPath,
+		);
+	}
+
+	if (json) {
+		printJson({
+			episodes: episodes.length,
+			scraped_at: report.scraped_at,
+			source_url: report.source_url,
+			report: reportPath,
+			overrides_applied: applied,
+			numbering_issues: issues.length,
+			changes: {
+				added: diff.added.length,
+				removed: diff.removed.length,
+				changed: diff.changed.length,
+				unchanged: diff.unchanged,
+			},
+			export: exportOptions ?? null,
+		});
+	} else {
+		if (previous.length > 0) {
+			console.log(
+				brand.dim(
+					`🔄 ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed since the last scrape`,
+				),
+			);
+		}
+		console.log(
+			brand.success(
+				`💾 ${episodes.length} episodes saved to: ${reportPath}`,
+			),
+		);
+		if (exportOptions) {
+			console.log(
+				brand.success(
+					`📤 Exported as ${exportOptions.format} to: ${exportOptions.outPath}`,
+				),
+			);
+		}
+	}
+	return EXIT_CODES.ok;
+};
+
+const serve: Command = async ({ argv, reportPath }) => {
+	const port = Number(getFlagValue(argv, '--port') ?? DEFAULT_API_PORT);
+	const host = getFlagValue(argv, '--host') ?? '127.0.0.1';
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		throw new UsageError('--port needs a number between 0 and 65535');
+	}
+
+	const server = createApiServer({
+		reportPath,
+		overridesPath: getFlagValue(argv, '--overrides'),
+	});
+	await new Promise<void>((resolve, reject) => {
+		server.once('error', reject);
+		server.listen(port, host, resolve);
+	});
+	const { port: boundPort } = server.address() as AddressInfo;
+	console.log(
+		brand.success(`🌶️  API listening on http://${host}:${boundPort}`),
+	);
+	console.log(
+		brand.dim(
+			'   GET /episodes, GET /episodes/:season/:episode(/similar), GET /stats, POST /refresh',
+		),
+	);
+
+	// Serve until Ctrl+C
+	await new Promise<void>((resolve) =>
+		process.once('SIGINT', () => server.close(() => resolve())),
+	);
+	return EXIT_CODES.ok;
+};
+
+const taxonomy: Command = async ({ args, json, reportPath }) => {
+	const episodes = loadEpisodes(reportPath);
+	const term = args.join(' ').trim();
+	const entry = term ? findTaxonomyNode(term) : undefined;
+	if (term && !entry) {
+		console.error(brand.error(`❌ No profession matches "${term}"`));
+		return EXIT_CODES.notFound;
+	}
+
+	const counts = countTaxonomy(episodes, entry);
+	const results = entry ? filterEpisodes(episodes, { category: term }) : [];
+
+	if (json) {
+		printJson(
+			entry
+				? {
+						path: entry.path,
+						aliases: entry.node.aliases ?? [],
+						synonyms: entry.node.synonyms ?? [],
+						counts,
+						episodes: results,
+				  }
+				: { counts },
+		);
+		return EXIT_CODES.ok;
+	}
+
+	console.log(
+		brand.title(
+			`🏷️  ${
+				entry ? formatTaxonomyPath(entry.path) : 'Profession taxonomy'
+			}`,
+		),
+	);
+	printTaxonomy(counts);
+	if (entry && results.length > 0) {
+		printEpisodeList(
+			results,
+			`\n📺 ${entry.node.name} episodes (${results.length}):`,
+		);
+	}
+	return EXIT_CODES.ok;
+};
+
+const check: Command = async ({ json, reportPath }) => {
+	const issues = findNumberingIssues(loadEpisodes(reportPath));
+	if (json) {
+		printJson({ issues });
+	} else if (issues.length > 0) {
+		console.log(
+			brand.title(`⚠️  ${issues.length} episode numbering problems`),
+		);
+		printNumberingIssues(issues);
+	} else {
+		console.log(brand.success('✅ Every episode has a unique number'));
+	}
+	return issues.length > 0 ? EXIT_CODES.error : EXIT_CODES.ok;
+};
+
+// For reports tagged by older rules; overrides are re-applied, so pins win
+const retag: Command = async ({ argv, json, reportPath }) => {
+	const report = loadSavedReport(reportPath);
+	const { episodes, applied } = applyOverridesFile(
+		report.episodes.map((episode) => ({
+			...episode,
+			tags: categorizeProfession(episode.title, episode.description),
+		})),
+		getFlagValue(argv, '--overrides') ?? DEFAULT_OVERRIDES_PATH,
+	);
+	const changed = diffReports(report.episodes, episodes).changed.length;
+	saveReport({ ...report, episodes }, reportPath);
+
+	if (json) {
+		printJson({
+			episodes: episodes.length,
+			changed,
+			overrides_applied: applied,
+		});
+	} else {
+		console.log(
+			brand.success(
+				`🏷️  Re-tagged ${episodes.length} episodes, ${changed} changed (${applied} overrides re-applied)`,
+			),
+		);
+	}
+	return EXIT_CODES.ok;
+};
+
+const COMMANDS: Record<string, Command> = {
+	search,
+	season,
+	show,
+	random,
+	guest,
+	guests,
+	similar,
+	watch,
+	rate,
+	fav,
+	favorites,
+	unwatched,
+	sauces,
+	stats,
+	taxonomy,
+	check,
+	retag,
+	scrape,
+	serve,
+};
+
+export async function run(argv: string[]): Promise<number> {
+	const [name, ...args] = positionalArgs(argv);
+
+	try {
+		usePresentation(detectPresentation(argv));
+	} catch (error) {
+		if (error instanceof ThemeError) {
+			console.error(brand.error(`❌ ${error.message}`));
+			return EXIT_CODES.usage;
+		}
+		throw error;
+	}
+
+	if (
+		!name ||
+		name === 'help' ||
+		argv.includes('--help') ||
+		argv.includes('-h')
+	) {
+		console.log(USAGE);
+		return EXIT_CODES.ok;
+	}
+
+	const command = COMMANDS[name];
+	if (!command) {
+		console.error(brand.error(`❌ Unknown command "${name}"\n`));
+		console.error(USAGE);
+		return EXIT_CODES.usage;
+	}
+
+	try {
+		return await command({
+			args,
+			argv,
+			json: argv.includes('--json'),
+			reportPath: getFlagValue(argv, '--report') ?? DEFAULT_REPORT_PATH,
+		});
+	} catch (error) {
+		if (error instanceof UsageError) {
+			console.error(brand.error(`❌ ${error.message}`));
+			return EXIT_CODES.usage;
+		}
+		if (error instanceof ReportValidationError) {
+			console.error(brand.error('❌ The report has malformed episodes:'));
+			formatIssues(error.issues).forEach((line) =>
+				console.error(brand.dim(`   ${line}`)),
+			);
+			return EXIT_CODES.error;
+		}
+		if (
+			error instanceof OverridesError ||
+			error instanceof UserStateError ||
+			error instanceof SaucesError
+		) {
+			console.error(brand.error(`❌ ${error.message}`));
+			formatIssues(error.issues.slice(1)).forEach((line) =>
+				console.error(brand.dim(`   ${line}`)),
+			);
+			return EXIT_CODES.error;
+		}
+		console.error(
+			brand.error('❌'),
+			error instanceof Error ? error.message : error,
+		);
+		return EXIT_CODES.error;
+	}
+}
+
+if (require.main === module) {
+	run(process.argv.slice(2)).then((code) => {
+		process.exitCode = code;
+	});
+}
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	HISTORY_SIZE,
+	loadHistory,
+	saveHistory,
+	searchHistory,
+} from './command-history';
+
+describe('loadHistory and saveHistory', () => {
+	let directory: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(
+			path.join(os.tmpdir(), 'wing-scrape-history-'),
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('treats a missing file as no history', () => {
+		expect(loadHistory(path.join(directory, 'none.txt'))).toEqual([]);
+	});
+
+	it('stores oldest first and loads newest first', () => {
+		const filePath = path.join(directory, 'history.txt');
+		saveHistory(['season 2', 'search conan'], filePath);
+
+		expect(fs.readFileSync(filePath, 'utf-8')).toBe(
+			'search conan\nseason 2\n',
+		);
+		expect(loadHistory(filePath)).toEqual(['season 2', 'search conan']);
+	});
+
+	it('keeps only the newest commands', () => {
+		const filePath = path.join(directory, 'history.txt');
+		const history = Array.from(
+			{ length: HISTORY_SIZE + 5 },
+			(_, index) => `show #${index}`,
+		);
+		saveHistory(history, filePath);
+
+		const loaded = loadHistory(filePath);
+		expect(loaded).toHaveLength(HISTORY_SIZE);
+		expect(loaded[0]).toBe('show #0');
+	});
+});
+
+describe('searchHistory', () => {
+	const history = ['search conan', 'season 2', 'show conan', 'search conan'];
+
+	it('finds the newest match, then older ones', () => {
+		expect(searchHistory(history, 'CONAN')).toBe('search conan');
+		expect(searchHistory(history, 'conan', 1)).toBe('show conan');
+		// Past the oldest match it stays there
+		expect(searchHistory(history, 'conan', 5)).toBe('show conan');
+		expect(searchHistory(history, 'kevin')).toBeUndefined();
+	});
+});
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+
+export const DEFAULT_HISTORY_PATH = path.join(
+	process.cwd(),
+	'hot-ones-history.txt',
+);
+
+export const HISTORY_SIZE = 500;
+
+// The file is oldest first, one command a line; readline wants newest first
+export function loadHistory(filePath = DEFAULT_HISTORY_PATH): string[] {
+	if (!fs.existsSync(filePath)) {
+		return [];
+	}
+	return fs
+		.readFileSync(filePath, 'utf-8')
+		.split('\n')
+		.filter((line) => line.trim() !== '')
+		.reverse()
+		.slice(0, HISTORY_SIZE);
+}
+
+export function saveHistory(
+	history: string[],
+	filePath = DEFAULT_HISTORY_PATH,
+): void {
+	const lines = history.slice(0, HISTORY_SIZE).reverse();
+	fs.writeFileSync(filePath, lines.map((line) => `${line}\n`).join(''));
+}
+
+// The newest command containing the query, skipping `skip` older matches
+export function searchHistory(
+	history: string[],
+	query: string,
+	skip = 0,
+): string | undefined {
+	const wanted = query.toLowerCase();
+	const matches = [...new Set(history)].filter((line) =>
+		line.toLowerCase().includes(wanted),
+	);
+	return matches[Math.min(skip, matches.length - 1)];
+}
+
+// Ctrl-R reverse search for a readline prompt. While searching, the line
+// being edited is the query and the prompt shows the match; Enter runs the
+// match, arrows keep it for editing and Esc (or Ctrl-G) goes back.
+export function attachReverseSearch(
+	rl: readline.Interface,
+	input: NodeJS.ReadStream,
+	history: () => string[],
+	label: (match: string | undefined) => string,
+): void {
+	let searching = false;
+	let skip = 0;
+	let prompt = '';
+	let original = '';
+
+	const replaceLine = (text: string) => {
+		rl.write(null, { ctrl: true, name: 'e' });
+		rl.write(null, { ctrl: true, name: 'u' });
+		rl.write(text);
+	};
+
+	const match = () => searchHistory(history(), rl.line, skip);
+
+	const show = () => {
+		rl.setPrompt(label(match()));
+		rl.prompt(true);
+	};
+
+	const finish = (line: string) => {
+		searching = false;
+		rl.setPrompt(prompt);
+		replaceLine(line);
+	};
+
+	// Runs before readline's own handler, so Enter sees the query, not the match
+	input.prependListener(
+		'keypress',
+		(_text: string | undefined, key?: readline.Key) => {
+			if (key?.ctrl && key.name === 'r') {
+				if (!searching) {
+					searching = true;
+					skip = 0;
+					prompt = rl.getPrompt();
+					original = rl.line;
+					replaceLine('');
+				} else {
+					skip++;
+				}
+				show();
+				return;
+			}
+			if (!searching) {
+				return;
+			}
+
+			switch (key?.name) {
+				case 'return':
+				case 'enter':
+				case 'left':
+				case 'right':
+				case 'up':
+				case 'down':
+				case 'tab':
+					finish(match() ?? rl.line);
+					return;
+				case 'escape':
+					finish(original);
+					rl.prompt(true);
+					return;
+				case 'g':
+					if (key.ctrl) {
+						finish(original);
+						rl.prompt(true);
+						return;
+					}
+			}
+			// Readline edits the query after this handler; show its match then
+			skip = 0;
+			setImmediate(() => searching && show());
+		},
+	);
+}
@@ -0,0 +1,48 @@
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+	it('keeps results in input order', async () => {
+		const results = await mapWithConcurrency(
+			[30, 10, 20],
+			async (ms, index) => {
+				await new Promise((resolve) => setTimeout(resolve, ms));
+				return index;
+			},
+			{ concurrency: 3, delayMs: 0 },
+		);
+
+		expect(results).toEqual([0, 1, 2]);
+	});
+
+	it('never runs more than `concurrency` tasks at once', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+
+		await mapWithConcurrency(
+			Array.from({ length: 10 }, (_, i) => i),
+			async () => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				inFlight--;
+			},
+			{ concurrency: 2, delayMs: 0 },
+		);
+
+		expect(maxInFlight).toBe(2);
+	});
+
+	it('spaces task starts by delayMs', async () => {
+		const startTimes: number[] = [];
+
+		await mapWithConcurrency(
+			[1, 2, 3],
+			async () => {
+				startTimes.push(Date.now());
+			},
+			{ concurrency: 3, delayMs: 40 },
+		);
+
+		expect(startTimes[2] - startTimes[0]).toBeGreaterThanOrEqual(75);
+	});
+});
@@ -0,0 +1,40 @@
+export interface ConcurrencyOptions {
+	// Maximum number of tasks in flight at once
+	concurrency: number;
+	// Minimum gap between two task starts, across all workers
+	delayMs: number;
+}
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	task: (item: T, index: number) => Promise<R>,
+	{ concurrency, delayMs }: ConcurrencyOptions,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let nextIndex = 0;
+	let nextStartAt = 0;
+
+	const worker = async () => {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+
+			// Reserve a start slot so workers stay spaced by delayMs
+			const startAt = Math.max(Date.now(), nextStartAt);
+			nextStartAt = startAt + delayMs;
+			const wait = startAt - Date.now();
+			if (wait > 0) {
+				await sleep(wait);
+			}
+
+			results[index] = await task(items[index], index);
+		}
+	};
+
+	const workerCount = Math.max(1, Math.min(concurrency, items.length));
+	await Promise.all(Array.from({ length: workerCount }, worker));
+
+	return results;
+}
@@ -0,0 +1,169 @@
+import {
+	discoverEpisodes,
+	DiscoveryError,
+	parseDiscoveryArgs,
+	sampleWithoutReplacement,
+	seededRandom,
+} from './discovery';
+import { numberEpisodes } from './episode-numbering';
+import { HotOnesEpisode } from './types';
+import { emptyUserState, markWatched } from './user-state';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	season_number: number,
+	episode_number: number,
+	title: string,
+	description: string,
+	category: string,
+	sub_categories: string[] = [],
+): HotOnesEpisode =>
+	makeEpisode({
+		season_number,
+		episode_number,
+		title,
+		air_date: `${2015 + season_number}-06-01`,
+		description,
+		tags: [tag(category, ...sub_categories)],
+	});
+
+const episodes = numberEpisodes([
+	episode(1, 1, 'Tony Yayo', 'Talks rap battles and touring', 'Music', [
+		'Rapper',
+	]),
+	episode(2, 1, 'Pusha T', 'Talks rap beefs and touring', 'Music', [
+		'Rapper',
+	]),
+	episode(3, 1, 'Billie Eilish', 'Talks touring and songwriting', 'Music', [
+		'Singer',
+	]),
+	episode(4, 1, 'Shaq', 'Talks dunks and fast food', 'Sports', [
+		'Basketball Player',
+	]),
+	episode(5, 1, 'Kristen Bell', 'Talks voice acting and cookies', 'Film'),
+]);
+
+const titles = (picks: { episode: HotOnesEpisode }[]) =>
+	picks.map(({ episode }) => episode.title);
+
+describe('parseDiscoveryArgs', () => {
+	it('reads counts, ranges, qualifiers and keywords', () => {
+		expect(
+			parseDiscoveryArgs([
+				'3',
+				'season:5-3',
+				'year:2019',
+				'category:"tv host"',
+				'unwatched',
+				'fav',
+				'seed:wings',
+				'like:S22E5',
+				'Rap',
+			]),
+		).toEqual({
+			count: 3,
+			seasons: { from: 3, to: 5 },
+			years: { from: 2019, to: 2019 },
+			category: 'tv host',
+			unwatched: true,
+			favorites: true,
+			seed: 'wings',
+			similarTo: 'S22E5',
+			keywords: ['rap'],
+		});
+		expect(parseDiscoveryArgs([])).toEqual({ count: 1 });
+	});
+
+	it('rejects values it cannot use', () => {
+		expect(() => parseDiscoveryArgs(['season:last'])).toThrow(
+			DiscoveryError,
+		);
+		expect(() => parseDiscoveryArgs(['0'])).toThrow(DiscoveryError);
+		expect(() => parseDiscoveryArgs(['like:'])).toThrow(DiscoveryError);
+	});
+});
+
+describe('sampleWithoutReplacement', () => {
+	it('never repeats an item and stops when the pool runs out', () => {
+		const picks = sampleWithoutReplacement(
+			[1, 2, 3, 4],
+			10,
+			seededRandom('x'),
+		);
+
+		expect([...picks].sort()).toEqual([1, 2, 3, 4]);
+	});
+
+	it('follows the weights and skips zero-weight items', () => {
+		const weights: Record<string, number> = { a: 0, b: 1, c: 1000 };
+		const picks = sampleWithoutReplacement(
+			['a', 'b', 'c'],
+			2,
+			() => 0.5,
+			(item) => weights[item],
+		);
+
+		expect(picks).toEqual(['c', 'b']);
+	});
+});
+
+it('repeats the same random sequence for the same seed', () => {
+	const first = seededRandom('wings');
+	const second = seededRandom('wings');
+	const sequence = [first(), first(), first()];
+
+	expect([second(), second(), second()]).toEqual(sequence);
+	expect(seededRandom('sauce')()).not.toBe(sequence[0]);
+	sequence.forEach((value) => {
+		expect(value).toBeGreaterThanOrEqual(0);
+		expect(value).toBeLessThan(1);
+	});
+});
+
+describe('discoverEpisodes', () => {
+	it('filters before picking and reports the seed it used', () => {
+		const state = markWatched(emptyUserState(), episodes[0]);
+		const result = discoverEpisodes(episodes, state, {
+			count: 10,
+			seasons: { from: 1, to: 3 },
+			unwatched: true,
+		});
+
+		expect(result.candidates).toBe(2);
+		expect(titles(result.picks).sort()).toEqual([
+			'Billie Eilish',
+			'Pusha T',
+		]);
+		expect(result.seed).toMatch(/^[a-z0-9]+$/);
+	});
+
+	it('gives the same picks for the same seed', () => {
+		const options = { count: 3, seed: 'wings' };
+
+		expect(
+			titles(discoverEpisodes(episodes, emptyUserState(), options).picks),
+		).toEqual(
+			titles(discoverEpisodes(episodes, emptyUserState(), options).picks),
+		);
+	});
+
+	it('only suggests related episodes for like:', () => {
+		const result = discoverEpisodes(episodes, emptyUserState(), {
+			count: 5,
+			similarTo: 'S1E1',
+		});
+
+		expect(result.similarTo?.episode.title).toBe('Tony Yayo');
+		expect(titles(result.picks).sort()).toEqual([
+			'Billie Eilish',
+			'Pusha T',
+		]);
+		expect(result.picks[0].similarity?.score).toBeGreaterThan(0);
+		expect(() =>
+			discoverEpisodes(episodes, emptyUserState(), {
+				count: 1,
+				similarTo: 'nobody',
+			}),
+		).toThrow('No episode matches "nobody"');
+	});
+});
@@ -0,0 +1,242 @@
+import { HotOnesEpisode } from './types';
+import {
+	filterEpisodes,
+	NumberedEpisode,
+	resolveEpisode,
+} from './episode-queries';
+import { episodeCode } from './episode-numbering';
+import { SimilarEpisode, SimilarityIndex } from './similarity';
+import { isFavorite, isWatched, UserState } from './user-state';
+
+// What "random" accepts, e.g. "3 season:3-5 category:comedy seed:wings"
+export interface DiscoveryOptions {
+	seasons?: { from: number; to: number };
+	years?: { from: number; to: number };
+	category?: string;
+	// Every word must appear in a guest, the title or the description
+	keywords?: string[];
+	unwatched?: boolean;
+	favorites?: boolean;
+	// Picks to return, never repeating an episode
+	count: number;
+	// Same seed and filters, same picks
+	seed?: string;
+	// An episode reference; picks lean towards episodes like it
+	similarTo?: string;
+}
+
+export interface DiscoveryPick extends NumberedEpisode {
+	// Only set for "like:" picks
+	similarity?: Omit<SimilarEpisode, keyof NumberedEpisode>;
+}
+
+export interface DiscoveryResult {
+	picks: DiscoveryPick[];
+	// How many episodes passed the filters
+	candidates: number;
+	seed: string;
+	similarTo?: NumberedEpisode;
+}
+
+export class DiscoveryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'DiscoveryError';
+	}
+}
+
+const parseRange = (value: string, name: string) => {
+	const match = value.match(/^(\d+)(?:-(\d+))?$/);
+	if (!match) {
+		throw new DiscoveryError(
+			`${name}: needs a number or a range, e.g. ${name}:3 or ${name}:3-5`,
+		);
+	}
+	const from = parseInt(match[1], 10);
+	const to = match[2] ? parseInt(match[2], 10) : from;
+	return { from: Math.min(from, to), to: Math.max(from, to) };
+};
+
+export function parseDiscoveryArgs(args: string[]): DiscoveryOptions {
+	const options: DiscoveryOptions = { count: 1 };
+	const keywords: string[] = [];
+
+	// Quoted values may span words: category:"tv host"
+	const tokens = args.join(' ').match(/\S+?:"[^"]*"|\S+/g) ?? [];
+	tokens.forEach((token) => {
+		const qualifier = token.match(/^([a-z]+):(.*)$/i);
+		const value = qualifier?.[2].replace(/"/g, '').trim() ?? '';
+		switch (qualifier?.[1].toLowerCase()) {
+			case 'season':
+				options.seasons = parseRange(value, 'season');
+				return;
+			case 'year':
+				options.years = parseRange(value, 'year');
+				return;
+			case 'category':
+				options.category = value;
+				return;
+			case 'seed':
+				options.seed = value;
+				return;
+			case 'like':
+			case 'similar':
+				options.similarTo = value;
+				return;
+			case 'count':
+				options.count = parseRange(value, 'count').from;
+				return;
+		}
+
+		const lower = token.toLowerCase();
+		if (lower === 'unwatched') {
+			options.unwatched = true;
+		} else if (lower === 'favorites' || lower === 'fav') {
+			options.favorites = true;
+		} else if (/^\d+$/.test(token)) {
+			// A bare number is how many picks to make
+			options.count = parseInt(token, 10);
+		} else {
+			keywords.push(lower);
+		}
+	});
+
+	if (options.count < 1) {
+		throw new DiscoveryError('Ask for at least one pick');
+	}
+	if (keywords.length > 0) {
+		options.keywords = keywords;
+	}
+	if (
+		[options.seed, options.similarTo, options.category].some(
+			(value) => value === '',
+		)
+	) {
+		throw new DiscoveryError(
+			'seed:, like: and category: need a value, e.g. like:S22E5',
+		);
+	}
+	return options;
+}
+
+// FNV-1a into mulberry32: tiny, fast and the same on every platform
+export function seededRandom(seed: string): () => number {
+	let state = 2166136261;
+	for (const char of seed) {
+		state = Math.imul(state ^ char.charCodeAt(0), 16777619) >>> 0;
+	}
+
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+// Weighted draws without replacement; zero-weight items are never picked
+export function sampleWithoutReplacement<T>(
+	items: T[],
+	count: number,
+	random: () => number,
+	weight: (item: T) => number = () => 1,
+): T[] {
+	const pool = items
+		.map((item) => ({ item, weight: weight(item) }))
+		.filter((entry) => entry.weight > 0);
+	const picks: T[] = [];
+
+	while (picks.length < count && pool.length > 0) {
+		const total = pool.reduce((sum, entry) => sum + entry.weight, 0);
+		let target = random() * total;
+		let index = pool.findIndex((entry) => (target -= entry.weight) < 0);
+		// Float rounding can leave a sliver at the very end
+		if (index === -1) {
+			index = pool.length - 1;
+		}
+		picks.push(pool[index].item);
+		pool.splice(index, 1);
+	}
+	return picks;
+}
+
+export function discoveryCandidates(
+	episodes: HotOnesEpisode[],
+	state: UserState,
+	options: DiscoveryOptions,
+): NumberedEpisode[] {
+	const { seasons, years, keywords = [] } = options;
+	return filterEpisodes(episodes, {
+		category: options.category,
+		...(years && { from: `${years.from}-01-01`, to: `${years.to}-12-31` }),
+	}).filter(
+		({ episode }) =>
+			(!seasons ||
+				(episode.season_number >= seasons.from &&
+					episode.season_number <= seasons.to)) &&
+			keywords.every(
+				(keyword) =>
+					filterEpisodes([episode], { query: keyword }).length > 0,
+			) &&
+			(!options.unwatched || !isWatched(state, episode)) &&
+			(!options.favorites || isFavorite(state, episode)),
+	);
+}
+
+// A short seed anyone can type back in to repeat a pick
+const newSeed = () => Math.random().toString(36).slice(2, 8);
+
+export function discoverEpisodes(
+	episodes: HotOnesEpisode[],
+	state: UserState,
+	options: DiscoveryOptions,
+): DiscoveryResult {
+	const seed = options.seed ?? newSeed();
+	const random = seededRandom(seed);
+	const candidates = discoveryCandidates(episodes, state, options);
+
+	if (!options.similarTo) {
+		return {
+			picks: sampleWithoutReplacement(candidates, options.count, random),
+			candidates: candidates.length,
+			seed,
+		};
+	}
+
+	const matches = resolveEpisode(episodes, options.similarTo);
+	if (matches.length !== 1) {
+		throw new DiscoveryError(
+			matches.length === 0
+				? `No episode matches "${options.similarTo}"`
+				: `"${options.similarTo}" matches ${
+						matches.length
+				  } episodes, use a code: ${matches
+						.slice(0, 5)
+						.map(({ episode }) => episodeCode(episode))
+						.join(', ')}`,
+		);
+	}
+
+	// Closer matches are likelier picks, but any related episode can come up
+	const similar = new SimilarityIndex(episodes).similarTo(
+		matches[0].episode,
+		{ among: candidates },
+	);
+	const picks = sampleWithoutReplacement(
+		similar,
+		options.count,
+		random,
+		({ score }) => score,
+	);
+	return {
+		picks: picks.map(({ number, episode, ...similarity }) => ({
+			number,
+			episode,
+			similarity,
+		})),
+		candidates: similar.length,
+		seed,
+		similarTo: matches[0],
+	};
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { mergeEpisodeDetails, parseEpisodeDetails } from './episode-details';
+import { HotOnesEpisode } from './types';
+
+const readFixture = (name: string) =>
+	fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+const EPISODE_URL = 'https://thetvdb.com/series/hot-ones/episodes/10203472';
+
+const listingEpisode: HotOnesEpisode = {
+	season_number: 23,
+	episode_number: 12,
+	title: "Conan O'Brien Needs a Doctor While Eating Spicy Wings",
+	guests: ["Conan O'Brien"],
+	topics: [],
+	air_date: '2024-01-25',
+	description:
+		"Conan O'Brien is a comedian, writer, and the host of the podcast",
+	tags: [{ category: 'Comedy', sub_categories: ['Stand-up Comedian'] }],
+};
+
+describe('parseEpisodeDetails', () => {
+	it('extracts overview, runtime, credits and external IDs', () => {
+		const details = parseEpisodeDetails(
+			readFixture('thetvdb-episode.html'),
+			EPISODE_URL,
+		);
+
+		expect(details.tvdb_id).toBe(10203472);
+		expect(details.tvdb_url).toBe(EPISODE_URL);
+		expect(details.overview).toMatch(
+			/^Conan O'Brien is a comedian, writer, and the host of the podcast Conan O'Brien Needs a Friend\./,
+		);
+		expect(details.overview).toMatch(/and much more\.$/);
+		expect(details.runtime_minutes).toBe(31);
+		expect(details.guest_stars).toEqual(["Conan O'Brien"]);
+		expect(details.imdb_id).toBe('tt31225123');
+		expect(details.youtube_id).toBe('kdhTSpFmUvk');
+	});
+
+	it('returns nulls when the page lacks optional sections', () => {
+		const details = parseEpisodeDetails(
+			readFixture('thetvdb-episode-minimal.html'),
+			'https://thetvdb.com/series/hot-ones/episodes/10533990',
+		);
+
+		expect(details.overview).toBe('Sean Evans reveals the lineup.');
+		expect(details.runtime_minutes).toBeNull();
+		expect(details.guest_stars).toEqual([]);
+		expect(details.imdb_id).toBeNull();
+		expect(details.youtube_id).toBeNull();
+	});
+});
+
+describe('mergeEpisodeDetails', () => {
+	it('prefers the full overview over the truncated listing description', () => {
+		const details = parseEpisodeDetails(
+			readFixture('thetvdb-episode.html'),
+			EPISODE_URL,
+		);
+		const merged = mergeEpisodeDetails(listingEpisode, details);
+
+		expect(merged.description).toBe(details.overview);
+		expect(merged.season_number).toBe(23);
+		expect(merged.guests).toEqual(["Conan O'Brien"]);
+		expect(merged.runtime_minutes).toBe(31);
+	});
+
+	it('falls back to guest-star credits when the title yields no guests', () => {
+		const details = parseEpisodeDetails(
+			readFixture('thetvdb-episode.html'),
+			EPISODE_URL,
+		);
+		const merged = mergeEpisodeDetails(
+			{ ...listingEpisode, guests: [] },
+			details,
+		);
+
+		expect(merged.guests).toEqual(["Conan O'Brien"]);
+	});
+});
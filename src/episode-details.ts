@@ -0,0 +1,115 @@
+import { JSDOM } from 'jsdom';
+import { EpisodeDetails, HotOnesEpisode, HotOnesEpisodeDetails } from './types';
+
+export function parseEpisodeDetails(html: string, url: string): EpisodeDetails {
+	const document = new JSDOM(html, { url }).window.document;
+
+	return {
+		tvdb_id: extractTvdbId(url),
+		tvdb_url: url,
+		overview: extractOverview(document),
+		runtime_minutes: extractRuntime(document),
+		guest_stars: extractGuestStars(document),
+		imdb_id: extractImdbId(document),
+		youtube_id: extractYouTubeId(document),
+	};
+}
+
+export function mergeEpisodeDetails(
+	episode: HotOnesEpisode,
+	details: EpisodeDetails,
+): HotOnesEpisodeDetails {
+	return {
+		...episode,
+		// The listing page truncates descriptions, so prefer the full overview
+		description:
+			details.overview.length > episode.description.length
+				? details.overview
+				: episode.description,
+		guests:
+			episode.guests.length > 0 ? episode.guests : details.guest_stars,
+		...details,
+	};
+}
+
+function extractTvdbId(url: string): number | null {
+	const match = url.match(/\/episodes\/(\d+)/);
+	return match ? parseInt(match[1], 10) : null;
+}
+
+function extractOverview(document: Document): string {
+	// English translation first, then whichever overview block is present
+	const overviewElement =
+		document.querySelector(
+			'#translations [data-language="eng"] p, .change_translation_text[data-language="eng"] p',
+		) ?? document.querySelector('.change_translation_text p');
+
+	return overviewElement?.textContent?.replace(/\s+/g, ' ').trim() || '';
+}
+
+function extractRuntime(document: Document): number | null {
+	for (const item of document.querySelectorAll('li')) {
+		const label = item.querySelector('strong')?.textContent?.trim() || '';
+		if (!/^runtime$/i.test(label)) {
+			continue;
+		}
+
+		const match = item.textContent?.match(/(\d+)\s*min/i);
+		if (match) {
+			return parseInt(match[1], 10);
+		}
+	}
+	return null;
+}
+
+function extractGuestStars(document: Document): string[] {
+	const guestStars: string[] = [];
+
+	for (const heading of document.querySelectorAll('h2, h3')) {
+		if (!/guest stars?/i.test(heading.textContent || '')) {
+			continue;
+		}
+
+		// Credits are listed in the block following the "Guest Stars" heading
+		const section = heading.nextElementSibling;
+		const people = section?.querySelectorAll('a[href*="/people/"]') ?? [];
+		for (const person of people) {
+			const name =
+				person.querySelector('h3, .name')?.textContent?.trim() ||
+				person.textContent?.replace(/\s+/g, ' ').trim() ||
+				'';
+			if (name && !guestStars.includes(name)) {
+				guestStars.push(name);
+			}
+		}
+	}
+
+	return guestStars;
+}
+
+function extractImdbId(document: Document): string | null {
+	for (const link of document.querySelectorAll('a[href*="imdb.com"]')) {
+		const match = link.getAttribute('href')?.match(/\/title\/(tt\d+)/);
+		if (match) {
+			return match[1];
+		}
+	}
+	return null;
+}
+
+function extractYouTubeId(document: Document): string | null {
+	const links = document.querySelectorAll(
+		'a[href*="youtube.com"], a[href*="youtu.be"]',
+	);
+	for (const link of links) {
+		const href = link.getAttribute('href') || '';
+		const match =
+			href.match(/[?&]v=([\w-]{11})/) ||
+			href.match(/youtu\.be\/([\w-]{11})/) ||
+			href.match(/\/embed\/([\w-]{11})/);
+		if (match) {
+			return match[1];
+		}
+	}
+	return null;
+}
@@ -0,0 +1,148 @@
+import {
+	describeEpisodeNumber,
+	findNumberingIssues,
+	isSpecial,
+	numberEpisodes,
+} from './episode-numbering';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	season_number: number,
+	episode_number: number,
+	title: string,
+	extra: Partial<HotOnesEpisode> = {},
+): HotOnesEpisode =>
+	makeEpisode({
+		season_number,
+		episode_number,
+		title,
+		tags: [tag('Other', 'Unknown')],
+		...extra,
+	});
+
+describe('isSpecial', () => {
+	it('trusts the scraped flag, and falls back to zeros for older reports', () => {
+		expect(isSpecial(episode(0, 3, 'Lineup Reveal'))).toBe(true);
+		expect(isSpecial(episode(23, 0, 'Zack Fox vs. Thundercat'))).toBe(true);
+		expect(
+			isSpecial(episode(23, 0, 'Unlabelled', { is_special: false })),
+		).toBe(false);
+	});
+});
+
+describe('numberEpisodes', () => {
+	it('numbers regular episodes in broadcast order and skips specials', () => {
+		const numbered = numberEpisodes([
+			episode(2, 1, 'Second season'),
+			episode(1, 2, 'Rizzo'),
+			episode(1, 0, 'Truth or Dab'),
+			episode(1, 1, 'Yayo'),
+		]);
+
+		expect(
+			numbered.map(({ title, is_special, absolute_number }) => [
+				title,
+				is_special,
+				absolute_number,
+			]),
+		).toEqual([
+			['Second season', false, 3],
+			['Rizzo', false, 2],
+			['Truth or Dab', true, undefined],
+			['Yayo', false, 1],
+		]);
+	});
+
+	it('follows air dates, placing undated episodes after the one before them', () => {
+		const numbered = numberEpisodes([
+			episode(1, 1, 'Yayo', { air_date: '2015-03-12' }),
+			episode(1, 0, "World's Hottest Chip Challenge", {
+				is_special: false,
+				air_date: '2015-06-01',
+			}),
+			episode(1, 2, 'Rizzo', { air_date: '2015-05-12' }),
+			episode(1, 3, 'Undated'),
+			episode(2, 1, 'Second season', { air_date: '2015-05-12' }),
+		]);
+
+		expect(
+			numbered.map(({ title, absolute_number }) => [
+				title,
+				absolute_number,
+			]),
+		).toEqual([
+			['Yayo', 1],
+			["World's Hottest Chip Challenge", 5],
+			['Rizzo', 2],
+			['Undated', 3],
+			['Second season', 4],
+		]);
+	});
+
+	it('renumbers from scratch when episodes change', () => {
+		const [renumbered] = numberEpisodes([
+			episode(1, 1, 'Yayo', { absolute_number: 40 }),
+		]);
+
+		expect(renumbered.absolute_number).toBe(1);
+	});
+});
+
+describe('describeEpisodeNumber', () => {
+	it('shows the overall number, or which special it is', () => {
+		const [regular, special, unnumbered] = numberEpisodes([
+			episode(1, 2, 'Rizzo'),
+			episode(23, 0, 'Zack Fox vs. Thundercat', { special_number: 14 }),
+			episode(4, 0, 'A Very Spicy Holiday Special'),
+		]);
+
+		expect(describeEpisodeNumber(regular)).toBe('2 (#1 overall)');
+		expect(describeEpisodeNumber(special)).toBe('Special 0x14');
+		expect(describeEpisodeNumber(unnumbered)).toBe('Special');
+	});
+});
+
+describe('findNumberingIssues', () => {
+	it('reports zero and colliding identifiers', () => {
+		const issues = findNumberingIssues([
+			episode(0, 4, 'Mystery header', { is_special: false }),
+			episode(3, 0, 'No label', { is_special: false }),
+			episode(5, 7, 'Ice-T'),
+			episode(5, 7, 'Eric André'),
+		]);
+
+		expect(issues.map(({ kind, code }) => [kind, code])).toEqual([
+			['missing-season', 'S0E4'],
+			['missing-episode', 'S3E0'],
+			['duplicate-number', 'S5E7'],
+		]);
+		expect(issues[2].titles).toEqual(['Ice-T', 'Eric André']);
+	});
+
+	it('finds the same episode listed in two seasons', () => {
+		const issues = findNumberingIssues([
+			episode(2, 0, 'The Hot Ones Holiday Special'),
+			episode(7, 0, 'The Hot Ones Holiday Special!'),
+			episode(7, 1, 'Something else'),
+		]);
+
+		expect(issues).toEqual([
+			{
+				kind: 'duplicate-title',
+				code: 'S2E0, S7E0',
+				titles: ['The Hot Ones Holiday Special'],
+				message: 'listed 2 times',
+			},
+		]);
+	});
+
+	it('leaves specials sharing episode 0 alone', () => {
+		expect(
+			findNumberingIssues([
+				episode(4, 0, 'Lineup Reveal'),
+				episode(4, 0, 'How to Eat a Chicken Wing'),
+			]),
+		).toEqual([]);
+	});
+});
@@ -0,0 +1,144 @@
+import { HotOnesEpisode } from './types';
+
+export type NumberingIssueKind =
+	| 'missing-season'
+	| 'missing-episode'
+	| 'duplicate-number'
+	| 'duplicate-title';
+
+// Something about an episode's identifiers that would make it hard to address
+export interface NumberingIssue {
+	kind: NumberingIssueKind;
+	// "S3E0", or the shared code/title for duplicates
+	code: string;
+	titles: string[];
+	message: string;
+}
+
+const normalizeTitle = (title: string) =>
+	title.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Reports scraped before specials were modelled stored them as episode 0
+export const isSpecial = (episode: HotOnesEpisode) =>
+	episode.is_special ??
+	(episode.season_number === 0 || episode.episode_number === 0);
+
+const bySeasonAndEpisode = (a: HotOnesEpisode, b: HotOnesEpisode) =>
+	a.season_number - b.season_number || a.episode_number - b.episode_number;
+
+// Marks specials and numbers regular episodes 1..n in air order, keeping the
+// array order; specials get no absolute number. Episodes without an air date
+// count as airing with the dated one before them in season/episode order.
+export function numberEpisodes(episodes: HotOnesEpisode[]): HotOnesEpisode[] {
+	let lastAirDate = '';
+	const regular = episodes
+		.map((episode, index) => ({ episode, index }))
+		.filter(({ episode }) => !isSpecial(episode))
+		.sort(
+			(a, b) =>
+				bySeasonAndEpisode(a.episode, b.episode) || a.index - b.index,
+		)
+		.map((entry) => {
+			lastAirDate = entry.episode.air_date || lastAirDate;
+			return { ...entry, airDate: lastAirDate };
+		})
+		// Stable, so equal dates keep season/episode order
+		.sort((a, b) => a.airDate.localeCompare(b.airDate));
+	const absolute = new Map(
+		regular.map(({ index }, position) => [index, position + 1]),
+	);
+
+	return episodes.map((episode, index) => {
+		const { absolute_number: _previous, ...rest } = episode;
+		const number = absolute.get(index);
+		return {
+			...rest,
+			is_special: number === undefined,
+			...(number !== undefined && { absolute_number: number }),
+		};
+	});
+}
+
+// The stable way to refer to an episode: "S22E5", or "S0E14" for a special
+// with a Season 0 number (older specials fall back to "S4E0")
+export function episodeCode(episode: HotOnesEpisode): string {
+	return isSpecial(episode) && episode.special_number !== undefined
+		? `S0E${episode.special_number}`
+		: `S${episode.season_number}E${episode.episode_number}`;
+}
+
+// "12 (#433 overall)", "Special 0x14" or just "Special"
+export function describeEpisodeNumber(episode: HotOnesEpisode): string {
+	if (isSpecial(episode)) {
+		return episode.special_number !== undefined
+			? `Special 0x${episode.special_number}`
+			: 'Special';
+	}
+	return episode.absolute_number !== undefined
+		? `${episode.episode_number} (#${episode.absolute_number} overall)`
+		: `${episode.episode_number}`;
+}
+
+function groupBy(
+	episodes: HotOnesEpisode[],
+	key: (episode: HotOnesEpisode) => string,
+): HotOnesEpisode[][] {
+	const groups = new Map<string, HotOnesEpisode[]>();
+	episodes.forEach((episode) => {
+		const group = groups.get(key(episode)) ?? [];
+		group.push(episode);
+		groups.set(key(episode), group);
+	});
+	return [...groups.values()].filter((group) => group.length > 1);
+}
+
+export function findNumberingIssues(
+	episodes: HotOnesEpisode[],
+): NumberingIssue[] {
+	const regular = episodes.filter((episode) => !isSpecial(episode));
+	const issues: NumberingIssue[] = [];
+
+	regular.forEach((episode) => {
+		if (episode.season_number === 0) {
+			issues.push({
+				kind: 'missing-season',
+				code: episodeCode(episode),
+				titles: [episode.title],
+				message: 'season header was not recognised',
+			});
+		}
+		if (episode.episode_number === 0) {
+			issues.push({
+				kind: 'missing-episode',
+				code: episodeCode(episode),
+				titles: [episode.title],
+				message: 'no episode label, and not marked as a special',
+			});
+		}
+	});
+
+	groupBy(
+		regular.filter((episode) => episode.episode_number > 0),
+		episodeCode,
+	).forEach((group) =>
+		issues.push({
+			kind: 'duplicate-number',
+			code: episodeCode(group[0]),
+			titles: group.map((episode) => episode.title),
+			message: `${group.length} episodes share this number`,
+		}),
+	);
+
+	// The same episode listed twice, usually in two different seasons
+	groupBy(episodes, (episode) => normalizeTitle(episode.title)).forEach(
+		(group) =>
+			issues.push({
+				kind: 'duplicate-title',
+				code: group.map(episodeCode).join(', '),
+				titles: [group[0].title],
+				message: `listed ${group.length} times`,
+			}),
+	);
+
+	return issues;
+}
@@ -0,0 +1,117 @@
+import {
+	computeStats,
+	getEpisode,
+	listSeason,
+	filterEpisodes,
+	paginate,
+	pickRandomEpisode,
+	resolveEpisode,
+} from './episode-queries';
+import { episodeCode, numberEpisodes } from './episode-numbering';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	season_number: number,
+	title: string,
+	guests: string[],
+	category = 'Music',
+): HotOnesEpisode =>
+	makeEpisode({ season_number, title, guests, tags: [tag(category)] });
+
+const episodes = [
+	episode(1, 'Tony Yayo Talks Shmoney Dance', ['Tony Yayo']),
+	episode(1, 'Key & Peele Lose Their Minds', ['Key', 'Peele'], 'Comedy'),
+	episode(2, "Conan O'Brien Needs a Doctor", ["Conan O'Brien"], 'Comedy'),
+	episode(3, "Conan O'Brien Returns", ["Conan O'Brien"], 'Comedy'),
+];
+
+it('numbers episodes by report position', () => {
+	expect(getEpisode(episodes, 3)?.title).toMatch(/^Conan/);
+	expect(getEpisode(episodes, 0)).toBeUndefined();
+	expect(getEpisode(episodes, 5)).toBeUndefined();
+});
+
+describe('resolveEpisode', () => {
+	const numbered = numberEpisodes([
+		{ ...episode(2, 'Truth or Dab', []), episode_number: 0 },
+		{
+			...episode(2, 'Zack Fox vs. Thundercat', []),
+			episode_number: 0,
+			special_number: 14,
+		},
+		{
+			...episode(1, 'Beyoncé Knowles Bakes', ['Beyoncé']),
+			episode_number: 2,
+		},
+		...episodes,
+	]);
+	const codes = (reference: string) =>
+		resolveEpisode(numbered, reference).map(({ episode }) =>
+			episodeCode(episode),
+		);
+
+	it('resolves season/episode codes, overall numbers and shortcuts', () => {
+		expect(codes('s1e2')).toEqual(['S1E2']);
+		expect(codes('1x2')).toEqual(['S1E2']);
+		expect(codes('#4')).toEqual(['S2E1']);
+		expect(codes('3')).toEqual(['S1E2']);
+		expect(codes('#99')).toEqual([]);
+	});
+
+	it('reaches specials by their Season 0 code or where they aired', () => {
+		expect(codes('S0E14')).toEqual(['S0E14']);
+		expect(codes('S2E0')).toEqual(['S2E0']);
+	});
+
+	it('prefers an exact guest, then a partial guest, then the title', () => {
+		expect(codes('beyonce')).toEqual(['S1E2']);
+		expect(codes("conan o'brien")).toEqual(['S2E1', 'S3E1']);
+		expect(codes('PEEL')).toEqual(['S1E1']);
+		expect(codes('truth or dab')).toEqual(['S2E0']);
+	});
+});
+
+it('filters on several criteria at once', () => {
+	expect(
+		filterEpisodes(episodes, { category: 'comedy', query: 'CONAN' }).map(
+			({ number }) => number,
+		),
+	).toEqual([3, 4]);
+	expect(filterEpisodes(episodes, { season: 2, query: 'peele' })).toEqual([]);
+});
+
+it('paginates', () => {
+	expect(paginate([1, 2, 3, 4, 5], 2, 2)).toEqual({
+		total: 5,
+		page: 2,
+		per_page: 2,
+		pages: 3,
+		items: [3, 4],
+	});
+});
+
+it('lists a season with report numbers', () => {
+	expect(listSeason(episodes, 1).map(({ number }) => number)).toEqual([1, 2]);
+});
+
+it('picks a random episode from the given source of randomness', () => {
+	expect(pickRandomEpisode(episodes, () => 0.99)?.number).toBe(4);
+	expect(pickRandomEpisode([])).toBeUndefined();
+});
+
+it('computes season, category and guest statistics', () => {
+	expect(computeStats(episodes, 1)).toEqual({
+		totalEpisodes: 4,
+		totalSeasons: 3,
+		totalSpecials: 0,
+		uniqueGuests: 4,
+		episodesPerSeason: [
+			{ season: 1, count: 2 },
+			{ season: 2, count: 1 },
+			{ season: 3, count: 1 },
+		],
+		topCategories: [{ category: 'Comedy', count: 3 }],
+		topGuests: [{ guest: "Conan O'Brien", count: 2 }],
+	});
+});
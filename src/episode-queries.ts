@@ -0,0 +1,243 @@
+import { HotOnesEpisode } from './types';
+import { episodeMatchesNode, findTaxonomyNode } from './taxonomy';
+import { episodeCode, isSpecial } from './episode-numbering';
+
+// Episodes carry their 1-based position in the report, a shortcut that
+// shifts whenever the report changes; episodeCode() is the stable name
+export interface NumberedEpisode {
+	number: number;
+	episode: HotOnesEpisode;
+}
+
+export interface EpisodeFilter {
+	season?: number;
+	// A taxonomy node by name, alias or synonym ("nba"), or any tag category
+	category?: string;
+	// Inclusive ISO date bounds (YYYY-MM-DD) on air_date
+	from?: string;
+	to?: string;
+	// Substring match on guests, title and description
+	query?: string;
+}
+
+export interface Page<T> {
+	total: number;
+	page: number;
+	per_page: number;
+	pages: number;
+	items: T[];
+}
+
+export interface EpisodeStats {
+	totalEpisodes: number;
+	totalSeasons: number;
+	totalSpecials: number;
+	uniqueGuests: number;
+	episodesPerSeason: { season: number; count: number }[];
+	topCategories: { category: string; count: number }[];
+	topGuests: { guest: string; count: number }[];
+}
+
+// Pairs each episode with its shortcut, the number resolveEpisode accepts
+export const numbered = (episodes: HotOnesEpisode[]): NumberedEpisode[] =>
+	episodes.map((episode, index) => ({ episode, number: index + 1 }));
+
+const countBy = (values: string[]): Map<string, number> => {
+	const counts = new Map<string, number>();
+	values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+	return counts;
+};
+
+const topEntries = (counts: Map<string, number>, limit: number) =>
+	[...counts.entries()].sort(([, a], [, b]) => b - a).slice(0, limit);
+
+export function getEpisode(
+	episodes: HotOnesEpisode[],
+	number: number,
+): HotOnesEpisode | undefined {
+	return Number.isInteger(number) && number >= 1
+		? episodes[number - 1]
+		: undefined;
+}
+
+const normalizeName = (name: string) =>
+	name
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.trim();
+
+// Finds episodes by "S22E5" (or "22x5"), "#433" for the absolute number,
+// a plain number for the list position, or else a guest name or title.
+// More than one match means the reference was ambiguous.
+export function resolveEpisode(
+	episodes: HotOnesEpisode[],
+	reference: string,
+): NumberedEpisode[] {
+	const ref = reference.trim();
+	const all = numbered(episodes);
+
+	const code = ref.match(/^s(\d+)\s*e(\d+)$/i) ?? ref.match(/^(\d+)x(\d+)$/i);
+	if (code) {
+		const wanted = `S${parseInt(code[1], 10)}E${parseInt(code[2], 10)}`;
+		const byCode = all.filter(
+			({ episode }) => episodeCode(episode) === wanted,
+		);
+		// Mid-season specials are still reachable by where they aired (S23E0)
+		return byCode.length > 0
+			? byCode
+			: all.filter(
+					({ episode }) =>
+						`S${episode.season_number}E${episode.episode_number}` ===
+						wanted,
+			  );
+	}
+
+	const absolute = ref.match(/^#(\d+)$/);
+	if (absolute) {
+		const number = parseInt(absolute[1], 10);
+		return all.filter(({ episode }) => episode.absolute_number === number);
+	}
+
+	if (/^\d+$/.test(ref)) {
+		const number = parseInt(ref, 10);
+		const episode = getEpisode(episodes, number);
+		return episode ? [{ episode, number }] : [];
+	}
+
+	const name = normalizeName(ref);
+	if (!name) {
+		return [];
+	}
+	const exactGuest = all.filter(({ episode }) =>
+		episode.guests.some((guest) => normalizeName(guest) === name),
+	);
+	if (exactGuest.length > 0) {
+		return exactGuest;
+	}
+	const partialGuest = all.filter(({ episode }) =>
+		episode.guests.some((guest) => normalizeName(guest).includes(name)),
+	);
+	return partialGuest.length > 0
+		? partialGuest
+		: all.filter(({ episode }) =>
+				normalizeName(episode.title).includes(name),
+		  );
+}
+
+const matchesTerm = (episode: HotOnesEpisode, term: string) =>
+	episode.guests.some((guest) => guest.toLowerCase().includes(term)) ||
+	episode.title.toLowerCase().includes(term) ||
+	episode.description.toLowerCase().includes(term);
+
+export function filterEpisodes(
+	episodes: HotOnesEpisode[],
+	filter: EpisodeFilter,
+): NumberedEpisode[] {
+	const category = filter.category?.toLowerCase();
+	const node = filter.category
+		? findTaxonomyNode(filter.category)
+		: undefined;
+	const term = filter.query?.toLowerCase();
+
+	return numbered(episodes).filter(({ episode }) => {
+		if (
+			filter.season !== undefined &&
+			episode.season_number !== filter.season
+		) {
+			return false;
+		}
+		if (
+			category &&
+			!(node
+				? episodeMatchesNode(episode, node)
+				: episode.tags.some(
+						(tag) => tag.category.toLowerCase() === category,
+				  ))
+		) {
+			return false;
+		}
+		// Undated episodes can't satisfy a date range
+		if ((filter.from || filter.to) && !episode.air_date) {
+			return false;
+		}
+		if (filter.from && episode.air_date < filter.from) {
+			return false;
+		}
+		if (filter.to && episode.air_date.slice(0, 10) > filter.to) {
+			return false;
+		}
+		return !term || matchesTerm(episode, term);
+	});
+}
+
+export function paginate<T>(
+	items: T[],
+	page: number,
+	perPage: number,
+): Page<T> {
+	return {
+		total: items.length,
+		page,
+		per_page: perPage,
+		pages: Math.ceil(items.length / perPage),
+		items: items.slice((page - 1) * perPage, page * perPage),
+	};
+}
+
+export function listSeason(
+	episodes: HotOnesEpisode[],
+	seasonNumber: number,
+): NumberedEpisode[] {
+	return numbered(episodes).filter(
+		({ episode }) => episode.season_number === seasonNumber,
+	);
+}
+
+export function pickRandomEpisode(
+	episodes: HotOnesEpisode[],
+	random: () => number = Math.random,
+): NumberedEpisode | undefined {
+	return pickRandomFrom(numbered(episodes), random);
+}
+
+// For narrowed-down candidates that keep their report numbers
+export function pickRandomFrom(
+	candidates: NumberedEpisode[],
+	random: () => number = Math.random,
+): NumberedEpisode | undefined {
+	if (candidates.length === 0) {
+		return undefined;
+	}
+	return candidates[Math.floor(random() * candidates.length)];
+}
+
+export function computeStats(
+	episodes: HotOnesEpisode[],
+	limit = 10,
+): EpisodeStats {
+	const seasonCounts = countBy(
+		episodes.map((episode) => String(episode.season_number)),
+	);
+	const guestCounts = countBy(episodes.flatMap((episode) => episode.guests));
+	const categoryCounts = countBy(
+		episodes.flatMap((episode) => episode.tags.map((tag) => tag.category)),
+	);
+
+	return {
+		totalEpisodes: episodes.length,
+		totalSeasons: seasonCounts.size,
+		totalSpecials: episodes.filter(isSpecial).length,
+		uniqueGuests: guestCounts.size,
+		episodesPerSeason: [...seasonCounts.entries()]
+			.map(([season, count]) => ({ season: parseInt(season), count }))
+			.sort((a, b) => a.season - b.season),
+		topCategories: topEntries(categoryCounts, limit).map(
+			([category, count]) => ({ category, count }),
+		),
+		topGuests: topEntries(guestCounts, limit).map(([guest, count]) => ({
+			guest,
+			count,
+		})),
+	};
+}
@@ -0,0 +1,120 @@
+import * as path from 'path';
+import {
+	createEpisodeSources,
+	mergeSourceResults,
+	parseSourceArgs,
+} from './episode-sources';
+import { HotOnesScraper } from './hot-ones-scraper';
+import { YouTubePlaylistSource } from './youtube-source';
+import * as fs from 'fs';
+import { silentLogger } from './__fixtures__/logger';
+
+const fixturePath = (name: string) =>
+	path.join(__dirname, '__fixtures__', name);
+
+describe('parseSourceArgs', () => {
+	it('defaults to TheTVDB', () => {
+		expect(parseSourceArgs([]).sources).toEqual(['tvdb']);
+	});
+
+	it('uses the local file source when only --html is given', () => {
+		const options = parseSourceArgs(['--html', 'saved.html']);
+		expect(options.sources).toEqual(['file']);
+		expect(options.htmlPath).toBe('saved.html');
+	});
+
+	it('accepts comma-separated and inline flag values', () => {
+		const options = parseSourceArgs([
+			'--source=youtube,tvdb',
+			'--playlist',
+			'PL123',
+			'--deep',
+		]);
+		expect(options.sources).toEqual(['youtube', 'tvdb']);
+		expect(options.playlistId).toBe('PL123');
+		expect(options.deep).toBe(true);
+	});
+
+	it('rejects unknown sources and a file source without a path', () => {
+		expect(() => parseSourceArgs(['--source', 'netflix'])).toThrow(
+			/Unknown source "netflix"/,
+		);
+		expect(() => parseSourceArgs(['--source', 'file'])).toThrow(/--html/);
+	});
+});
+
+describe('createEpisodeSources', () => {
+	it('orders sources by precedence regardless of flag order', () => {
+		const sources = createEpisodeSources(
+			parseSourceArgs(['--source', 'youtube,file', '--html', 'x.html']),
+		);
+		expect(sources.map((source) => source.name)).toEqual([
+			'file',
+			'youtube',
+		]);
+	});
+
+	it('hands --deep to the saved HTML source too', () => {
+		const [file] = createEpisodeSources(
+			parseSourceArgs(['--html', 'x.html', '--deep']),
+		);
+		expect(file).toBeInstanceOf(HotOnesScraper);
+		expect(file.url).toMatch(/^file:.*x\.html$/);
+	});
+});
+
+describe('saved HTML (file) source', () => {
+	it('replays a saved TheTVDB listing', async () => {
+		const episodes = await new HotOnesScraper({
+			htmlPath: fixturePath('thetvdb-allseasons.html'),
+			logger: silentLogger(),
+		}).fetchEpisodes();
+
+		expect(episodes).toHaveLength(4);
+		expect(episodes[0].guests).toEqual(['Tony Yayo']);
+		expect(episodes[2].season_number).toBe(23);
+	});
+});
+
+describe('YouTubePlaylistSource', () => {
+	it('maps Atom feed entries to episodes', async () => {
+		const episodes = await new YouTubePlaylistSource().parseFeed(
+			fs.readFileSync(fixturePath('youtube-playlist.xml'), 'utf-8'),
+		);
+
+		expect(episodes).toHaveLength(2);
+		expect(episodes[0]).toMatchObject({
+			season_number: 0,
+			is_special: true,
+			youtube_id: 'kdhTSpFmUvk',
+			air_date: '2024-01-25',
+			guests: ["Conan O'Brien"],
+		});
+		expect(episodes[0].description).not.toMatch(/Subscribe/);
+	});
+});
+
+describe('mergeSourceResults', () => {
+	it('lets higher-precedence sources win and fills gaps from the rest', async () => {
+		const tvdb = await new HotOnesScraper({
+			htmlPath: fixturePath('thetvdb-allseasons.html'),
+			logger: silentLogger(),
+		}).fetchEpisodes();
+		const youtube = await new YouTubePlaylistSource().parseFeed(
+			fs.readFileSync(fixturePath('youtube-playlist.xml'), 'utf-8'),
+		);
+		const conan = { ...tvdb[2], description: '' };
+
+		const merged = mergeSourceResults([
+			{ source: 'file', episodes: [tvdb[0], conan] },
+			{ source: 'youtube', episodes: youtube },
+		]);
+
+		// Conan matched by air date and guest, Sydney Sweeney is new
+		expect(merged).toHaveLength(3);
+		expect(merged[1].season_number).toBe(23);
+		expect(merged[1].title).toBe(tvdb[2].title);
+		expect(merged[1].description).toBe(youtube[0].description);
+		expect(merged[2].guests).toEqual(['Sydney Sweeney']);
+	});
+});
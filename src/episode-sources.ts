@@ -0,0 +1,180 @@
+import { EpisodeSource, HotOnesEpisode } from './types';
+import { DEFAULT_HTTP_CACHE_DIR, HotOnesScraper } from './hot-ones-scraper';
+import { FileResponseCache, HttpClient } from './http-client';
+import { YouTubePlaylistSource } from './youtube-source';
+import { numberEpisodes } from './episode-numbering';
+import { brand } from './theme';
+
+export type SourceName = 'tvdb' | 'file' | 'youtube';
+
+// Earlier sources win when the same episode appears in several of them:
+// TheTVDB (live or replayed) has season/episode numbering, YouTube does not
+export const SOURCE_PRECEDENCE: SourceName[] = ['tvdb', 'file', 'youtube'];
+
+export interface SourceOptions {
+	sources: SourceName[];
+	htmlPath?: string;
+	playlistId?: string;
+	userAgent?: string;
+	deep?: boolean;
+}
+
+export interface SourceResult {
+	source: string;
+	episodes: HotOnesEpisode[];
+}
+
+export function getFlagValue(argv: string[], flag: string): string | undefined {
+	const inline = argv.find((arg) => arg.startsWith(`${flag}=`));
+	if (inline) {
+		return inline.substring(flag.length + 1);
+	}
+
+	const index = argv.indexOf(flag);
+	const value = index === -1 ? undefined : argv[index + 1];
+	return value && !value.startsWith('--') ? value : undefined;
+}
+
+// Reads --source tvdb,youtube,file, --html <path>, --playlist <id> and --user-agent <ua>
+export function parseSourceArgs(argv: string[]): SourceOptions {
+	const htmlPath = getFlagValue(argv, '--html');
+	const playlistId = getFlagValue(argv, '--playlist');
+	const requested = getFlagValue(argv, '--source');
+
+	const sources = requested
+		? requested.split(',').map((name) => name.trim().toLowerCase())
+		: [htmlPath ? 'file' : 'tvdb'];
+
+	for (const source of sources) {
+		if (!SOURCE_PRECEDENCE.includes(source as SourceName)) {
+			throw new Error(
+				`Unknown source "${source}". Expected one of: ${SOURCE_PRECEDENCE.join(
+					', ',
+				)}`,
+			);
+		}
+	}
+
+	if (sources.includes('file') && !htmlPath) {
+		throw new Error('The "file" source needs --html <path>');
+	}
+
+	return {
+		sources: [...new Set(sources)] as SourceName[],
+		htmlPath,
+		playlistId,
+		userAgent: getFlagValue(argv, '--user-agent'),
+		deep: argv.includes('--deep'),
+	};
+}
+
+export function createEpisodeSources(options: SourceOptions): EpisodeSource[] {
+	return [...options.sources]
+		.sort(
+			(a, b) =>
+				SOURCE_PRECEDENCE.indexOf(a) - SOURCE_PRECEDENCE.indexOf(b),
+		)
+		.map((name) => {
+			switch (name) {
+				case 'file':
+					return new HotOnesScraper({
+						htmlPath: options.htmlPath,
+						deep: options.deep,
+					});
+				case 'youtube':
+					return new YouTubePlaylistSource(
+						options.playlistId,
+						options.userAgent,
+					);
+				default:
+					return new HotOnesScraper({
+						deep: options.deep,
+						http: new HttpClient({
+							userAgent: options.userAgent,
+							cache: new FileResponseCache(
+								DEFAULT_HTTP_CACHE_DIR,
+							),
+						}),
+					});
+			}
+		});
+}
+
+// Fetches every source in precedence order; a failing source is skipped
+// unless it was the only one
+export async function fetchFromSources(
+	sources: EpisodeSource[],
+): Promise<HotOnesEpisode[]> {
+	const results: SourceResult[] = [];
+
+	for (const source of sources) {
+		try {
+			results.push({
+				source: source.name,
+				episodes: await source.fetchEpisodes(),
+			});
+		} catch (error) {
+			if (sources.length === 1) {
+				throw error;
+			}
+			console.warn(
+				brand.error(
+					`⚠️  Source "${source.name}" failed, continuing without it:`,
+				),
+				error instanceof Error ? error.message : error,
+			);
+		}
+	}
+
+	if (results.length === 0) {
+		throw new Error('All episode sources failed');
+	}
+
+	// Numbered after merging, since sources can fill in each other's gaps
+	return numberEpisodes(mergeSourceResults(results));
+}
+
+// Results must already be in precedence order (highest first)
+export function mergeSourceResults(results: SourceResult[]): HotOnesEpisode[] {
+	const merged: HotOnesEpisode[] = [];
+
+	for (const { episodes } of results) {
+		for (const episode of episodes) {
+			const existing = merged.find((candidate) =>
+				isSameEpisode(candidate, episode),
+			);
+
+			if (existing) {
+				fillMissingFields(existing, episode);
+			} else {
+				merged.push({ ...episode });
+			}
+		}
+	}
+
+	return merged;
+}
+
+function normalizeTitle(title: string): string {
+	return title.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isSameEpisode(a: HotOnesEpisode, b: HotOnesEpisode): boolean {
+	if (normalizeTitle(a.title) === normalizeTitle(b.title)) {
+		return true;
+	}
+
+	// Titles get tweaked after release, so also match same-day guests
+	return (
+		a.air_date !== '' &&
+		a.air_date === b.air_date &&
+		a.guests.some((guest) => b.guests.includes(guest))
+	);
+}
+
+function fillMissingFields(target: HotOnesEpisode, source: HotOnesEpisode) {
+	if (!target.air_date) target.air_date = source.air_date;
+	if (!target.description) target.description = source.description;
+	if (target.guests.length === 0) target.guests = source.guests;
+	if (target.topics.length === 0) target.topics = source.topics;
+}
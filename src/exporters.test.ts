@@ -0,0 +1,157 @@
+import initSqlJs from 'sql.js';
+import {
+	exportEpisodes,
+	flattenTags,
+	parseExportArgs,
+	toCsv,
+	toIcs,
+	toMarkdown,
+	toNdjson,
+	toSqlite,
+} from './exporters';
+import { HotOnesEpisode } from './types';
+
+const episodes: HotOnesEpisode[] = [
+	{
+		season_number: 1,
+		episode_number: 1,
+		title: "Tony Yayo Talks Shmoney Dance & Eminem's Taco Habit While Eating Spicy Chicken Wings",
+		guests: ['Tony Yayo'],
+		topics: ['Shmoney Dance', "Eminem's Taco Habit"],
+		air_date: '2015-03-12',
+		description:
+			'In "Hot Ones," host Sean Evans interviews celebrities, over a platter of wings.',
+		tags: [{ category: 'Music', sub_categories: ['Rapper', 'Singer'] }],
+	},
+	{
+		season_number: 0,
+		episode_number: 0,
+		title: 'Key & Peele | Hot Ones Special',
+		guests: ['Key', 'Peele'],
+		topics: [],
+		air_date: '',
+		description: '',
+		tags: [{ category: 'Comedy', sub_categories: [] }],
+	},
+];
+
+describe('flattenTags', () => {
+	it('joins categories with their sub-categories', () => {
+		expect(flattenTags(episodes[0])).toBe('Music: Rapper, Singer');
+		expect(flattenTags(episodes[1])).toBe('Comedy');
+	});
+});
+
+describe('toCsv', () => {
+	it('writes a header and quotes cells with commas or quotes', () => {
+		const [header, first, second] = toCsv(episodes).split('\r\n');
+
+		expect(header).toBe(
+			'season_number,episode_number,title,guests,topics,air_date,categories,tags,description',
+		);
+		expect(first).toBe(
+			'1,1,Tony Yayo Talks Shmoney Dance & Eminem\'s Taco Habit While Eating Spicy Chicken Wings,Tony Yayo,Shmoney Dance; Eminem\'s Taco Habit,2015-03-12,Music,"Music: Rapper, Singer","In ""Hot Ones,"" host Sean Evans interviews celebrities, over a platter of wings."',
+		);
+		expect(second).toBe(
+			'0,0,Key & Peele | Hot Ones Special,Key; Peele,,,Comedy,Comedy,',
+		);
+	});
+});
+
+describe('toNdjson', () => {
+	it('writes one JSON episode per line', () => {
+		const lines = toNdjson(episodes).trimEnd().split('\n');
+		expect(lines.map((line) => JSON.parse(line))).toEqual(episodes);
+	});
+});
+
+describe('toMarkdown', () => {
+	it('groups episodes into one table per season and escapes pipes', () => {
+		const markdown = toMarkdown(episodes);
+
+		expect(markdown).toContain('## Season 1');
+		expect(markdown).toContain('## Specials');
+		expect(markdown).toContain(
+			'| - |  | Key & Peele \\| Hot Ones Special | Key, Peele | Comedy |',
+		);
+	});
+});
+
+describe('toIcs', () => {
+	const ics = toIcs(episodes, new Date('2024-05-01T12:00:00Z'));
+
+	it('creates one all-day event per dated episode', () => {
+		expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+		expect(ics).toContain('DTSTART;VALUE=DATE:20150312\r\n');
+		expect(ics).toContain('DTEND;VALUE=DATE:20150313\r\n');
+		expect(ics).toContain('UID:s1e1@wing-scrape\r\n');
+		expect(ics).toContain('DTSTAMP:20240501T120000Z\r\n');
+	});
+
+	it('escapes text and folds long lines at 75 octets', () => {
+		const lines = ics.split('\r\n');
+
+		expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+		expect(ics.replace(/\r\n /g, '')).toContain(
+			'DESCRIPTION:In "Hot Ones\\," host Sean Evans interviews celebrities\\, over a platter of wings.',
+		);
+	});
+});
+
+describe('toSqlite', () => {
+	it('writes episodes with one row per guest and per tag', async () => {
+		const SQL = await initSqlJs();
+		const db = new SQL.Database(await toSqlite(episodes));
+
+		expect(db.exec('SELECT COUNT(*) FROM episodes')[0].values).toEqual([
+			[2],
+		]);
+		expect(
+			db.exec('SELECT guest FROM episode_guests WHERE episode_id = 2')[0]
+				.values,
+		).toEqual([['Key'], ['Peele']]);
+		expect(
+			db.exec('SELECT category, sub_category FROM episode_tags')[0]
+				.values,
+		).toEqual([
+			['Music', 'Rapper'],
+			['Music', 'Singer'],
+			['Comedy', null],
+		]);
+		db.close();
+	});
+});
+
+describe('exportEpisodes', () => {
+	it('dispatches on format', async () => {
+		expect(await exportEpisodes(episodes, 'csv')).toBe(toCsv(episodes));
+		expect(
+			JSON.parse((await exportEpisodes(episodes, 'json')) as string),
+		).toEqual(episodes);
+	});
+});
+
+describe('parseExportArgs', () => {
+	it('returns undefined when no export flags are given', () => {
+		expect(parseExportArgs(['--incremental'])).toBeUndefined();
+	});
+
+	it('reads --format and --out', () => {
+		expect(parseExportArgs(['--format', 'ics', '--out=shows.ics'])).toEqual(
+			{
+				format: 'ics',
+				outPath: 'shows.ics',
+			},
+		);
+	});
+
+	it('infers the format from the --out extension', () => {
+		expect(parseExportArgs(['--out', 'wiki.md'])?.format).toBe('md');
+	});
+
+	it('rejects unknown formats', () => {
+		expect(() => parseExportArgs(['--format', 'xlsx'])).toThrow(
+			/Unknown export format "xlsx"/,
+		);
+	});
+});
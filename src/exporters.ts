@@ -0,0 +1,359 @@
+import { HotOnesEpisode } from './types';
+import { episodeKey } from './report-diff';
+import { getFlagValue } from './episode-sources';
+import initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'md' | 'ics' | 'sqlite';
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+	'json',
+	'ndjson',
+	'csv',
+	'md',
+	'ics',
+	'sqlite',
+];
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+	json: '.json',
+	ndjson: '.ndjson',
+	csv: '.csv',
+	md: '.md',
+	ics: '.ics',
+	sqlite: '.sqlite',
+};
+
+export interface ExportOptions {
+	format: ExportFormat;
+	outPath: string;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+	return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function defaultExportPath(
+	format: ExportFormat,
+	name = 'hot-ones',
+): string {
+	return path.join(
+		process.cwd(),
+		`${name}-episodes${EXPORT_EXTENSIONS[format]}`,
+	);
+}
+
+// --format csv|md|sqlite|ics|ndjson|json and --out <path>; undefined if neither
+export function parseExportArgs(argv: string[]): ExportOptions | undefined {
+	const requested = getFlagValue(argv, '--format');
+	const outPath = getFlagValue(argv, '--out');
+
+	if (!requested && !outPath) {
+		return undefined;
+	}
+
+	// Without --format, guess from the --out extension (falling back to JSON)
+	const format =
+		requested?.toLowerCase() ??
+		(EXPORT_FORMATS.find(
+			(candidate) =>
+				path.extname(outPath ?? '') === EXPORT_EXTENSIONS[candidate],
+		) ||
+			'json');
+
+	if (!isExportFormat(format)) {
+		throw new Error(
+			`Unknown export format "${format}". Expected one of: ${EXPORT_FORMATS.join(
+				', ',
+			)}`,
+		);
+	}
+
+	return { format, outPath: outPath ?? defaultExportPath(format) };
+}
+
+// "Music: Rapper, Singer; Comedy: Stand-up Comedian"
+export function flattenTags(episode: HotOnesEpisode): string {
+	return episode.tags
+		.map((tag) =>
+			tag.sub_categories.length > 0
+				? `${tag.category}: ${tag.sub_categories.join(', ')}`
+				: tag.category,
+		)
+		.join('; ');
+}
+
+const CSV_COLUMNS = [
+	'season_number',
+	'episode_number',
+	'title',
+	'guests',
+	'topics',
+	'air_date',
+	'categories',
+	'tags',
+	'description',
+];
+
+function csvCell(value: string | number): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(episodes: HotOnesEpisode[]): string {
+	const rows = episodes.map((episode) =>
+		[
+			episode.season_number,
+			episode.episode_number,
+			episode.title,
+			episode.guests.join('; '),
+			episode.topics.join('; '),
+			episode.air_date,
+			episode.tags.map((tag) => tag.category).join('; '),
+			flattenTags(episode),
+			episode.description,
+		]
+			.map(csvCell)
+			.join(','),
+	);
+
+	return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function toNdjson(episodes: HotOnesEpisode[]): string {
+	return episodes.map((episode) => JSON.stringify(episode) + '\n').join('');
+}
+
+function markdownCell(value: string): string {
+	return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+// One table per season, ready to paste into a wiki page
+export function toMarkdown(episodes: HotOnesEpisode[]): string {
+	const seasons = new Map<number, HotOnesEpisode[]>();
+	episodes.forEach((episode) => {
+		const season = seasons.get(episode.season_number) ?? [];
+		season.push(episode);
+		seasons.set(episode.season_number, season);
+	});
+
+	const sections = [...seasons.entries()].map(([season, seasonEpisodes]) => {
+		const heading = season === 0 ? 'Specials' : `Season ${season}`;
+		const rows = seasonEpisodes.map(
+			(episode) =>
+				`| ${[
+					episode.episode_number === 0
+						? '-'
+						: String(episode.episode_number),
+					episode.air_date,
+					episode.title,
+					episode.guests.join(', '),
+					flattenTags(episode),
+				]
+					.map(markdownCell)
+					.join(' | ')} |`,
+		);
+
+		return [
+			`## ${heading}`,
+			'',
+			'| # | Air Date | Title | Guests | Tags |',
+			'| --- | --- | --- | --- | --- |',
+			...rows,
+		].join('\n');
+	});
+
+	return `# Hot Ones Episodes\n\n${sections.join('\n\n')}\n`;
+}
+
+function icsText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 lines are at most 75 octets; continuations start with a space
+function foldIcsLine(line: string): string {
+	const chunks: string[] = [];
+	let current = '';
+	for (const char of line) {
+		const limit = chunks.length === 0 ? 75 : 74;
+		if (Buffer.byteLength(current + char) > limit) {
+			chunks.push(current);
+			current = '';
+		}
+		current += char;
+	}
+	chunks.push(current);
+	return chunks.join('\r\n ');
+}
+
+const icsDate = (date: Date) =>
+	date.toISOString().slice(0, 10).replace(/-/g, '');
+
+const icsTimestamp = (date: Date) =>
+	date
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '');
+
+// One all-day event per episode with a known air date
+export function toIcs(
+	episodes: HotOnesEpisode[],
+	generatedAt: Date = new Date(),
+): string {
+	const events = episodes
+		.filter((episode) => /^\d{4}-\d{2}-\d{2}/.test(episode.air_date))
+		.flatMap((episode) => {
+			const start = new Date(
+				`${episode.air_date.slice(0, 10)}T00:00:00Z`,
+			);
+			const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+			const uid = episodeKey(episode)
+				.toLowerCase()
+				.replace(/[^a-z0-9]+/g, '-')
+				.replace(/^-|-$/g, '');
+
+			return [
+				'BEGIN:VEVENT',
+				`UID:${uid}@wing-scrape`,
+				`DTSTAMP:${icsTimestamp(generatedAt)}`,
+				`DTSTART;VALUE=DATE:${icsDate(start)}`,
+				`DTEND;VALUE=DATE:${icsDate(end)}`,
+				`SUMMARY:${icsText(
+					`Hot Ones S${episode.season_number}E${episode.episode_number}: ${episode.title}`,
+				)}`,
+				...(episode.description
+					? [`DESCRIPTION:${icsText(episode.description)}`]
+					: []),
+				...(episode.tags.length > 0
+					? [
+							`CATEGORIES:${episode.tags
+								.map((tag) => icsText(tag.category))
+								.join(',')}`,
+					  ]
+					: []),
+				'END:VEVENT',
+			];
+		});
+
+	return (
+		[
+			'BEGIN:VCALENDAR',
+			'VERSION:2.0',
+			'PRODID:-//wing-scrape//Hot Ones Episodes//EN',
+			'CALSCALE:GREGORIAN',
+			'X-WR-CALNAME:Hot Ones',
+			...events,
+			'END:VCALENDAR',
+		]
+			.map(foldIcsLine)
+			.join('\r\n') + '\r\n'
+	);
+}
+
+// Episodes plus one row per guest and per tag, for querying with plain SQL
+export async function toSqlite(
+	episodes: HotOnesEpisode[],
+): Promise<Uint8Array> {
+	const SQL = await initSqlJs();
+	const db = new SQL.Database();
+
+	try {
+		db.run(`
+			CREATE TABLE episodes (
+				id INTEGER PRIMARY KEY,
+				season_number INTEGER NOT NULL,
+				episode_number INTEGER NOT NULL,
+				title TEXT NOT NULL,
+				air_date TEXT,
+				description TEXT,
+				topics TEXT
+			);
+			CREATE TABLE episode_guests (
+				episode_id INTEGER NOT NULL REFERENCES episodes(id),
+				guest TEXT NOT NULL
+			);
+			CREATE TABLE episode_tags (
+				episode_id INTEGER NOT NULL REFERENCES episodes(id),
+				category TEXT NOT NULL,
+				sub_category TEXT
+			);
+		`);
+
+		const insertEpisode = db.prepare(
+			'INSERT INTO episodes VALUES (?, ?, ?, ?, ?, ?, ?)',
+		);
+		const insertGuest = db.prepare(
+			'INSERT INTO episode_guests VALUES (?, ?)',
+		);
+		const insertTag = db.prepare(
+			'INSERT INTO episode_tags VALUES (?, ?, ?)',
+		);
+
+		db.run('BEGIN');
+		episodes.forEach((episode, index) => {
+			const id = index + 1;
+			insertEpisode.run([
+				id,
+				episode.season_number,
+				episode.episode_number,
+				episode.title,
+				episode.air_date || null,
+				episode.description || null,
+				episode.topics.join('; ') || null,
+			]);
+			episode.guests.forEach((guest) => insertGuest.run([id, guest]));
+			episode.tags.forEach((tag) => {
+				const subCategories =
+					tag.sub_categories.length > 0 ? tag.sub_categories : [null];
+				subCategories.forEach((subCategory) =>
+					insertTag.run([id, tag.category, subCategory]),
+				);
+			});
+		});
+		db.run('COMMIT');
+
+		insertEpisode.free();
+		insertGuest.free();
+		insertTag.free();
+
+		return db.export();
+	} finally {
+		db.close();
+	}
+}
+
+export async function exportEpisodes(
+	episodes: HotOnesEpisode[],
+	format: ExportFormat,
+): Promise<string | Uint8Array> {
+	switch (format) {
+		case 'json':
+			return JSON.stringify(episodes, null, 2);
+		case 'ndjson':
+			return toNdjson(episodes);
+		case 'csv':
+			return toCsv(episodes);
+		case 'md':
+			return toMarkdown(episodes);
+		case 'ics':
+			return toIcs(episodes);
+		case 'sqlite':
+			return toSqlite(episodes);
+	}
+}
+
+export async function writeExport(
+	episodes: HotOnesEpisode[],
+	format: ExportFormat,
+	outPath: string,
+): Promise<void> {
+	await fs.promises.writeFile(
+		outPath,
+		await exportEpisodes(episodes, format),
+	);
+}
@@ -0,0 +1,99 @@
+import { describeGuestTags, GuestRegistry, guestKey } from './guests';
+import { numberEpisodes } from './episode-numbering';
+import { numbered, resolveEpisode } from './episode-queries';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	season_number: number,
+	episode_number: number,
+	guests: string[],
+	air_date: string,
+	category = 'Comedy',
+	sub_categories: string[] = [],
+): HotOnesEpisode =>
+	makeEpisode({
+		season_number,
+		episode_number,
+		title: `${guests.join(' & ')} Eat Spicy Wings`,
+		guests,
+		air_date,
+		tags: [tag(category, ...sub_categories)],
+	});
+
+const episodes = numberEpisodes([
+	episode(2, 20, ['Eric Andre'], '2016-10-27', 'Comedy', [
+		'Stand-up Comedian',
+	]),
+	episode(12, 3, ['Eric André'], '2020-06-04', 'Movie/TV', ['Actor']),
+	episode(12, 0, ['Eric Andre', 'Lil Yachty'], '2020-08-01', 'Other', [
+		'Unknown',
+	]),
+	episode(7, 5, ['Lil Yachty'], '2018-09-06', 'Music', ['Rapper']),
+	episode(9, 4, ['Aubrey Plaza'], '', 'Movie/TV', ['Actor']),
+]);
+
+const registry = new GuestRegistry(numbered(episodes), {
+	'Lil Yachty': ['Boat'],
+});
+
+it('normalises names so spelling variants are one guest', () => {
+	expect(guestKey("Conan O'Brien")).toBe(guestKey('conan o’brien'));
+	expect(guestKey('Zoë Kravitz')).toBe('zoekravitz');
+	expect(registry.guests.map(({ name }) => name)).toEqual([
+		'Aubrey Plaza',
+		'Eric Andre',
+		'Lil Yachty',
+	]);
+});
+
+it('builds a profile from every appearance, oldest first', () => {
+	const [eric] = registry.find('eric andré');
+
+	expect(eric).toMatchObject({
+		name: 'Eric Andre',
+		aliases: ['Eric André'],
+		episodes: 2,
+		specials: 1,
+		firstAired: '2016-10-27',
+		lastAired: '2020-08-01',
+		tags: [
+			{ category: 'Comedy', sub_categories: ['Stand-up Comedian'] },
+			{ category: 'Movie/TV', sub_categories: ['Actor'] },
+		],
+	});
+	expect(eric.appearances.map(({ number }) => number)).toEqual([1, 2, 3]);
+	eric.appearances.forEach(({ number, episode }) =>
+		expect(resolveEpisode(episodes, `${number}`)).toEqual([
+			{ number, episode },
+		]),
+	);
+	expect(describeGuestTags(eric)).toBe(
+		'Comedy (Stand-up Comedian), Movie/TV (Actor)',
+	);
+});
+
+it('finds guests by alias, or lists every partial match', () => {
+	expect(registry.find('BOAT').map(({ name }) => name)).toEqual([
+		'Lil Yachty',
+	]);
+	expect(registry.find('a').map(({ name }) => name)).toEqual([
+		'Aubrey Plaza',
+		'Eric Andre',
+		'Lil Yachty',
+	]);
+	expect(registry.find('bo').map(({ name }) => name)).toEqual(['Lil Yachty']);
+	expect(registry.find('nobody')).toEqual([]);
+	expect(registry.find('  ')).toEqual([]);
+});
+
+it('reports returning guests with the most appearances first', () => {
+	expect(
+		registry
+			.returning()
+			.map(({ name, appearances }) => [name, appearances.length]),
+	).toEqual([
+		['Eric Andre', 3],
+		['Lil Yachty', 2],
+	]);
+});
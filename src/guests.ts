@@ -0,0 +1,193 @@
+import { EpisodeTag } from './types';
+import { NumberedEpisode } from './episode-queries';
+import { isSpecial } from './episode-numbering';
+import { normalizeText } from './search-index';
+
+// Nicknames and real names for guests whose titles use a stage name
+export const GUEST_ALIASES: Record<string, string[]> = {
+	'Israel Adesanya': ['Izzy'],
+	Joji: ['George Miller'],
+	'Lil Yachty': ['Miles McCollum'],
+	'Machine Gun Kelly': ['MGK'],
+	'Marques Brownlee': ['MKBHD'],
+	Offset: ['Kiari Cephus'],
+	'Post Malone': ['Austin Post'],
+	'Rich Brian': ['Brian Imanuel'],
+	'Rob Gronkowski': ['Gronk'],
+	'Steve-O': ['Stephen Glover'],
+	SZA: ['Solána Rowe'],
+	'T-Pain': ['Faheem Najm'],
+	Thundercat: ['Stephen Bruner'],
+};
+
+export interface GuestProfile {
+	// The spelling the titles use most
+	name: string;
+	// Other spellings seen in titles, then known nicknames
+	aliases: string[];
+	// Oldest first
+	appearances: NumberedEpisode[];
+	// Full wing interviews, as opposed to specials
+	episodes: number;
+	specials: number;
+	firstAired: string;
+	lastAired: string;
+	// Every category the guest was tagged with, most frequent first
+	tags: EpisodeTag[];
+}
+
+// "Zoë Kravitz", "Zoe Kravitz" and "zoe kravitz" are one guest
+export const guestKey = (name: string) =>
+	normalizeText(name).replace(/[^a-z0-9]/g, '');
+
+const byAirDate = (a: NumberedEpisode, b: NumberedEpisode) =>
+	// Undated episodes go last
+	(a.episode.air_date || '9999').localeCompare(
+		b.episode.air_date || '9999',
+	) || a.number - b.number;
+
+function mergeTags(appearances: NumberedEpisode[]): EpisodeTag[] {
+	const merged = new Map<string, { count: number; subs: Set<string> }>();
+	appearances.forEach(({ episode }) =>
+		episode.tags.forEach((tag) => {
+			const entry = merged.get(tag.category) ?? {
+				count: 0,
+				subs: new Set<string>(),
+			};
+			entry.count++;
+			tag.sub_categories.forEach((sub) => entry.subs.add(sub));
+			merged.set(tag.category, entry);
+		}),
+	);
+
+	const tags = [...merged.entries()]
+		.sort(([, a], [, b]) => b.count - a.count)
+		.map(([category, { subs }]) => ({
+			category,
+			sub_categories: [...subs],
+		}));
+	// "Other" only says something when it's all there is
+	const known = tags.filter((tag) => tag.category !== 'Other');
+	return known.length > 0 ? known : tags;
+}
+
+// Every guest in the report, whichever way their name was spelled
+export class GuestRegistry {
+	private profiles = new Map<string, GuestProfile>();
+	// Alias key -> guest key
+	private aliasKeys = new Map<string, string>();
+
+	// Takes the numbered list the caller resolves references against, so an
+	// appearance's number always leads back to the same episode
+	constructor(episodes: NumberedEpisode[], aliases = GUEST_ALIASES) {
+		const curated = new Map(
+			Object.entries(aliases).map(([name, names]) => [
+				guestKey(name),
+				names,
+			]),
+		);
+		const spellings = new Map<string, Map<string, number>>();
+		const appearances = new Map<string, NumberedEpisode[]>();
+
+		episodes.forEach((appearance) => {
+			const { episode } = appearance;
+			new Set(episode.guests.map(guestKey).filter(Boolean)).forEach(
+				(key) =>
+					appearances.set(key, [
+						...(appearances.get(key) ?? []),
+						appearance,
+					]),
+			);
+			episode.guests.forEach((guest) => {
+				const counts = spellings.get(guestKey(guest)) ?? new Map();
+				counts.set(guest, (counts.get(guest) ?? 0) + 1);
+				spellings.set(guestKey(guest), counts);
+			});
+		});
+
+		appearances.forEach((guestAppearances, key) => {
+			const [name, ...otherSpellings] = [...spellings.get(key)!.entries()]
+				.sort(([, a], [, b]) => b - a)
+				.map(([spelling]) => spelling);
+			const sorted = [...guestAppearances].sort(byAirDate);
+			const dates = sorted
+				.map(({ episode }) => episode.air_date)
+				.filter(Boolean);
+			const specials = sorted.filter(({ episode }) =>
+				isSpecial(episode),
+			).length;
+
+			this.profiles.set(key, {
+				name,
+				aliases: [...otherSpellings, ...(curated.get(key) ?? [])],
+				appearances: sorted,
+				episodes: sorted.length - specials,
+				specials,
+				firstAired: dates[0] ?? '',
+				lastAired: dates[dates.length - 1] ?? '',
+				tags: mergeTags(sorted),
+			});
+		});
+
+		curated.forEach((names, key) => {
+			if (this.profiles.has(key)) {
+				names.forEach((alias) =>
+					this.aliasKeys.set(guestKey(alias), key),
+				);
+			}
+		});
+	}
+
+	// Alphabetical
+	get guests(): GuestProfile[] {
+		return [...this.profiles.values()].sort((a, b) =>
+			a.name.localeCompare(b.name),
+		);
+	}
+
+	// An exact name or alias wins; otherwise every guest containing the text
+	find(name: string): GuestProfile[] {
+		const key = guestKey(name);
+		if (!key) {
+			return [];
+		}
+		const exact = this.profiles.get(this.aliasKeys.get(key) ?? key);
+		if (exact) {
+			return [exact];
+		}
+
+		const partialAliases = new Set(
+			[...this.aliasKeys.entries()]
+				.filter(([alias]) => alias.includes(key))
+				.map(([, guest]) => guest),
+		);
+		return this.guests.filter(
+			(profile) =>
+				guestKey(profile.name).includes(key) ||
+				partialAliases.has(guestKey(profile.name)),
+		);
+	}
+
+	// Guests with more than one appearance, most appearances first
+	returning(): GuestProfile[] {
+		return this.guests
+			.filter(({ appearances }) => appearances.length > 1)
+			.sort(
+				(a, b) =>
+					b.appearances.length - a.appearances.length ||
+					b.episodes - a.episodes ||
+					a.name.localeCompare(b.name),
+			);
+	}
+}
+
+// "Music (Rapper, Singer), Movie/TV (Actor)"
+export function describeGuestTags(profile: GuestProfile): string {
+	return profile.tags
+		.map(({ category, sub_categories }) =>
+			sub_categories.length > 0
+				? `${category} (${sub_categories.join(', ')})`
+				: category,
+		)
+		.join(', ');
+}
@@ -1,31 +1,100 @@
-import { HotOnesScraper } from './hot-ones-scraper';
+import {
+	createEpisodeSources,
+	fetchFromSources,
+	getFlagValue,
+	parseSourceArgs,
+} from './episode-sources';
 import { HotOnesEpisode } from './types';
 import * as fs from 'fs';
-import * as path from 'path';
-import Table from 'cli-table3';
-import chalk from 'chalk';
 import { ASCIIArt } from './ascii-art';
+import {
+	createReport,
+	DEFAULT_REPORT_PATH,
+	formatIssues,
+	LoadedReport,
+	loadReport,
+	ReportValidationError,
+	saveReport,
+} from './report';
+import { parseExportArgs, writeExport } from './exporters';
+import { applyOverridesFile, DEFAULT_OVERRIDES_PATH } from './overrides';
+import { findNumberingIssues } from './episode-numbering';
+import {
+	diffReports,
+	hasChanges,
+	isSuspiciousShrink,
+	ReportDiff,
+} from './report-diff';
+import {
+	brand,
+	createTable,
+	detectPresentation,
+	getPresentation,
+	startSpinner,
+	usePresentation,
+} from './theme';
 
-// Brand colors
-const colors = {
-	black: '#000000',
-	white: '#FFFFFF',
-	yellow: '#FED204',
-	red: '#DA1F27',
-};
-
-// Styled chalk functions
-const brand = {
-	title: chalk.hex(colors.red).bold,
-	highlight: chalk.hex(colors.yellow).bold,
-	success: chalk.hex(colors.yellow),
-	error: chalk.hex(colors.red),
-	info: chalk.hex(colors.white),
-	dim: chalk.hex(colors.white).dim,
-};
+const truncate = (text: string, length = 60) =>
+	text.length > length ? text.substring(0, length - 3) + '...' : text;
+
+function printReportDiff(diff: ReportDiff): void {
+	console.log(brand.highlight('\n🔄 Changes since last scrape:'));
+
+	const summaryTable = createTable({
+		head: [brand.highlight('Change'), brand.highlight('Episodes')],
+		style: {
+			head: [],
+			border: ['dim'],
+			'padding-left': 1,
+			'padding-right': 1,
+		},
+		chars: {
+			mid: '',
+			'left-mid': '',
+			'mid-mid': '',
+			'right-mid': '',
+		},
+		colWidths: [25, 10],
+	});
+
+	summaryTable.push(
+		[brand.info('Added'), brand.success(diff.added.length.toString())],
+		[brand.info('Removed'), brand.error(diff.removed.length.toString())],
+		[
+			brand.info('Changed'),
+			brand.highlight(diff.changed.length.toString()),
+		],
+		[brand.info('Unchanged'), brand.dim(diff.unchanged.toString())],
+	);
+	console.log(summaryTable.toString());
+
+	const label = (episode: HotOnesEpisode) =>
+		`S${episode.season_number}E${episode.episode_number} ${truncate(
+			episode.title,
+		)}`;
+
+	diff.added.forEach((episode) =>
+		console.log(brand.success(`  + ${label(episode)}`)),
+	);
+	diff.removed.forEach((episode) =>
+		console.log(brand.error(`  - ${label(episode)}`)),
+	);
+	diff.changed.forEach(({ episode, changes }) => {
+		console.log(brand.highlight(`  ~ ${label(episode)}`));
+		changes.forEach(({ field, before, after }) => {
+			console.log(brand.dim(`      ${field}:`));
+			console.log(brand.error(`        - ${truncate(before)}`));
+			console.log(brand.success(`        + ${truncate(after)}`));
+		});
+	});
+}
 
 async function main(): Promise<void> {
 	try {
+		// --plain, --theme <name>, NO_COLOR and friends
+		usePresentation(detectPresentation(process.argv.slice(2)));
+		const { animation } = getPresentation();
+
 		// Import chalk-animation with require to avoid TypeScript issues
 		const chalkAnimation = require('chalk-animation');
 
@@ -34,7 +103,11 @@ async function main(): Promise<void> {
 		let successAnimation;
 
 		try {
-			if (chalkAnimation && typeof chalkAnimation.pulse === 'function') {
+			if (
+				animation &&
+				chalkAnimation &&
+				typeof chalkAnimation.pulse === 'function'
+			) {
 				// Animated title
 				titleAnimation = chalkAnimation.pulse(
 					'🔥 Hot Ones Episode Scraper 🔥',
@@ -55,41 +128,165 @@ async function main(): Promise<void> {
 		);
 
 		// Loading animation
-		const loadingChars = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
-		let i = 0;
-		const loadingInterval = setInterval(() => {
-			process.stdout.write(
-				`\r${brand.highlight(
-					loadingChars[i++ % loadingChars.length] +
-						' Initializing scraper...',
-				)}`,
-			);
-		}, 100);
-
-		const scraper = new HotOnesScraper();
+		const stopLoading = startSpinner('Initializing scraper...');
 
-		setTimeout(() => {
-			clearInterval(loadingInterval);
-			process.stdout.write('\r' + ' '.repeat(50) + '\r');
-		}, 1500);
+		// --source tvdb,youtube,file picks where episodes come from
+		const sources = createEpisodeSources(
+			parseSourceArgs(process.argv.slice(2)),
+		);
+		// --format/--out write an extra export next to the JSON report
+		const exportOptions = parseExportArgs(process.argv.slice(2));
 
-		await new Promise((resolve) => setTimeout(resolve, 1600));
+		await new Promise((resolve) =>
+			setTimeout(resolve, animation ? 1500 : 0),
+		);
+		stopLoading();
 
 		console.log(brand.info('🚀 Scraper initialized successfully\n'));
 
-		const episodes = await scraper.scrapeAllEpisodes();
+		console.log(
+			brand.dim(
+				`📚 Sources (by precedence): ${sources
+					.map((source) => source.name)
+					.join(' > ')}`,
+			),
+		);
+		const scraped = await fetchFromSources(sources);
 
-		if (episodes.length === 0) {
+		if (scraped.length === 0) {
 			console.log(
 				brand.error('⚠️  No episodes found. Check the scraper logic.'),
 			);
 			return;
 		}
 
+		// Hand curation is re-applied so a re-scrape never loses it
+		const { episodes, applied, unmatched } = applyOverridesFile(
+			scraped,
+			getFlagValue(process.argv.slice(2), '--overrides') ??
+				DEFAULT_OVERRIDES_PATH,
+		);
+		if (applied > 0) {
+			console.log(brand.dim(`✍️  Applied ${applied} episode overrides`));
+		}
+		if (unmatched.length > 0) {
+			console.log(
+				brand.error(
+					`⚠️  Overrides for unknown episodes: ${unmatched.join(
+						', ',
+					)}`,
+				),
+			);
+		}
+
+		// Unlabelled or colliding episodes can't be addressed reliably
+		const issues = findNumberingIssues(episodes);
+		if (issues.length > 0) {
+			console.log(
+				brand.error(
+					`⚠️  ${issues.length} numbering problems (run "wing-scrape check"):`,
+				),
+			);
+			issues
+				.slice(0, 5)
+				.forEach(({ code, titles, message }) =>
+					console.log(
+						brand.dim(`   ${code} ${message}: ${titles[0]}`),
+					),
+				);
+		}
+
+		const outputPath = DEFAULT_REPORT_PATH;
+
+		// The saved report is never swapped for a partial scrape unless --force;
+		// --incremental also prints the diff and skips unchanged writes
+		const incremental = process.argv.includes('--incremental');
+		const force = process.argv.includes('--force');
+		let shouldWrite = true;
+
+		if (fs.existsSync(outputPath)) {
+			let loaded: LoadedReport | undefined;
+			try {
+				loaded = loadReport(outputPath);
+			} catch (error) {
+				if (!(error instanceof ReportValidationError)) {
+					throw error;
+				}
+				if (!force) {
+					console.log(
+						brand.error(
+							'\n⚠️  Existing report has malformed episodes, so it cannot be compared:',
+						),
+					);
+					formatIssues(error.issues).forEach((line) =>
+						console.log(brand.dim(`   ${line}`)),
+					);
+					console.log(
+						brand.error(
+							'Fix or delete it, or re-run with --force to overwrite it.',
+						),
+					);
+					process.exitCode = 1;
+					return;
+				}
+			}
+
+			if (loaded) {
+				const previous = loaded.report.episodes;
+				const diff = diffReports(previous, episodes);
+				if (incremental) {
+					printReportDiff(diff);
+				}
+
+				if (isSuspiciousShrink(previous.length, episodes.length)) {
+					if (!force) {
+						console.log(
+							brand.error(
+								`\n⚠️  Scrape returned ${episodes.length} episodes but the report has ${previous.length}. ` +
+									'This looks like a partial page, so the report was NOT overwritten. ' +
+									'Re-run with --force to save it anyway.',
+							),
+						);
+						process.exitCode = 1;
+						return;
+					}
+					console.log(
+						brand.highlight(
+							'\n⚠️  Episode count dropped sharply, saving anyway (--force)',
+						),
+					);
+				}
+
+				// A bare-array report still gets rewritten in the new envelope
+				if (incremental && !hasChanges(diff) && !loaded.migrated) {
+					shouldWrite = false;
+					console.log(
+						brand.dim(
+							'\n✨ No changes detected, report left untouched',
+						),
+					);
+				}
+			}
+		}
+
 		// Save to JSON file
-		const outputPath = path.join(process.cwd(), 'hot-ones-report.json');
-		fs.writeFileSync(outputPath, JSON.stringify(episodes, null, 2));
-		console.log(brand.success(`\n💾 Episodes saved to: ${outputPath}`));
+		if (shouldWrite) {
+			saveReport(createReport(episodes, sources[0].url), outputPath);
+			console.log(brand.success(`\n💾 Episodes saved to: ${outputPath}`));
+		}
+
+		if (exportOptions) {
+			await writeExport(
+				episodes,
+				exportOptions.format,
+				exportOptions.outPath,
+			);
+			console.log(
+				brand.success(
+					`📤 Exported ${episodes.length} episodes as ${exportOptions.format} to: ${exportOptions.outPath}`,
+				),
+			);
+		}
 
 		// Data quality check with themed table
 		console.log(brand.highlight('\n🔍 Data Quality Analysis:'));
@@ -106,7 +303,7 @@ async function main(): Promise<void> {
 		).length;
 
 		// Quality check table with brand theme
-		const qualityTable = new Table({
+		const qualityTable = createTable({
 			head: [
 				brand.highlight('Data Quality Metric'),
 				brand.highlight('Count'),
@@ -156,7 +353,7 @@ async function main(): Promise<void> {
 		console.log(qualityTable.toString());
 
 		// Summary statistics table
-		const summaryTable = new Table({
+		const summaryTable = createTable({
 			head: [
 				brand.highlight('Summary Statistics'),
 				brand.highlight('Value'),
@@ -208,43 +405,41 @@ async function main(): Promise<void> {
 
 		console.log('\n' + summaryTable.toString());
 
-		// Success animation
-		try {
-			// Display the Hot Ones banner first
-			console.log(
-				brand.success('\n🎉 Scraping completed successfully! 🎉'),
-			);
+		console.log(brand.success('\n🎉 Scraping completed successfully! 🎉'));
 
-			const banner = await ASCIIArt.getHotOnesBanner();
-			console.log(banner);
+		// Success animation; ASCII-art banners mean nothing to a screen
+		// reader or a log file
+		if (animation) {
+			try {
+				// Display the Hot Ones banner first
+				const banner = await ASCIIArt.getHotOnesBanner();
+				console.log(banner);
 
-			// Add animated rainbow effect if available
-			if (
-				chalkAnimation &&
-				typeof chalkAnimation.rainbow === 'function'
-			) {
-				successAnimation = chalkAnimation.rainbow(
-					'🔥 CHALLENGE COMPLETED! DATA SCRAPED! 🔥',
+				// Add animated rainbow effect if available
+				if (
+					chalkAnimation &&
+					typeof chalkAnimation.rainbow === 'function'
+				) {
+					successAnimation = chalkAnimation.rainbow(
+						'🔥 CHALLENGE COMPLETED! DATA SCRAPED! 🔥',
+					);
+					await new Promise((resolve) => setTimeout(resolve, 2000));
+					successAnimation.stop();
+				}
+
+				// Show victory banner
+				console.log(ASCIIArt.getVictoryBanner());
+			} catch (animationError) {
+				// Fallback if figlet or animation fails
+				console.log(ASCIIArt.getSimpleBanner());
+				console.log(ASCIIArt.getVictoryBanner());
+				console.log(
+					brand.dim(
+						'(Figlet/animation error:',
+						String(animationError) + ')',
+					),
 				);
-				await new Promise((resolve) => setTimeout(resolve, 2000));
-				successAnimation.stop();
 			}
-
-			// Show victory banner
-			console.log(ASCIIArt.getVictoryBanner());
-		} catch (animationError) {
-			// Fallback if figlet or animation fails
-			console.log(
-				brand.success('\n🎉 Scraping completed successfully! 🎉'),
-			);
-			console.log(ASCIIArt.getSimpleBanner());
-			console.log(ASCIIArt.getVictoryBanner());
-			console.log(
-				brand.dim(
-					'(Figlet/animation error:',
-					String(animationError) + ')',
-				),
-			);
 		}
 
 		console.log(brand.success('\n✅ All done! Ready to use with the CLI.'));
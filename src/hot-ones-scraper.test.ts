@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HotOnesScraper } from './hot-ones-scraper';
+import { HttpClient } from './http-client';
+import { HotOnesEpisodeDetails } from './types';
+import { silentLogger } from './__fixtures__/logger';
+
+const fixturePath = (name: string) =>
+	path.join(__dirname, '__fixtures__', name);
+
+// Fails the test if the scraper tries to go online
+class OfflineHttpClient extends HttpClient {
+	async getText(url: string): Promise<never> {
+		throw new Error(`Unexpected request to ${url}`);
+	}
+}
+
+describe('HotOnesScraper offline mode', () => {
+	it('scrapes raw HTML without fetching', async () => {
+		const scraper = new HotOnesScraper({
+			html: fs.readFileSync(
+				fixturePath('thetvdb-allseasons.html'),
+				'utf-8',
+			),
+			http: new OfflineHttpClient(),
+			logger: silentLogger(),
+		});
+
+		const episodes = await scraper.scrapeAllEpisodes();
+		expect(episodes).toHaveLength(4);
+		expect(episodes[2].title).toBe(
+			"Conan O'Brien Needs a Doctor While Eating Spicy Wings",
+		);
+	});
+
+	it('scrapes a saved HTML file without fetching', async () => {
+		const scraper = new HotOnesScraper({
+			htmlPath: fixturePath('thetvdb-allseasons-edge-cases.html'),
+			http: new OfflineHttpClient(),
+			logger: silentLogger(),
+		});
+
+		const episodes = await scraper.fetchEpisodes();
+		expect(episodes.map((episode) => episode.season_number)).toEqual([
+			0, 2, 2,
+		]);
+	});
+
+	it('keeps a deep scrape of a saved page offline', async () => {
+		const http = new OfflineHttpClient();
+		const getText = jest.spyOn(http, 'getText');
+		const scraper = new HotOnesScraper({
+			htmlPath: fixturePath('thetvdb-allseasons.html'),
+			deep: true,
+			http,
+			logger: silentLogger(),
+		});
+
+		const [episode] =
+			(await scraper.fetchEpisodes()) as HotOnesEpisodeDetails[];
+		expect(getText).not.toHaveBeenCalled();
+		expect(scraper.name).toBe('file');
+		expect(episode).toMatchObject({
+			tvdb_id: null,
+			tvdb_url: 'https://thetvdb.com/series/hot-ones/episodes/5203425',
+			overview: '',
+		});
+	});
+});
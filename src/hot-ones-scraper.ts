@@ -1,380 +1,254 @@
-import { JSDOM } from 'jsdom';
-import { HotOnesEpisode, EpisodeTag, PROFESSION_TAXONOMY } from './types';
-import chalk from 'chalk';
-
-// Brand colors
-const colors = {
-	black: '#000000',
-	white: '#FFFFFF',
-	yellow: '#FED204',
-	red: '#DA1F27',
-};
-
-// Styled chalk functions
-const brand = {
-	title: chalk.hex(colors.red).bold,
-	highlight: chalk.hex(colors.yellow).bold,
-	success: chalk.hex(colors.yellow),
-	error: chalk.hex(colors.red),
-	info: chalk.hex(colors.white),
-	dim: chalk.hex(colors.white).dim,
-};
-
-export class HotOnesScraper {
-	private baseURL = 'https://thetvdb.com/series/hot-ones/allseasons/official';
+import {
+	EpisodeSource,
+	HotOnesEpisode,
+	HotOnesEpisodeDetails,
+	ScrapeLogger,
+} from './types';
+import {
+	EpisodeEntry,
+	parseEpisodeListing,
+	TVDB_LISTING_URL,
+} from './tvdb-parser';
+import { categorizeProfession } from './tagging';
+import { mergeEpisodeDetails, parseEpisodeDetails } from './episode-details';
+import { mapWithConcurrency } from './concurrency';
+import { FileResponseCache, HttpClient } from './http-client';
+import { brand } from './theme';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+// ETag/Last-Modified validators and page bodies for conditional requests
+export const DEFAULT_HTTP_CACHE_DIR = path.join(
+	process.cwd(),
+	'.cache',
+	'http',
+);
+
+export interface DeepScrapeOptions {
+	// Episode pages fetched in parallel
+	concurrency?: number;
+	// Minimum delay between episode page requests, in milliseconds
+	delayMs?: number;
+}
 
-	async scrapeAllEpisodes(): Promise<HotOnesEpisode[]> {
-		// Add cache-busting parameter
-		const cacheBustingUrl = `${this.baseURL}?t=${Date.now()}`;
-		console.log(brand.info(`🕷️  Connecting to: ${this.baseURL}`));
+export interface HotOnesScraperOptions {
+	// Follow every episode link when used as an EpisodeSource
+	deep?: boolean;
+	http?: HttpClient;
+	// Parse this listing HTML (or saved file) instead of fetching TheTVDB
+	html?: string;
+	htmlPath?: string;
+	// Progress and warnings, console by default
+	logger?: ScrapeLogger;
+}
 
-		try {
-			console.log(brand.highlight('📡 Fetching page data...'));
-			const controller = new AbortController();
-			const timeoutId = setTimeout(() => controller.abort(), 15000);
-
-			const response = await fetch(this.baseURL, {
-				signal: controller.signal,
-				headers: {
-					'User-Agent':
-						'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36',
-					'Cache-Control': 'no-cache',
-					Pragma: 'no-cache',
-					Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-					'Accept-Language': 'en-US,en;q=0.5',
-					'Accept-Encoding': 'gzip, deflate, br',
-					DNT: '1',
-					Connection: 'keep-alive',
-					'Upgrade-Insecure-Requests': '1',
-				},
+export class HotOnesScraper implements EpisodeSource {
+	private baseURL = TVDB_LISTING_URL;
+
+	private http: HttpClient;
+	private logger: ScrapeLogger;
+
+	constructor(private options: HotOnesScraperOptions = {}) {
+		this.logger = options.logger ?? console;
+		this.http =
+			options.http ??
+			new HttpClient({
+				cache: new FileResponseCache(DEFAULT_HTTP_CACHE_DIR),
 			});
+	}
 
-			clearTimeout(timeoutId);
+	// Replaying saved HTML is the "file" source; it never goes online
+	get name(): string {
+		return this.offline ? 'file' : 'tvdb';
+	}
 
-			if (!response.ok) {
-				throw new Error(
-					`HTTP ${response.status}: ${response.statusText}`,
-				);
-			}
+	get url(): string {
+		const { htmlPath } = this.options;
+		return htmlPath
+			? pathToFileURL(path.resolve(htmlPath)).href
+			: this.baseURL;
+	}
 
-			console.log(brand.success('✅ Page fetched successfully'));
-			const html = await response.text();
-			console.log(
-				brand.dim(
-					`📄 HTML parsed (${html.length.toLocaleString()} characters)`,
-				),
-			);
+	private get offline(): boolean {
+		return this.options.html !== undefined || !!this.options.htmlPath;
+	}
 
-			const dom = new JSDOM(html);
-			const document = dom.window.document;
+	fetchEpisodes(): Promise<HotOnesEpisode[]> {
+		return this.options.deep
+			? this.scrapeEpisodeDetails()
+			: this.scrapeAllEpisodes();
+	}
 
-			console.log(brand.highlight('🔍 Extracting episode data...'));
-			const episodes = this.extractEpisodes(document);
+	async scrapeAllEpisodes(): Promise<HotOnesEpisode[]> {
+		const entries = await this.scrapeEpisodeEntries();
+		return entries.map(({ episode }) => episode);
+	}
 
-			console.log(
-				brand.success(
-					`🎯 Successfully extracted ${episodes.length} episodes`,
+	async scrapeEpisodeDetails(
+		options: DeepScrapeOptions = {},
+	): Promise<HotOnesEpisodeDetails[]> {
+		const { concurrency = 3, delayMs = 500 } = options;
+		const entries = await this.scrapeEpisodeEntries();
+		let completed = 0;
+
+		if (this.offline) {
+			this.logger.log(
+				brand.info(
+					'📂 Offline mode: episode pages are not fetched, keeping listing data',
 				),
 			);
-
-			return episodes;
-		} catch (error) {
-			console.error(
-				brand.error('❌ Error scraping Hot Ones episodes:'),
-				error,
+			return entries.map(({ episode, url }) =>
+				withoutDetails(episode, url),
 			);
-			throw error;
 		}
-	}
 
-	private extractEpisodes(document: Document): HotOnesEpisode[] {
-		const episodes: HotOnesEpisode[] = [];
-
-		console.log('🔍 Looking for season containers...');
-		// Find all season containers
-		const seasonHeaders = document.querySelectorAll(
-			'h3 a[href*="/seasons/official/"]',
+		this.logger.log(
+			brand.highlight(
+				`🔎 Deep scraping ${entries.length} episode pages (${concurrency} at a time)...`,
+			),
 		);
-		console.log(`Found ${seasonHeaders.length} seasons`);
-
-		console.log(`📺 Parsing through Seasons`);
-		for (const seasonHeader of seasonHeaders) {
-			const seasonText = seasonHeader.textContent?.trim() || '';
-			const seasonMatch = seasonText.match(/Season (\d+)/);
-			const seasonNumber = seasonMatch ? parseInt(seasonMatch[1], 10) : 0;
-
-			// console.log(`📺 Processing Season ${seasonNumber}...`);  // Show how many seasons found
-
-			// Find the episode list for this season
-			const seasonContainer =
-				seasonHeader.closest('h3')?.nextElementSibling;
-			if (seasonContainer?.classList.contains('list-group')) {
-				const episodeItems =
-					seasonContainer.querySelectorAll('.list-group-item');
-				// console.log(`  Found ${episodeItems.length} episodes in Season ${seasonNumber}`); // Show how many episodes in this season found
-
-				for (const episodeItem of episodeItems) {
-					const episode = this.extractEpisodeFromItem(
-						episodeItem as Element,
-						seasonNumber,
+
+		const detailed = await mapWithConcurrency(
+			entries,
+			async ({ episode, url }) => {
+				const merged = await this.scrapeEpisodePage(episode, url);
+				completed++;
+				if (completed % 25 === 0 || completed === entries.length) {
+					this.logger.log(
+						brand.dim(
+							`   ${completed}/${entries.length} episode pages processed`,
+						),
 					);
-					if (episode) {
-						episodes.push(episode);
-					}
 				}
-			} else {
-				console.warn(
-					`  No episode list found for Season ${seasonNumber}`,
-				);
-			}
-		}
+				return merged;
+			},
+			{ concurrency, delayMs },
+		);
 
-		console.log(`✅ Extracted ${episodes.length} total episodes`);
-		return episodes;
+		this.logger.log(
+			brand.success(
+				`🎯 Deep scraped ${
+					detailed.filter((episode) => episode.tvdb_id !== null)
+						.length
+				} of ${detailed.length} episodes`,
+			),
+		);
+
+		return detailed;
 	}
 
-	private extractEpisodeFromItem(
-		episodeItem: Element,
-		seasonNumber: number,
-	): HotOnesEpisode | null {
+	private async scrapeEpisodeEntries(): Promise<EpisodeEntry[]> {
 		try {
-			// Extract episode number from span with class "episode-label"
-			const episodeLabel =
-				episodeItem
-					.querySelector('.episode-label')
-					?.textContent?.trim() || '';
-			const episodeMatch = episodeLabel.match(/S\d+E(\d+)/);
-			const episodeNumber = episodeMatch
-				? parseInt(episodeMatch[1], 10)
-				: 0;
-
-			// Extract title from the episode link
-			const titleElement = episodeItem.querySelector(
-				'h4.list-group-item-heading a',
+			const html = await this.loadListingHtml();
+			this.logger.log(
+				brand.dim(
+					`📄 HTML parsed (${html.length.toLocaleString()} characters)`,
+				),
 			);
-			const title = titleElement?.textContent?.trim() || '';
-
-			// Extract air date from list-inline items
-			const dateElements =
-				episodeItem.querySelectorAll('.list-inline li');
-			let airDate = '';
-			for (const dateElement of dateElements) {
-				const text = dateElement.textContent?.trim() || '';
-				// Look for date pattern (Month Day, Year)
-				if (/^[A-Za-z]+ \d{1,2}, \d{4}$/.test(text)) {
-					airDate = this.parseAirDate(text);
-					break;
-				}
-			}
 
-			// Extract description from the episode text
-			const descriptionElement = episodeItem.querySelector(
-				'.list-group-item-text p',
+			this.logger.log(brand.highlight('🔍 Extracting episode data...'));
+			const entries = parseEpisodeListing(
+				html,
+				this.baseURL,
+				this.logger,
 			);
-			const description = descriptionElement?.textContent?.trim() || '';
-
-			// Generate tags based on title and description
-			const tags = this.categorizeProfession(title, description);
-
-			if (!title) {
-				console.warn(
-					`Skipping episode with missing title in season ${seasonNumber}`,
-				);
-				return null;
-			}
-
-			return {
-				season_number: seasonNumber,
-				episode_number: episodeNumber,
-				title,
-				air_date: airDate,
-				description,
-				tags,
-			};
-		} catch (error) {
-			console.error('Error extracting episode data:', error);
-			return null;
-		}
-	}
 
-	private parseAirDate(dateString: string): string {
-		try {
-			const date = new Date(dateString);
-			return date.toISOString().split('T')[0]; // YYYY-MM-DD format
+			this.logger.log(
+				brand.success(
+					`🎯 Successfully extracted ${entries.length} episodes`,
+				),
+			);
+
+			return entries;
 		} catch (error) {
-			console.warn(`Failed to parse date: ${dateString}`);
-			return dateString; // Return original if parsing fails
+			this.logger.error(
+				brand.error('❌ Error scraping Hot Ones episodes:'),
+				error,
+			);
+			throw error;
 		}
 	}
 
-	private categorizeProfession(
-		title: string,
-		description: string,
-	): EpisodeTag[] {
-		const combinedText = `${title} ${description}`.toLowerCase();
-		const tags: EpisodeTag[] = [];
-
-		// Keywords for each category
-		const categoryKeywords = {
-			'Movie/TV': [
-				'actor',
-				'actress',
-				'acting',
-				'film',
-				'movie',
-				'director',
-				'producer',
-				'television',
-				'tv show',
-				'series',
-				'hollywood',
-				'cinema',
-				'screenwriter',
-			],
-			Music: [
-				'singer',
-				'rapper',
-				'musician',
-				'album',
-				'song',
-				'music',
-				'band',
-				'artist',
-				'grammy',
-				'billboard',
-				'record',
-				'songwriter',
-				'dj',
-			],
-			Comedy: [
-				'comedian',
-				'comedy',
-				'stand-up',
-				'standup',
-				'sketch',
-				'funny',
-				'humor',
-				'snl',
-				'saturday night live',
-				'comic',
-			],
-			Sports: [
-				'player',
-				'athlete',
-				'sports',
-				'basketball',
-				'football',
-				'baseball',
-				'soccer',
-				'tennis',
-				'olympics',
-				'nba',
-				'nfl',
-				'mlb',
-				'championship',
-			],
-			'Food/Culinary': [
-				'chef',
-				'cook',
-				'restaurant',
-				'culinary',
-				'food',
-				'kitchen',
-				'cuisine',
-				'michelin',
-				'cookbook',
-			],
-			'Internet/Social Media': [
-				'youtuber',
-				'youtube',
-				'tiktoker',
-				'tiktok',
-				'streamer',
-				'twitch',
-				'influencer',
-				'social media',
-				'viral',
-				'content creator',
-			],
-		};
-
-		// Check each category
-		for (const [category, keywords] of Object.entries(categoryKeywords)) {
-			const matchedKeywords = keywords.filter((keyword) =>
-				combinedText.includes(keyword),
-			);
+	private async loadListingHtml(): Promise<string> {
+		const { html, htmlPath } = this.options;
 
-			if (matchedKeywords.length > 0) {
-				// Determine sub-categories based on matched keywords
-				const subCategories = this.determineSubCategories(
-					category,
-					matchedKeywords,
-					combinedText,
-				);
-
-				tags.push({
-					category,
-					sub_categories: subCategories,
-				});
-			}
+		if (html !== undefined) {
+			this.logger.log(
+				brand.info('📄 Using provided HTML (offline mode)'),
+			);
+			return html;
 		}
 
-		// If no categories matched, use "Other"
-		if (tags.length === 0) {
-			tags.push({
-				category: 'Other',
-				sub_categories: ['Unknown'],
-			});
+		if (htmlPath) {
+			this.logger.log(brand.info(`📂 Reading saved page: ${htmlPath}`));
+			return fs.promises.readFile(htmlPath, 'utf-8');
 		}
 
-		return tags;
+		this.logger.log(brand.info(`🕷️  Connecting to: ${this.baseURL}`));
+		this.logger.log(brand.highlight('📡 Fetching page data...'));
+
+		// Conditional request: TheTVDB answers 304 if nothing changed
+		const { body, notModified } = await this.http.getText(this.baseURL);
+
+		this.logger.log(
+			notModified
+				? brand.success(
+						'✅ Page unchanged since last scrape, using cached copy',
+				  )
+				: brand.success('✅ Page fetched successfully'),
+		);
+		return body;
 	}
 
-	private determineSubCategories(
-		category: string,
-		matchedKeywords: string[],
-		text: string,
-	): string[] {
-		const subCategories: string[] = [];
-		const taxonomySubCategories = PROFESSION_TAXONOMY[category] || [];
-
-		// More specific keyword matching for sub-categories
-		const subCategoryKeywords = {
-			Actor: ['actor', 'acting'],
-			Actress: ['actress'],
-			Director: ['director', 'directing'],
-			Producer: ['producer', 'producing'],
-			Rapper: ['rapper', 'rap', 'hip hop', 'hip-hop'],
-			Singer: ['singer', 'singing', 'vocalist'],
-			Musician: ['musician', 'music'],
-			'Stand-up Comedian': ['stand-up', 'standup'],
-			'Basketball Player': ['basketball', 'nba'],
-			'Football Player': ['football', 'nfl'],
-			Chef: ['chef', 'cook'],
-			YouTuber: ['youtube', 'youtuber'],
-			TikToker: ['tiktok', 'tiktoker'],
-			Streamer: ['streamer', 'twitch'],
-		};
-
-		// Check for specific sub-category matches
-		for (const [subCategory, keywords] of Object.entries(
-			subCategoryKeywords,
-		)) {
-			if (taxonomySubCategories.includes(subCategory)) {
-				const hasMatch = keywords.some((keyword) =>
-					text.includes(keyword),
-				);
-				if (hasMatch) {
-					subCategories.push(subCategory);
-				}
-			}
-		}
+	private async scrapeEpisodePage(
+		episode: HotOnesEpisode,
+		url: string | null,
+	): Promise<HotOnesEpisodeDetails> {
+		const fallback = withoutDetails(episode, url);
 
-		// If no specific sub-categories found, use generic ones from taxonomy
-		if (subCategories.length === 0 && taxonomySubCategories.length > 0) {
-			subCategories.push(taxonomySubCategories[0]);
+		if (!url) {
+			return fallback;
 		}
 
-		return subCategories;
+		try {
+			const { body: html } = await this.http.getText(url);
+			const merged = mergeEpisodeDetails(
+				episode,
+				parseEpisodeDetails(html, url),
+			);
+
+			// Re-tag with the full overview now that we have it
+			merged.tags = categorizeProfession(
+				merged.title,
+				merged.description,
+			);
+			return merged;
+		} catch (error) {
+			// One missing page shouldn't sink the whole deep scrape
+			this.logger.warn(
+				brand.error(
+					`⚠️  Could not fetch S${episode.season_number}E${episode.episode_number} details:`,
+				),
+				error instanceof Error ? error.message : error,
+			);
+			return fallback;
+		}
 	}
 }
+
+// An episode whose page couldn't be (or wasn't) fetched
+function withoutDetails(
+	episode: HotOnesEpisode,
+	url: string | null,
+): HotOnesEpisodeDetails {
+	return mergeEpisodeDetails(episode, {
+		tvdb_id: null,
+		tvdb_url: url || '',
+		overview: '',
+		runtime_minutes: null,
+		guest_stars: [],
+		imdb_id: null,
+		youtube_id: null,
+	});
+}
@@ -0,0 +1,189 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+	DEFAULT_USER_AGENT,
+	HttpClient,
+	HttpError,
+	MemoryResponseCache,
+	parseRetryAfter,
+} from './http-client';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+// Local stub server: each request is answered by the next queued handler
+function startStubServer(handlers: Handler[]) {
+	const requests: http.IncomingMessage[] = [];
+	const server = http.createServer((req, res) => {
+		requests.push(req);
+		const handler =
+			handlers[Math.min(requests.length, handlers.length) - 1];
+		handler(req, res);
+	});
+
+	return new Promise<{
+		url: string;
+		requests: http.IncomingMessage[];
+		close: () => Promise<void>;
+	}>((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({
+				url: `http://127.0.0.1:${port}/series/hot-ones`,
+				requests,
+				close: () => new Promise((done) => server.close(() => done())),
+			});
+		});
+	});
+}
+
+const respond =
+	(status: number, body = '', headers: http.OutgoingHttpHeaders = {}) =>
+	(_req: http.IncomingMessage, res: http.ServerResponse) => {
+		res.writeHead(status, headers);
+		res.end(body);
+	};
+
+describe('HttpClient', () => {
+	it('sends an identifying User-Agent', async () => {
+		const stub = await startStubServer([respond(200, 'ok')]);
+		try {
+			await new HttpClient().getText(stub.url);
+			expect(stub.requests[0].headers['user-agent']).toBe(
+				DEFAULT_USER_AGENT,
+			);
+
+			await new HttpClient({ userAgent: 'my-bot/2.0' }).getText(stub.url);
+			expect(stub.requests[1].headers['user-agent']).toBe('my-bot/2.0');
+		} finally {
+			await stub.close();
+		}
+	});
+
+	it('retries 429 and 5xx responses with backoff', async () => {
+		const stub = await startStubServer([
+			respond(503),
+			respond(429),
+			respond(200, '<html>episodes</html>'),
+		]);
+		try {
+			const response = await new HttpClient({
+				retries: 3,
+				baseDelayMs: 5,
+			}).getText(stub.url);
+
+			expect(response.body).toBe('<html>episodes</html>');
+			expect(stub.requests).toHaveLength(3);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	it('gives up after the configured number of retries', async () => {
+		const stub = await startStubServer([respond(500)]);
+		try {
+			const client = new HttpClient({ retries: 2, baseDelayMs: 1 });
+			await expect(client.getText(stub.url)).rejects.toBeInstanceOf(
+				HttpError,
+			);
+			expect(stub.requests).toHaveLength(3);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	it('times out and retries a body that stalls halfway', async () => {
+		const stalled: http.ServerResponse[] = [];
+		const stub = await startStubServer([
+			(_req, res) => {
+				res.writeHead(200);
+				res.write('<html>');
+				stalled.push(res);
+			},
+			respond(200, '<html></html>'),
+		]);
+		try {
+			const client = new HttpClient({
+				timeoutMs: 100,
+				retries: 1,
+				baseDelayMs: 1,
+			});
+			await expect(client.getText(stub.url)).resolves.toMatchObject({
+				body: '<html></html>',
+			});
+			expect(stub.requests).toHaveLength(2);
+		} finally {
+			stalled.forEach((res) => res.destroy());
+			await stub.close();
+		}
+	});
+
+	it('does not retry other client errors', async () => {
+		const stub = await startStubServer([respond(404)]);
+		try {
+			const client = new HttpClient({ retries: 3, baseDelayMs: 1 });
+			await expect(client.getText(stub.url)).rejects.toMatchObject({
+				status: 404,
+			});
+			expect(stub.requests).toHaveLength(1);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	it('waits for Retry-After before retrying', async () => {
+		const stub = await startStubServer([
+			respond(429, '', { 'Retry-After': '1' }),
+			respond(200, 'ok'),
+		]);
+		try {
+			const startedAt = Date.now();
+			await new HttpClient({ baseDelayMs: 1 }).getText(stub.url);
+			expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	it('uses ETag/Last-Modified and returns the cached body on 304', async () => {
+		const stub = await startStubServer([
+			respond(200, '<html>v1</html>', {
+				ETag: '"abc"',
+				'Last-Modified': 'Mon, 04 Aug 2025 10:00:00 GMT',
+			}),
+			(req, res) => {
+				const unchanged = req.headers['if-none-match'] === '"abc"';
+				res.writeHead(unchanged ? 304 : 200);
+				res.end(unchanged ? '' : '<html>v2</html>');
+			},
+		]);
+		try {
+			const client = new HttpClient({ cache: new MemoryResponseCache() });
+
+			const first = await client.getText(stub.url);
+			expect(first.notModified).toBe(false);
+
+			const second = await client.getText(stub.url);
+			expect(second).toEqual({
+				status: 304,
+				body: '<html>v1</html>',
+				notModified: true,
+			});
+			expect(stub.requests[1].headers['if-modified-since']).toBe(
+				'Mon, 04 Aug 2025 10:00:00 GMT',
+			);
+		} finally {
+			await stub.close();
+		}
+	});
+});
+
+describe('parseRetryAfter', () => {
+	it('accepts seconds and HTTP dates', () => {
+		expect(parseRetryAfter('2')).toBe(2000);
+		expect(parseRetryAfter(null)).toBeUndefined();
+		expect(parseRetryAfter('not a date')).toBeUndefined();
+
+		const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+		expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+	});
+});
@@ -0,0 +1,221 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_USER_AGENT =
+	'wing-scrape/1.0 (+https://github.com/code-qtzl/wing-scrape)';
+
+export interface CachedResponse {
+	body: string;
+	etag?: string;
+	lastModified?: string;
+}
+
+// Where validators (ETag/Last-Modified) and the matching body are kept
+export interface ResponseCache {
+	get(url: string): CachedResponse | undefined;
+	set(url: string, response: CachedResponse): void;
+}
+
+export class MemoryResponseCache implements ResponseCache {
+	private entries = new Map<string, CachedResponse>();
+
+	get(url: string): CachedResponse | undefined {
+		return this.entries.get(url);
+	}
+
+	set(url: string, response: CachedResponse): void {
+		this.entries.set(url, response);
+	}
+}
+
+// One JSON file per URL so conditional requests survive between runs
+export class FileResponseCache implements ResponseCache {
+	constructor(private directory: string) {}
+
+	get(url: string): CachedResponse | undefined {
+		try {
+			return JSON.parse(fs.readFileSync(this.pathFor(url), 'utf-8'));
+		} catch {
+			return undefined;
+		}
+	}
+
+	set(url: string, response: CachedResponse): void {
+		fs.mkdirSync(this.directory, { recursive: true });
+		fs.writeFileSync(this.pathFor(url), JSON.stringify(response));
+	}
+
+	private pathFor(url: string): string {
+		const hash = crypto.createHash('sha1').update(url).digest('hex');
+		return path.join(this.directory, `${hash}.json`);
+	}
+}
+
+export interface HttpClientOptions {
+	userAgent?: string;
+	// Per-attempt timeout
+	timeoutMs?: number;
+	// Extra attempts after the first one, for 429/5xx and network errors
+	retries?: number;
+	// First backoff delay, doubled on every retry
+	baseDelayMs?: number;
+	// Upper bound for any single wait, including Retry-After
+	maxDelayMs?: number;
+	cache?: ResponseCache;
+}
+
+export interface HttpResponse {
+	status: number;
+	body: string;
+	// True when the server answered 304 and the body came from the cache
+	notModified: boolean;
+}
+
+export class HttpError extends Error {
+	constructor(
+		public readonly status: number,
+		statusText: string,
+		public readonly url: string,
+	) {
+		super(`HTTP ${status}: ${statusText}`);
+		this.name = 'HttpError';
+	}
+}
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+export class HttpClient {
+	private userAgent: string;
+	private timeoutMs: number;
+	private retries: number;
+	private baseDelayMs: number;
+	private maxDelayMs: number;
+	private cache?: ResponseCache;
+
+	constructor(options: HttpClientOptions = {}) {
+		this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+		this.timeoutMs = options.timeoutMs ?? 15000;
+		this.retries = options.retries ?? 3;
+		this.baseDelayMs = options.baseDelayMs ?? 1000;
+		this.maxDelayMs = options.maxDelayMs ?? 30000;
+		this.cache = options.cache;
+	}
+
+	async getText(url: string): Promise<HttpResponse> {
+		const cached = this.cache?.get(url);
+
+		for (let attempt = 0; ; attempt++) {
+			const canRetry = attempt < this.retries;
+			let response: Response;
+			let body: string;
+
+			try {
+				({ response, body } = await this.request(url, cached));
+			} catch (error) {
+				// Timeouts (stalled bodies included) and connection resets are
+				// worth another try
+				if (!canRetry) {
+					throw error;
+				}
+				await sleep(this.backoffDelay(attempt));
+				continue;
+			}
+
+			if (response.status === 304 && cached) {
+				return { status: 304, body: cached.body, notModified: true };
+			}
+
+			if (isRetryableStatus(response.status) && canRetry) {
+				const retryAfter = parseRetryAfter(
+					response.headers.get('retry-after'),
+				);
+				await sleep(
+					Math.min(
+						retryAfter ?? this.backoffDelay(attempt),
+						this.maxDelayMs,
+					),
+				);
+				continue;
+			}
+
+			if (!response.ok) {
+				throw new HttpError(response.status, response.statusText, url);
+			}
+
+			const etag = response.headers.get('etag') ?? undefined;
+			const lastModified =
+				response.headers.get('last-modified') ?? undefined;
+			if (this.cache && (etag || lastModified)) {
+				this.cache.set(url, { body, etag, lastModified });
+			}
+
+			return { status: response.status, body, notModified: false };
+		}
+	}
+
+	// The timeout runs until the body has been read, so a server that stalls
+	// mid-body can't hang the scrape
+	private async request(
+		url: string,
+		cached: CachedResponse | undefined,
+	): Promise<{ response: Response; body: string }> {
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+		const headers: Record<string, string> = {
+			'User-Agent': this.userAgent,
+			Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+			'Accept-Language': 'en-US,en;q=0.5',
+		};
+		if (cached?.etag) {
+			headers['If-None-Match'] = cached.etag;
+		}
+		if (cached?.lastModified) {
+			headers['If-Modified-Since'] = cached.lastModified;
+		}
+
+		try {
+			const response = await fetch(url, {
+				signal: controller.signal,
+				headers,
+			});
+			if (!response.ok) {
+				// Error and 304 bodies are never used; cancelling frees the
+				// connection before a retry
+				await response.body?.cancel();
+				return { response, body: '' };
+			}
+			return { response, body: await response.text() };
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+
+	// Exponential backoff with "equal jitter": half fixed, half random
+	private backoffDelay(attempt: number): number {
+		const ceiling = Math.min(
+			this.maxDelayMs,
+			this.baseDelayMs * 2 ** attempt,
+		);
+		return ceiling / 2 + Math.random() * (ceiling / 2);
+	}
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
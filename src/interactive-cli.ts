@@ -1,38 +1,159 @@
-import { HotOnesScraper } from './hot-ones-scraper';
-import { HotOnesEpisode } from './types';
+import {
+	createEpisodeSources,
+	fetchFromSources,
+	parseSourceArgs,
+} from './episode-sources';
+import { HotOnesEpisode, SauceLineup } from './types';
+import {
+	createReport,
+	DEFAULT_REPORT_PATH,
+	formatIssues,
+	loadReport,
+	ReportValidationError,
+	saveReport,
+} from './report';
+import {
+	defaultExportPath,
+	EXPORT_FORMATS,
+	flattenTags,
+	isExportFormat,
+	writeExport,
+} from './exporters';
+import {
+	computeStats,
+	filterEpisodes,
+	listSeason,
+	numbered,
+	NumberedEpisode,
+	paginate,
+	resolveEpisode,
+} from './episode-queries';
+import {
+	DiscoveryError,
+	discoverEpisodes,
+	parseDiscoveryArgs,
+} from './discovery';
+import { explainSimilarity, SimilarityIndex } from './similarity';
+import { SearchIndex, SearchQueryError, SearchResult } from './search-index';
+import { bar, computeAnalytics, sparkline } from './analytics';
+import {
+	applyOverride,
+	applyOverridesFile,
+	DEFAULT_OVERRIDES_PATH,
+	editTag,
+	loadOverrides,
+	OverridesError,
+	pinTags,
+	saveOverrides,
+	setNote,
+	TagOverrides,
+} from './overrides';
+import { episodeKey } from './report-diff';
+import { describeEpisodeNumber, episodeCode } from './episode-numbering';
+import {
+	DEFAULT_USER_STATE_PATH,
+	describeEpisodeState,
+	emptyUserState,
+	getEpisodeState,
+	listFavorites,
+	listUnwatched,
+	loadUserState,
+	markWatched,
+	rateEpisode,
+	saveUserState,
+	setFavorite,
+	UserState,
+	UserStateError,
+} from './user-state';
+import {
+	countTaxonomy,
+	findTaxonomyNode,
+	formatTaxonomyPath,
+} from './taxonomy';
+import { describeGuestTags, GuestRegistry } from './guests';
+import {
+	emptySauceCatalog,
+	findLastDab,
+	findLineup,
+	findSauce,
+	formatScoville,
+	lineupForEpisode,
+	loadSauceCatalog,
+	SauceCatalog,
+	seasonHeat,
+} from './sauces';
+import {
+	EpisodeBrowser,
+	EpisodeDetail,
+	runEpisodeBrowser,
+	wrapText,
+} from './tui';
+import {
+	CompletionData,
+	completePrompt,
+	PromptCommand,
+	promptCommands,
+} from './prompt-commands';
+import {
+	attachReverseSearch,
+	DEFAULT_HISTORY_PATH,
+	HISTORY_SIZE,
+	loadHistory,
+	saveHistory,
+} from './command-history';
+import {
+	brand,
+	createTable,
+	detectPresentation,
+	getPresentation,
+	startSpinner,
+	usePresentation,
+} from './theme';
 import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
 import { exec } from 'child_process';
-import chalk from 'chalk';
-import Table from 'cli-table3';
-
-// Brand colors
-const colors = {
-	black: '#000000',
-	white: '#FFFFFF',
-	yellow: '#FED204',
-	red: '#DA1F27',
-};
-
-// Styled chalk functions
-const brand = {
-	title: chalk.hex(colors.red).bold,
-	highlight: chalk.hex(colors.yellow).bold,
-	success: chalk.hex(colors.yellow),
-	error: chalk.hex(colors.red),
-	info: chalk.hex(colors.white),
-	dim: chalk.hex(colors.white).dim,
-};
+
+const SEARCH_PAGE_SIZE = 10;
 
 export class HotOnesInteractiveCLI {
 	private episodes: HotOnesEpisode[] = [];
+	// As loaded, before the overrides file; "tag" edits re-derive from these
+	// so they match what the next start would show
+	private uncuratedEpisodes: HotOnesEpisode[] = [];
+	// Latest search/season listing, what the export command writes out
+	private lastResults: HotOnesEpisode[] = [];
+	private lastResultsName = '';
+	private searchIndex = new SearchIndex([]);
+	private searchResults: SearchResult[] = [];
+	private searchQuery = '';
+	private searchPage = 1;
+	// Watched/ratings/favorites, saved after every change
+	private userState: UserState = emptyUserState();
+	// Curated sauce lineups, empty until hot-ones-sauces.json exists
+	private sauceCatalog: SauceCatalog = emptySauceCatalog();
+	// Behind the help table and tab completion alike
+	private commands: PromptCommand[] = promptCommands(0);
+	private completionData: CompletionData = { seasons: [], guests: [] };
+	// Newest first, saved after every command
+	private history: string[];
 	private rl: readline.Interface;
 
-	constructor() {
+	// fullScreen swaps the prompt for the keyboard-driven browser on a TTY
+	constructor(private fullScreen = false) {
+		this.history = this.loadCommandHistory();
 		this.rl = readline.createInterface({
 			input: process.stdin,
 			output: process.stdout,
+			completer: (line: string) =>
+				completePrompt(line, this.commands, this.completionData),
+			history: this.history,
+			historySize: HISTORY_SIZE,
+			removeHistoryDuplicates: true,
+		});
+		this.rl.on('history', (history) => {
+			this.history = history;
+			this.saveCommandHistory();
 		});
 	}
 
@@ -40,19 +161,37 @@ export class HotOnesInteractiveCLI {
 		console.log(brand.title('🔥 (Unofficial) Hot Ones Interactive CLI\n'));
 
 		// Check if we have cached episodes
-		const cachePath = path.join(process.cwd(), 'hot-ones-report.json');
+		const cachePath = DEFAULT_REPORT_PATH;
 
 		if (fs.existsSync(cachePath)) {
 			console.log(brand.info('📂 Loading episodes from cache...'));
 			try {
-				const cachedData = fs.readFileSync(cachePath, 'utf-8');
-				this.episodes = JSON.parse(cachedData);
+				const { report, migrated } = loadReport(cachePath);
+				// Picks up edits made to the overrides file since the last scrape
+				this.uncuratedEpisodes = report.episodes;
+				this.episodes = this.applyCuration(report.episodes);
+				if (migrated) {
+					saveReport(report, cachePath);
+					console.log(
+						brand.dim(
+							`⬆️  Upgraded cache to report schema v${report.schema_version}`,
+						),
+					);
+				}
 				console.log(
 					brand.success(
 						`✅ Loaded ${this.episodes.length} episodes from cache\n`,
 					),
 				);
 			} catch (error) {
+				if (error instanceof ReportValidationError) {
+					console.log(
+						brand.error('⚠️  Cache file has malformed episodes:'),
+					);
+					formatIssues(error.issues).forEach((line) =>
+						console.log(brand.dim(`   ${line}`)),
+					);
+				}
 				console.log(
 					brand.error(
 						'⚠️  Cache file corrupted, scraping fresh data...',
@@ -71,53 +210,173 @@ export class HotOnesInteractiveCLI {
 			return;
 		}
 
+		// Built once so every search is a lookup, not a scan
+		this.searchIndex = new SearchIndex(this.episodes);
+		this.userState = this.loadWatchHistory();
+		this.sauceCatalog = this.loadSauceLineups();
+		this.commands = promptCommands(this.episodes.length);
+		this.completionData = {
+			seasons: [
+				...new Set(
+					this.episodes.map(({ season_number }) => season_number),
+				),
+			].sort((a, b) => a - b),
+			guests: new GuestRegistry(numbered(this.episodes)).guests.map(
+				({ name }) => name,
+			),
+		};
+
+		if (this.fullScreen) {
+			// It draws with box characters, so --plain gets the prompt too
+			if (
+				process.stdin.isTTY &&
+				process.stdout.isTTY &&
+				getPresentation().unicode
+			) {
+				await this.browse();
+				return;
+			}
+			console.log(
+				brand.dim(
+					'🖥️  Full-screen mode needs a Unicode terminal, using the prompt instead\n',
+				),
+			);
+		}
+
 		this.showWelcomeMessage();
 		this.startInteractiveSession();
 	}
 
+	private async browse(): Promise<void> {
+		// The browser reads keys itself; readline would echo them over it
+		this.close();
+		const browser = new EpisodeBrowser({
+			episodes: this.episodes,
+			searchIndex: this.searchIndex,
+			details: (entry) => this.episodeDetails(entry),
+			open: (episode) => {
+				const url = this.generateYouTubeSearchUrl(episode);
+				return new Promise((resolve) =>
+					exec(this.openCommand(url), (error) =>
+						resolve(
+							error
+								? `Could not open YouTube, search manually: ${url}`
+								: `Opened the YouTube search for ${episodeCode(
+										episode,
+								  )}`,
+						),
+					),
+				);
+			},
+		});
+		await runEpisodeBrowser(browser);
+		console.log(brand.success('👋 Thanks for stopping by! Stay spicy! 🌶️'));
+	}
+
 	private async scrapeEpisodes(): Promise<void> {
-		const scraper = new HotOnesScraper();
+		const sources = createEpisodeSources(
+			parseSourceArgs(process.argv.slice(2)),
+		);
 
 		// Add loading animation
-		const loadingChars = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
-		let i = 0;
-		const loadingInterval = setInterval(() => {
-			process.stdout.write(
-				`\r${brand.highlight(
-					loadingChars[i++ % loadingChars.length] +
-						' Scraping episodes...',
-				)}`,
-			);
-		}, 100);
+		const stopLoading = startSpinner('Scraping episodes...');
 
 		try {
-			this.episodes = await scraper.scrapeAllEpisodes();
-			clearInterval(loadingInterval);
-			process.stdout.write('\r' + ' '.repeat(50) + '\r'); // Clear loading line
+			const scraped = await fetchFromSources(sources);
+			stopLoading();
+			this.uncuratedEpisodes = scraped;
+			this.episodes = this.applyCuration(scraped);
 
 			// Save to cache
-			const cachePath = path.join(process.cwd(), 'hot-ones-report.json');
-			fs.writeFileSync(cachePath, JSON.stringify(this.episodes, null, 2));
+			const cachePath = DEFAULT_REPORT_PATH;
+			saveReport(createReport(this.episodes, sources[0].url), cachePath);
 			console.log(brand.success(`💾 Episodes cached to: ${cachePath}\n`));
 		} catch (error) {
-			clearInterval(loadingInterval);
-			process.stdout.write('\r' + ' '.repeat(50) + '\r'); // Clear loading line
+			stopLoading();
 			throw error;
 		}
 	}
 
+	// Re-applies hot-ones-overrides.json; a broken file is reported, not fatal
+	private applyCuration(episodes: HotOnesEpisode[]): HotOnesEpisode[] {
+		try {
+			const { episodes: curated, applied } = applyOverridesFile(episodes);
+			if (applied > 0) {
+				console.log(
+					brand.dim(`✍️  Applied ${applied} episode overrides`),
+				);
+			}
+			return curated;
+		} catch (error) {
+			console.log(
+				brand.error('⚠️  Overrides not applied:'),
+				error instanceof Error ? error.message : error,
+			);
+			return episodes;
+		}
+	}
+
+	// A broken state file is reported, and left alone until it's fixed
+	private loadWatchHistory(): UserState {
+		try {
+			return loadUserState();
+		} catch (error) {
+			console.log(
+				brand.error('⚠️  Watch history not loaded:'),
+				error instanceof Error ? error.message : error,
+			);
+			return emptyUserState();
+		}
+	}
+
+	private loadSauceLineups(): SauceCatalog {
+		try {
+			return loadSauceCatalog();
+		} catch (error) {
+			console.log(
+				brand.error('⚠️  Sauce lineups not loaded:'),
+				error instanceof Error ? error.message : error,
+			);
+			return emptySauceCatalog();
+		}
+	}
+
+	private loadCommandHistory(): string[] {
+		try {
+			return loadHistory();
+		} catch (error) {
+			console.log(
+				brand.error('⚠️  Command history not loaded:'),
+				error instanceof Error ? error.message : error,
+			);
+			return [];
+		}
+	}
+
+	// A history that can't be written shouldn't end the session
+	private saveCommandHistory(): void {
+		try {
+			saveHistory(this.history);
+		} catch (error) {
+			console.log(
+				brand.error(`⚠️  Could not save ${DEFAULT_HISTORY_PATH}:`),
+				error instanceof Error ? error.message : error,
+			);
+		}
+	}
+
 	private showWelcomeMessage(): void {
 		console.log(
 			brand.title('🌶️  Welcome to the (Unofficial) Hot Ones CLI! 🌶️'),
 		);
 		console.log(
 			brand.info(
-				`📺 ${this.episodes.length} episodes available (1-${this.episodes.length})`,
+				`📺 ${this.episodes.length} episodes available, e.g. S22E5, #433 or "show conan"`,
 			),
 		);
 
 		// Commands table
-		const commandsTable = new Table({
+		const commandsTable = createTable({
 			head: [
 				brand.highlight('Type Command'),
 				brand.highlight('What Command Does'),
@@ -127,27 +386,14 @@ export class HotOnesInteractiveCLI {
 				border: ['dim'],
 			},
 			colWidths: [20, 50],
+			wordWrap: true,
 		});
 
 		commandsTable.push(
-			[
-				brand.success(`1-${this.episodes.length}`),
-				brand.info(
-					'View episode details by number (with YouTube link)',
-				),
-			],
-			[brand.success('random, r'), brand.info('Show a random episode')],
-			[brand.success('stats, s'), brand.info('Show episode statistics')],
-			[
-				brand.success('search [term]'),
-				brand.info('Search episodes by title or guest name'),
-			],
-			[
-				brand.success('season [number]'),
-				brand.info('List all episodes from a specific season'),
-			],
-			[brand.success('help, h'), brand.info('Show this help message')],
-			[brand.success('quit, q'), brand.info('Exit the CLI')],
+			...this.commands.map(({ usage, description }) => [
+				brand.success(usage),
+				brand.info(description),
+			]),
 		);
 
 		console.log(brand.highlight('\n📋 Available Commands:'));
@@ -156,18 +402,41 @@ export class HotOnesInteractiveCLI {
 	}
 
 	private startInteractiveSession(): void {
+		if (process.stdin.isTTY) {
+			attachReverseSearch(
+				this.rl,
+				process.stdin,
+				() => this.history,
+				(match) =>
+					brand.dim('(reverse-i-search) ') +
+					(match === undefined
+						? brand.error('no match')
+						: brand.highlight(match)) +
+					brand.dim(' ← '),
+			);
+		}
 		this.promptUser();
 	}
 
 	private promptUser(): void {
 		this.rl.question(
-			brand.highlight('🍗 Enter command or episode number: '),
+			brand.highlight('🍗 Enter command or episode: '),
 			(input) => {
 				this.handleUserInput(input.trim());
 			},
 		);
 	}
 
+	// Async commands prompt again once they settle, even when they fail
+	private promptAfter(task: Promise<void>, failure: string): void {
+		task.catch((error) =>
+			console.log(
+				brand.error(failure),
+				error instanceof Error ? error.message : error,
+			),
+		).finally(() => this.promptUser());
+	}
+
 	private handleUserInput(input: string): void {
 		const lowerInput = input.toLowerCase();
 
@@ -191,12 +460,48 @@ export class HotOnesInteractiveCLI {
 			return;
 		}
 
-		// Handle random episode
-		if (lowerInput === 'random' || lowerInput === 'r') {
-			const randomIndex = Math.floor(
-				Math.random() * this.episodes.length,
+		// Handle random episode, optionally narrowed down
+		if (
+			lowerInput === 'random' ||
+			lowerInput === 'r' ||
+			lowerInput.startsWith('random ') ||
+			lowerInput.startsWith('r ')
+		) {
+			// Prompts once the pick is shown, not straight away as well
+			this.promptAfter(
+				this.discover(input.replace(/^\S+/, '').trim()),
+				'❌ Random pick failed:',
 			);
-			this.displayEpisode(randomIndex + 1).then(() => this.promptUser());
+			return;
+		}
+
+		// Handle watch history, ratings and favorites
+		if (/^(watch|rate|fav)\s/.test(lowerInput)) {
+			this.updateUserState(input);
+			this.promptUser();
+			return;
+		}
+		if (lowerInput === 'favorites' || lowerInput === 'unwatched') {
+			this.listByState(lowerInput);
+			this.promptUser();
+			return;
+		}
+
+		// Handle guest profiles
+		if (lowerInput === 'guests') {
+			this.showReturningGuests();
+			this.promptUser();
+			return;
+		}
+		if (lowerInput.startsWith('guest ')) {
+			this.showGuest(input.substring(6).trim());
+			this.promptUser();
+			return;
+		}
+
+		// Handle sauce lineups
+		if (lowerInput === 'sauces' || lowerInput.startsWith('sauces ')) {
+			this.showSauces(input.substring(6).trim());
 			this.promptUser();
 			return;
 		}
@@ -216,6 +521,13 @@ export class HotOnesInteractiveCLI {
 			return;
 		}
 
+		// Handle search paging
+		if (lowerInput === 'next' || lowerInput === 'prev') {
+			this.changeSearchPage(lowerInput === 'next' ? 1 : -1);
+			this.promptUser();
+			return;
+		}
+
 		// Handle season listing
 		if (lowerInput.startsWith('season ')) {
 			const seasonStr = input.substring(7).trim();
@@ -233,19 +545,64 @@ export class HotOnesInteractiveCLI {
 			return;
 		}
 
-		// Handle episode number
-		const episodeNumber = parseInt(input);
-		if (!isNaN(episodeNumber)) {
-			if (episodeNumber >= 1 && episodeNumber <= this.episodes.length) {
-				this.displayEpisode(episodeNumber).then(() =>
-					this.promptUser(),
+		// Handle taxonomy browsing
+		if (lowerInput === 'taxonomy' || lowerInput.startsWith('taxonomy ')) {
+			this.showTaxonomy(input.substring(8).trim());
+			this.promptUser();
+			return;
+		}
+
+		// Handle export of the last result set
+		if (lowerInput === 'export' || lowerInput.startsWith('export ')) {
+			const [format = 'csv', outPath] = input
+				.substring(6)
+				.trim()
+				.split(/\s+/)
+				.filter(Boolean);
+			this.promptAfter(
+				this.exportResults(format.toLowerCase(), outPath),
+				'❌ Export failed:',
+			);
+			return;
+		}
+
+		// Handle tag curation
+		if (lowerInput === 'tag' || lowerInput.startsWith('tag ')) {
+			this.curateEpisode(input.substring(3).trim());
+			this.promptUser();
+			return;
+		}
+
+		// Handle recommendations
+		if (lowerInput.startsWith('similar ')) {
+			this.showSimilar(input.substring(8).trim());
+			this.promptUser();
+			return;
+		}
+
+		// Handle show by guest, title or any episode reference
+		if (lowerInput.startsWith('show ')) {
+			const picked = this.findEpisode(input.substring(5).trim());
+			if (picked) {
+				this.promptAfter(
+					this.displayEpisode(picked),
+					'❌ Could not show the episode:',
 				);
-			} else {
-				console.log(
-					brand.error(
-						`❌ Episode number must be between 1 and ${this.episodes.length}`,
-					),
+				return;
+			}
+			this.promptUser();
+			return;
+		}
+
+		// Handle episode codes (S22E5), overall numbers (#433) and shortcuts
+		if (/^(s\d+\s*e\d+|\d+x\d+|#?\d+)$/i.test(input)) {
+			const picked = this.findEpisode(input);
+			if (picked) {
+				this.promptAfter(
+					this.displayEpisode(picked),
+					'❌ Could not show the episode:',
 				);
+				return;
 			}
 		} else {
 			console.log(
@@ -258,172 +615,497 @@ export class HotOnesInteractiveCLI {
 		this.promptUser();
 	}
 
-	private async displayEpisode(episodeNumber: number): Promise<void> {
-		const episode = this.episodes[episodeNumber - 1];
+	private async discover(filters: string): Promise<void> {
+		let options;
+		let result;
+		try {
+			options = parseDiscoveryArgs(filters.split(/\s+/));
+			result = discoverEpisodes(this.episodes, this.userState, options);
+		} catch (error) {
+			if (error instanceof DiscoveryError) {
+				console.log(brand.error(`❌ ${error.message}`));
+				return;
+			}
+			throw error;
+		}
+
+		if (result.picks.length === 0) {
+			console.log(brand.error(`❌ No episodes match "${filters}"`));
+			return;
+		}
+		const seedHint = options.seed
+			? ''
+			: brand.dim(
+					`   Add seed:${result.seed} to get the same picks again\n`,
+			  );
+
+		if (result.picks.length === 1 && !result.similarTo) {
+			console.log(seedHint);
+			await this.displayEpisode(result.picks[0]);
+			return;
+		}
 
-		// Create a more stylized header
-		console.log('\n' + brand.error('🔥'.repeat(20)));
-		console.log(brand.title(`🌶️  HOT ONES - EPISODE ${episodeNumber} 🌶️`));
-		console.log(brand.highlight(`🐔  ${episode.title.toUpperCase()}`));
+		this.lastResults = result.picks.map(({ episode }) => episode);
+		this.lastResultsName = 'random';
 
-		// Episode details table with enhanced styling
-		const detailsTable = new Table({
+		const picksTable = createTable({
+			head: [
+				brand.highlight('Episode'),
+				brand.highlight('Title'),
+				brand.highlight(result.similarTo ? 'In Common' : 'Air Date'),
+				brand.highlight('#'),
+			],
 			style: {
 				head: [],
-				border: ['red'],
-			},
-			chars: {
-				top: '═',
-				'top-mid': '╤',
-				'top-left': '╔',
-				'top-right': '╗',
-				bottom: '═',
-				'bottom-mid': '╧',
-				'bottom-left': '╚',
-				'bottom-right': '╝',
-				left: '║',
-				'left-mid': '',
-				mid: '',
-				'mid-mid': '',
-				right: '║',
-				'right-mid': '',
+				border: ['dim'],
 			},
-			colWidths: [20, 55],
+			colWidths: [10, 50, 30, 6],
+			wordWrap: true,
 		});
-
-		detailsTable.push(
-			[brand.highlight('Season'), brand.info(`${episode.season_number}`)],
-			[
-				brand.highlight('Episode'),
-				brand.info(`${episode.episode_number}`),
-			],
-			[brand.highlight('Air Date'), brand.success(`${episode.air_date}`)],
-			[
-				brand.highlight('Categories'),
-				brand.info(`${episode.tags.map((t) => t.category).join(', ')}`),
-			],
-		);
-
-		if (
-			episode.tags.length > 0 &&
-			episode.tags.flatMap((t) => t.sub_categories).length > 0
-		) {
-			detailsTable.push([
-				brand.highlight('Sub-categories'),
+		result.picks.forEach(({ episode, number, similarity }) => {
+			picksTable.push([
+				brand.success(episodeCode(episode)),
+				brand.info(episode.title),
 				brand.dim(
-					`${episode.tags
-						.flatMap((t) => t.sub_categories)
-						.join(', ')}`,
+					similarity
+						? explainSimilarity(similarity)
+						: episode.air_date,
 				),
+				brand.dim(number.toString()),
 			]);
-		}
+		});
 
-		// Add YouTube search functionality
-		detailsTable.push([
-			brand.highlight('YouTube Search'),
-			brand.info('🔍 Search Available'),
-		]);
+		console.log(
+			brand.highlight(
+				result.similarTo
+					? `\n🎯 Like ${episodeCode(result.similarTo.episode)} ${
+							result.similarTo.episode.title
+					  }:`
+					: `\n🎲 ${result.picks.length} of ${result.candidates} episodes:`,
+			),
+		);
+		console.log(picksTable.toString());
+		console.log(seedHint);
+	}
 
-		console.log(detailsTable.toString());
+	// watch <ep> [off], rate <ep> <1-5|clear>, fav <ep> [off]
+	private updateUserState(input: string): void {
+		const [command, ...args] = input.split(/\s+/);
+		const last = args[args.length - 1]?.toLowerCase();
+		const toggle = command.toLowerCase() !== 'rate';
+		const reference = (
+			toggle && last !== 'off' ? args : args.slice(0, -1)
+		).join(' ');
 
-		// Description section with better visual separation
-		if (episode.description && episode.description.trim() !== '') {
-			// console.log(brand.error('\n' + '🌶️ '.repeat(20)));
-			console.log(brand.highlight('📝 EPISODE DESCRIPTION'));
+		if (!reference || (!toggle && !/^([1-5]|clear)$/.test(last))) {
+			console.log(
+				brand.error(
+					'❌ Usage: watch [ep] [off], rate [ep] [1-5|clear], fav [ep] [off]',
+				),
+			);
+			return;
+		}
 
-			// Format description with better text wrapping
-			const maxWidth = 75;
-			const words = episode.description.split(' ');
-			let lines = [];
-			let currentLine = '';
-
-			words.forEach((word) => {
-				if ((currentLine + word).length <= maxWidth) {
-					currentLine += (currentLine ? ' ' : '') + word;
-				} else {
-					if (currentLine) lines.push(currentLine);
-					currentLine = word;
-				}
-			});
-			if (currentLine) lines.push(currentLine);
+		const picked = this.findEpisode(reference);
+		if (!picked) {
+			return;
+		}
 
-			lines.forEach((line) => {
-				console.log(brand.info(`   ${line}`));
-			});
+		const { episode } = picked;
+		let next: UserState;
+		if (command.toLowerCase() === 'watch') {
+			next = markWatched(this.userState, episode, last !== 'off');
+		} else if (command.toLowerCase() === 'fav') {
+			next = setFavorite(this.userState, episode, last !== 'off');
+		} else {
+			next = rateEpisode(
+				this.userState,
+				episode,
+				last === 'clear' ? null : Number(last),
+			);
 		}
 
-		// YouTube actions with enhanced styling - always show search
-		const youtubeSearchUrl = this.generateYouTubeSearchUrl(episode);
-		console.log(brand.title('🔍 YOUTUBE SEARCH FOR THIS EPISODE'));
-		console.log(brand.info(`🔗 ${youtubeSearchUrl}`));
-		console.log(
-			brand.dim(
-				"This will search YouTube for the specific episode you're viewing",
-			),
-		);
+		// Only keep the change once it's on disk, so memory and file agree
+		try {
+			saveUserState(next);
+		} catch (error) {
+			console.log(
+				brand.error(`❌ Could not save ${DEFAULT_USER_STATE_PATH}:`),
+				error instanceof Error ? error.message : error,
+			);
+			return;
+		}
+		this.userState = next;
 
 		console.log(
-			brand.highlight(
-				'🔥 Type [Y] and press Enter to open search, [C] to copy search link, or just press Enter to continue... 🔥',
+			brand.success(
+				`✅ ${episodeCode(episode)} ${
+					episode.title
+				}: ${describeEpisodeState(
+					getEpisodeState(this.userState, episode),
+				)}`,
 			),
 		);
-
-		// Handle user input for YouTube search actions
-		await this.handleYouTubeActions(youtubeSearchUrl);
-
-		console.log('\n' + brand.error('🔥'.repeat(20)) + '\n');
 	}
 
-	private showStats(): void {
-		const seasonCounts = this.episodes.reduce((acc, episode) => {
-			acc[episode.season_number] = (acc[episode.season_number] || 0) + 1;
-			return acc;
-		}, {} as Record<number, number>);
-
-		const categoryDistribution = this.episodes.reduce((acc, episode) => {
-			episode.tags.forEach((tag) => {
-				acc[tag.category] = (acc[tag.category] || 0) + 1;
-			});
-			return acc;
-		}, {} as Record<string, number>);
+	private listByState(which: 'favorites' | 'unwatched'): void {
+		const results =
+			which === 'favorites'
+				? listFavorites(this.episodes, this.userState)
+				: listUnwatched(this.episodes, this.userState);
 
-		console.log(brand.title('\n📊 Hot Ones Episode Statistics'));
-		console.log(brand.info(`Total Episodes: ${this.episodes.length}`));
-		console.log(
-			brand.info(`Total Seasons: ${Object.keys(seasonCounts).length}\n`),
-		);
+		this.lastResults = results.map(({ episode }) => episode);
+		this.lastResultsName = which;
 
-		// Season table
-		const seasonTable = new Table({
-			head: [brand.highlight('Season'), brand.highlight('Episodes')],
+		if (results.length === 0) {
+			console.log(
+				brand.dim(
+					which === 'favorites'
+						? '\nNo favorites yet. Add one with "fav [ep]".\n'
+						: '\n🏆 You have watched every episode!\n',
+				),
+			);
+			return;
+		}
+
+		const episodesTable = createTable({
+			head: [
+				brand.highlight('Episode'),
+				brand.highlight('Title'),
+				brand.highlight('Air Date'),
+				brand.highlight('#'),
+			],
 			style: {
 				head: [],
 				border: ['dim'],
-				'padding-left': 1,
-				'padding-right': 1,
-			},
-			chars: {
-				mid: '',
-				'left-mid': '',
-				'mid-mid': '',
-				'right-mid': '',
 			},
+			colWidths: [10, 50, 13, 6],
 		});
-
-		Object.entries(seasonCounts)
-			.sort(([a], [b]) => parseInt(a) - parseInt(b))
-			.forEach(([season, count]) => {
-				seasonTable.push([
-					brand.info(`${season}`),
-					brand.success(count.toString()),
-				]);
+		results.forEach(({ episode, number }) => {
+			episodesTable.push([
+				brand.success(episodeCode(episode)),
+				brand.info(
+					episode.title.length > 45
+						? episode.title.substring(0, 45) + '...'
+						: episode.title,
+				),
+				brand.dim(episode.air_date),
+				brand.dim(number.toString()),
+			]);
+		});
+		console.log(
+			brand.highlight(
+				which === 'favorites'
+					? `\n♥ Your favorites (${results.length}):`
+					: `\n📺 Episodes you haven't watched (${results.length}):`,
+			),
+		);
+		console.log(episodesTable.toString());
+		console.log('');
+	}
+
+	// Resolves a reference to one episode; ambiguous ones list the candidates
+	private showSimilar(reference: string): void {
+		const target = this.findEpisode(reference);
+		if (!target) {
+			return;
+		}
+
+		const similar = new SimilarityIndex(this.episodes).similarTo(
+			target.episode,
+			{ limit: 10 },
+		);
+		if (similar.length === 0) {
+			console.log(
+				brand.error(
+					`❌ No episodes share tags or words with ${episodeCode(
+						target.episode,
+					)}`,
+				),
+			);
+			return;
+		}
+
+		this.lastResults = similar.map(({ episode }) => episode);
+		this.lastResultsName = `similar-${episodeCode(target.episode)}`;
+
+		const similarTable = createTable({
+			head: [
+				brand.highlight('Episode'),
+				brand.highlight('Title'),
+				brand.highlight('Score'),
+				brand.highlight('Why'),
+				brand.highlight('#'),
+			],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+			colWidths: [10, 40, 16, 36, 6],
+			wordWrap: true,
+		});
+		similar.forEach((result) => {
+			const { text, tags, airDate } = result.breakdown;
+			similarTable.push([
+				brand.success(episodeCode(result.episode)),
+				brand.info(result.episode.title),
+				`${brand.success(result.score.toFixed(2))}\n${brand.dim(
+					`text ${text.toFixed(2)}\ntags ${tags.toFixed(
+						2,
+					)}\ndate ${airDate.toFixed(2)}`,
+				)}`,
+				brand.dim(explainSimilarity(result)),
+				brand.dim(result.number.toString()),
+			]);
+		});
+
+		console.log(
+			brand.highlight(
+				`\n🎯 Episodes like ${episodeCode(target.episode)} ${
+					target.episode.title
+				}:`,
+			),
+		);
+		console.log(similarTable.toString());
+		console.log(
+			brand.dim(
+				'   Type an episode code or the shortcut in the last column to open one\n',
+			),
+		);
+	}
+
+	private findEpisode(reference: string): NumberedEpisode | undefined {
+		const matches = resolveEpisode(this.episodes, reference);
+		if (matches.length === 1) {
+			return matches[0];
+		}
+
+		if (matches.length === 0) {
+			console.log(brand.error(`❌ No episode matches "${reference}"`));
+		} else {
+			console.log(
+				brand.highlight(
+					`\n🔍 ${matches.length} episodes match "${reference}", pick one by its code:`,
+				),
+			);
+			matches
+				.slice(0, 10)
+				.forEach(({ episode }) =>
+					console.log(
+						brand.info(
+							`   ${episodeCode(episode).padEnd(8)} ${
+								episode.title
+							}`,
+						),
+					),
+				);
+			console.log('');
+		}
+		return undefined;
+	}
+
+	private async displayEpisode({
+		episode,
+		number,
+	}: NumberedEpisode): Promise<void> {
+		// Create a more stylized header
+		console.log('\n' + brand.error('🔥'.repeat(20)));
+		console.log(brand.title(`🌶️  HOT ONES - ${episodeCode(episode)} 🌶️`));
+		console.log(brand.dim(`   Shortcut: ${number}`));
+		console.log(brand.highlight(`🐔  ${episode.title.toUpperCase()}`));
+
+		// Episode details table with enhanced styling
+		const detailsTable = createTable({
+			style: {
+				head: [],
+				border: ['red'],
+			},
+			chars: {
+				top: '═',
+				'top-mid': '╤',
+				'top-left': '╔',
+				'top-right': '╗',
+				bottom: '═',
+				'bottom-mid': '╧',
+				'bottom-left': '╚',
+				'bottom-right': '╝',
+				left: '║',
+				'left-mid': '',
+				mid: '',
+				'mid-mid': '',
+				right: '║',
+				'right-mid': '',
+			},
+			colWidths: [20, 55],
+		});
+
+		detailsTable.push(
+			...this.episodeDetails({ episode, number }).map(
+				({ label, value, tone }) => [
+					brand.highlight(label),
+					brand[tone](value),
+				],
+			),
+		);
+
+		// Add YouTube search functionality
+		detailsTable.push([
+			brand.highlight('YouTube Search'),
+			brand.info('🔍 Search Available'),
+		]);
+
+		console.log(detailsTable.toString());
+
+		// Description section with better visual separation
+		if (episode.description && episode.description.trim() !== '') {
+			// console.log(brand.error('\n' + '🌶️ '.repeat(20)));
+			console.log(brand.highlight('📝 EPISODE DESCRIPTION'));
+
+			// Format description with better text wrapping
+			wrapText(episode.description, 75).forEach((line) => {
+				console.log(brand.info(`   ${line}`));
+			});
+		}
+
+		// YouTube actions with enhanced styling - always show search
+		const youtubeSearchUrl = this.generateYouTubeSearchUrl(episode);
+		console.log(brand.title('🔍 YOUTUBE SEARCH FOR THIS EPISODE'));
+		console.log(brand.info(`🔗 ${youtubeSearchUrl}`));
+		console.log(
+			brand.dim(
+				"This will search YouTube for the specific episode you're viewing",
+			),
+		);
+
+		console.log(
+			brand.highlight(
+				'🔥 Type [Y] and press Enter to open search, [C] to copy search link, or just press Enter to continue... 🔥',
+			),
+		);
+
+		// Handle user input for YouTube search actions
+		await this.handleYouTubeActions(youtubeSearchUrl);
+
+		console.log('\n' + brand.error('🔥'.repeat(20)) + '\n');
+	}
+
+	// The rows of the details table, shared with the full-screen browser
+	private episodeDetails({ episode }: NumberedEpisode): EpisodeDetail[] {
+		const details: EpisodeDetail[] = [
+			{
+				label: 'Guests',
+				value:
+					episode.guests.length > 0
+						? episode.guests.join(', ')
+						: 'Hot Ones Special',
+				tone: 'info',
+			},
+			{
+				label: 'Season',
+				value: `${episode.season_number}`,
+				tone: 'info',
+			},
+			{
+				label: 'Episode',
+				value: describeEpisodeNumber(episode),
+				tone: 'info',
+			},
+			{
+				label: 'Air Date',
+				value: `${episode.air_date}`,
+				tone: 'success',
+			},
+			{
+				label: 'Categories',
+				value: `${episode.tags.map((t) => t.category).join(', ')}`,
+				tone: 'info',
+			},
+			{
+				label: 'You',
+				value: describeEpisodeState(
+					getEpisodeState(this.userState, episode),
+				),
+				tone: 'success',
+			},
+		];
+
+		const lineup = lineupForEpisode(this.sauceCatalog, episode);
+		if (lineup) {
+			const lastDab = findLastDab(lineup);
+			details.push({
+				label: 'Sauces',
+				value: `${lineup.sauces.length} wings up to ${formatScoville(
+					Math.max(...lineup.sauces.map(({ scoville }) => scoville)),
+				)}${lastDab ? `, ending on ${lastDab.name}` : ''}`,
+				tone: 'info',
+			});
+		}
+
+		if (episode.note) {
+			details.push({
+				label: 'Note',
+				value: episode.note,
+				tone: 'success',
+			});
+		}
+
+		if (episode.topics.length > 0) {
+			details.push({
+				label: 'Topics',
+				value: episode.topics.join(', '),
+				tone: 'dim',
+			});
+		}
+
+		const subCategories = episode.tags.flatMap((t) => t.sub_categories);
+		if (subCategories.length > 0) {
+			details.push({
+				label: 'Sub-categories',
+				value: subCategories.join(', '),
+				tone: 'dim',
 			});
+		}
+
+		return details;
+	}
+
+	private showStats(): void {
+		const stats = computeStats(this.episodes);
+
+		console.log(brand.title('\n📊 Hot Ones Episode Statistics'));
+		console.log(brand.info(`Total Episodes: ${stats.totalEpisodes}`));
+		console.log(brand.info(`Total Seasons: ${stats.totalSeasons}`));
+		console.log(brand.info(`Specials: ${stats.totalSpecials}\n`));
+
+		// Season table
+		const seasonTable = createTable({
+			head: [brand.highlight('Season'), brand.highlight('Episodes')],
+			style: {
+				head: [],
+				border: ['dim'],
+				'padding-left': 1,
+				'padding-right': 1,
+			},
+			chars: {
+				mid: '',
+				'left-mid': '',
+				'mid-mid': '',
+				'right-mid': '',
+			},
+		});
+
+		stats.episodesPerSeason.forEach(({ season, count }) => {
+			seasonTable.push([
+				brand.info(`${season}`),
+				brand.success(count.toString()),
+			]);
+		});
 
 		console.log(brand.highlight('🎬 Episodes per Season:'));
 		console.log(seasonTable.toString());
 
 		// Category table
-		const categoryTable = new Table({
+		const categoryTable = createTable({
 			head: [brand.highlight('Category'), brand.highlight('Episodes')],
 			style: {
 				head: [],
@@ -439,81 +1121,226 @@ export class HotOnesInteractiveCLI {
 			},
 		});
 
-		Object.entries(categoryDistribution)
-			.sort(([, a], [, b]) => b - a)
-			.slice(0, 10) // Show top 10 categories
-			.forEach(([category, count]) => {
-				categoryTable.push([
-					brand.info(category),
-					brand.success(count.toString()),
-				]);
-			});
+		// Top 10 categories
+		stats.topCategories.forEach(({ category, count }) => {
+			categoryTable.push([
+				brand.info(category),
+				brand.success(count.toString()),
+			]);
+		});
 
 		console.log(brand.highlight('\n🏷️  Top Categories:'));
 		console.log(categoryTable.toString());
+
+		// Guest table
+		const guestTable = createTable({
+			head: [brand.highlight('Guest'), brand.highlight('Episodes')],
+			style: {
+				head: [],
+				border: ['dim'],
+				'padding-left': 1,
+				'padding-right': 1,
+			},
+			chars: {
+				mid: '',
+				'left-mid': '',
+				'mid-mid': '',
+				'right-mid': '',
+			},
+		});
+
+		// Top 10 guests
+		stats.topGuests.forEach(({ guest, count }) => {
+			guestTable.push([
+				brand.info(guest),
+				brand.success(count.toString()),
+			]);
+		});
+
+		console.log(brand.info(`\nUnique Guests: ${stats.uniqueGuests}`));
+		console.log(brand.highlight('🐔 Most Frequent Guests:'));
+		console.log(guestTable.toString());
+
+		this.showTrends();
 		console.log('');
 	}
 
+	private showTrends(): void {
+		const analytics = computeAnalytics(this.episodes);
+		const { airDateGaps: gaps, cadence } = analytics;
+		const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+		if (gaps.longestHiatus) {
+			console.log(brand.highlight('\n⏱️  Air Date Gaps:'));
+			console.log(
+				brand.info(
+					`Average gap: ${gaps.averageDays} days (median ${gaps.medianDays})`,
+				),
+			);
+			console.log(
+				brand.info(
+					`Longest hiatus: ${gaps.longestHiatus.days} days, after "${gaps.longestHiatus.from.title}" (${gaps.longestHiatus.from.air_date})`,
+				),
+			);
+		}
+
+		// Weekday bars
+		const maxWeekday = Math.max(
+			...cadence.byWeekday.map(({ count }) => count),
+		);
+		console.log(brand.highlight('\n📅 Releases by Weekday:'));
+		cadence.byWeekday.forEach(({ label, count }) => {
+			console.log(
+				`  ${brand.info(label)} ${brand.success(
+					bar(count, maxWeekday).padEnd(30),
+				)} ${brand.dim(count.toString())}`,
+			);
+		});
+
+		// Month sparkline
+		console.log(brand.highlight('\n🗓️  Releases by Month (Jan-Dec):'));
+		console.log(
+			`  ${brand.success(
+				sparkline(cadence.byMonth.map(({ count }) => count)),
+			)} ${brand.dim(
+				cadence.byMonth
+					.map(({ label, count }) => `${label} ${count}`)
+					.join(', '),
+			)}`,
+		);
+
+		// Category share trends, one sparkline per category
+		const years = analytics.categoryMixByYear.map(({ period }) => period);
+		if (years.length === 0) {
+			return;
+		}
+		const trendTable = createTable({
+			head: [
+				brand.highlight('Category'),
+				brand.highlight(`${years[0]}-${years[years.length - 1]}`),
+				brand.highlight('Latest Share'),
+			],
+			style: {
+				head: [],
+				border: ['dim'],
+				'padding-left': 1,
+				'padding-right': 1,
+			},
+			chars: {
+				mid: '',
+				'left-mid': '',
+				'mid-mid': '',
+				'right-mid': '',
+			},
+		});
+		analytics.categoryTrends.slice(0, 6).forEach(({ category, shares }) => {
+			trendTable.push([
+				brand.info(category),
+				brand.success(sparkline(shares.map(({ share }) => share))),
+				brand.dim(percent(shares[shares.length - 1].share)),
+			]);
+		});
+		console.log(brand.highlight('\n📈 Category Share by Year:'));
+		console.log(trendTable.toString());
+	}
+
 	private searchEpisodes(searchTerm: string): void {
-		const results = this.episodes
-			.filter(
-				(episode, index) =>
-					episode.title
-						.toLowerCase()
-						.includes(searchTerm.toLowerCase()) ||
-					episode.description
-						.toLowerCase()
-						.includes(searchTerm.toLowerCase()),
-			)
-			.map((episode, _, array) => {
-				const originalIndex = this.episodes.indexOf(episode);
-				return { episode, number: originalIndex + 1 };
-			});
+		try {
+			this.searchResults = this.searchIndex.search(searchTerm);
+		} catch (error) {
+			if (error instanceof SearchQueryError) {
+				console.log(brand.error(`❌ ${error.message}\n`));
+				return;
+			}
+			throw error;
+		}
+
+		this.searchQuery = searchTerm;
+		this.searchPage = 1;
+		this.lastResults = this.searchResults.map(({ episode }) => episode);
+		this.lastResultsName = `search-${searchTerm}`;
+		this.showSearchPage();
+	}
+
+	private changeSearchPage(step: number): void {
+		if (!this.searchQuery) {
+			console.log(brand.error('❌ Search for something first.\n'));
+			return;
+		}
+
+		const pages = Math.max(
+			1,
+			Math.ceil(this.searchResults.length / SEARCH_PAGE_SIZE),
+		);
+		const page = this.searchPage + step;
+		if (page < 1 || page > pages) {
+			console.log(
+				brand.dim(
+					step > 0
+						? 'Already on the last page of results.\n'
+						: 'Already on the first page of results.\n',
+				),
+			);
+			return;
+		}
+
+		this.searchPage = page;
+		this.showSearchPage();
+	}
+
+	private showSearchPage(): void {
+		const { items, total, page, pages } = paginate(
+			this.searchResults,
+			this.searchPage,
+			SEARCH_PAGE_SIZE,
+		);
 
 		console.log(
 			brand.highlight(
-				`\n🔍 Search results for "${searchTerm}" (${results.length} found):`,
+				`\n🔍 Search results for "${this.searchQuery}" (${total} found):`,
 			),
 		);
 
-		if (results.length === 0) {
+		if (total === 0) {
 			console.log(
 				brand.dim('No episodes found matching your search term.'),
 			);
 		} else {
 			// Use a table for better formatting
-			const searchTable = new Table({
+			const searchTable = createTable({
 				head: [
-					brand.highlight('#'),
+					brand.highlight('Episode'),
 					brand.highlight('Title'),
-					brand.highlight('Season/Episode'),
+					brand.highlight('Air Date'),
+					brand.highlight('#'),
 				],
 				style: {
 					head: [],
 					border: ['dim'],
 				},
-				colWidths: [5, 50, 15],
+				colWidths: [10, 50, 13, 6],
 			});
 
-			results.slice(0, 10).forEach(({ episode, number }) => {
+			items.forEach(({ episode, number }) => {
 				searchTable.push([
-					brand.success(number.toString()),
+					brand.success(episodeCode(episode)),
 					brand.info(
 						episode.title.length > 45
 							? episode.title.substring(0, 45) + '...'
 							: episode.title,
 					),
-					brand.dim(
-						`S${episode.season_number}E${episode.episode_number}`,
-					),
+					brand.dim(episode.air_date),
+					brand.dim(number.toString()),
 				]);
 			});
 
 			console.log(searchTable.toString());
 
-			if (results.length > 10) {
+			if (pages > 1) {
 				console.log(
-					brand.dim(`... and ${results.length - 10} more results`),
+					brand.dim(
+						`Page ${page} of ${pages} — type "next" or "prev" to see more`,
+					),
 				);
 			}
 		}
@@ -521,9 +1348,10 @@ export class HotOnesInteractiveCLI {
 	}
 
 	private listSeasonEpisodes(seasonNumber: number): void {
-		const seasonEpisodes = this.episodes
-			.map((episode, index) => ({ episode, number: index + 1 }))
-			.filter(({ episode }) => episode.season_number === seasonNumber);
+		const seasonEpisodes = listSeason(this.episodes, seasonNumber);
+
+		this.lastResults = seasonEpisodes.map(({ episode }) => episode);
+		this.lastResultsName = `season-${seasonNumber}`;
 
 		console.log(
 			brand.highlight(
@@ -537,36 +1365,489 @@ export class HotOnesInteractiveCLI {
 			);
 		} else {
 			// Use a table for better formatting
-			const seasonTable = new Table({
+			const seasonTable = createTable({
 				head: [
-					brand.highlight('#'),
+					brand.highlight('Episode'),
 					brand.highlight('Title'),
 					brand.highlight('Air Date'),
+					brand.highlight('#'),
 				],
 				style: {
 					head: [],
 					border: ['dim'],
 				},
-				colWidths: [5, 50, 15],
+				colWidths: [10, 50, 13, 6],
 			});
 
 			seasonEpisodes.forEach(({ episode, number }) => {
 				seasonTable.push([
-					brand.success(number.toString()),
+					brand.success(episodeCode(episode)),
 					brand.info(
 						episode.title.length > 45
 							? episode.title.substring(0, 45) + '...'
 							: episode.title,
 					),
 					brand.dim(episode.air_date),
+					brand.dim(number.toString()),
 				]);
 			});
 
 			console.log(seasonTable.toString());
+
+			const lineup = findLineup(this.sauceCatalog, seasonNumber);
+			if (lineup) {
+				this.printLineup(lineup);
+			}
+		}
+		console.log('');
+	}
+
+	private showGuest(name: string): void {
+		const matches = new GuestRegistry(numbered(this.episodes)).find(name);
+		if (matches.length === 0) {
+			console.log(brand.error(`❌ No guest matches "${name}"`));
+			return;
+		}
+		if (matches.length > 1) {
+			console.log(
+				brand.highlight(
+					`\n🔍 ${matches.length} guests match "${name}", pick one:`,
+				),
+			);
+			matches
+				.slice(0, 10)
+				.forEach((profile) =>
+					console.log(
+						`   ${brand.info(profile.name)} ${brand.dim(
+							`(${profile.appearances.length})`,
+						)}`,
+					),
+				);
+			console.log('');
+			return;
+		}
+
+		const [profile] = matches;
+		this.lastResults = profile.appearances.map(({ episode }) => episode);
+		this.lastResultsName = `guest-${profile.name}`;
+
+		console.log(brand.title(`\n🎤 ${profile.name}`));
+		if (profile.aliases.length > 0) {
+			console.log(
+				brand.dim(`   Also known as ${profile.aliases.join(', ')}`),
+			);
+		}
+		console.log(
+			brand.info(
+				`   ${profile.episodes} episode(s), ${
+					profile.specials
+				} special(s) · ${describeGuestTags(profile)}`,
+			),
+		);
+
+		const appearancesTable = createTable({
+			head: [
+				brand.highlight('Episode'),
+				brand.highlight('Title'),
+				brand.highlight('Air Date'),
+				brand.highlight('#'),
+			],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+			colWidths: [10, 50, 13, 6],
+			wordWrap: true,
+		});
+		profile.appearances.forEach(({ episode, number }) => {
+			appearancesTable.push([
+				brand.success(episodeCode(episode)),
+				brand.info(episode.title),
+				brand.dim(episode.air_date),
+				brand.dim(number.toString()),
+			]);
+		});
+		console.log(appearancesTable.toString());
+		console.log('');
+	}
+
+	private showReturningGuests(): void {
+		const returning = new GuestRegistry(
+			numbered(this.episodes),
+		).returning();
+		if (returning.length === 0) {
+			console.log(brand.dim('No guest has been on more than once.'));
+			return;
+		}
+
+		console.log(
+			brand.highlight(`\n🔁 ${returning.length} Returning Guests:`),
+		);
+		const returningTable = createTable({
+			head: [
+				brand.highlight('Guest'),
+				brand.highlight('Appearances'),
+				brand.highlight('Categories'),
+			],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+			colWidths: [24, 34, 34],
+			wordWrap: true,
+		});
+		returning.forEach((profile) => {
+			returningTable.push([
+				brand.success(profile.name),
+				brand.info(
+					profile.appearances
+						.map(({ episode }) => episodeCode(episode))
+						.join(', '),
+				),
+				brand.dim(describeGuestTags(profile)),
+			]);
+		});
+		console.log(returningTable.toString());
+		console.log(brand.dim('   Type "guest <name>" for every appearance\n'));
+	}
+
+	private showSauces(args: string): void {
+		if (this.sauceCatalog.lineups.length === 0) {
+			console.log(
+				brand.error(
+					'❌ No sauce lineups yet. None ship with the repo; curate them in hot-ones-sauces.json (see "Sauce lineups" in the README)',
+				),
+			);
+			return;
+		}
+
+		const findMatch = args.match(/^find\s+(.+)$/i);
+		if (findMatch) {
+			const appearances = findSauce(this.sauceCatalog, findMatch[1]);
+			if (appearances.length === 0) {
+				console.log(
+					brand.error(`❌ No sauces match "${findMatch[1]}"`),
+				);
+				return;
+			}
+			console.log(
+				brand.highlight(
+					`\n🔍 "${findMatch[1]}" in ${
+						new Set(appearances.map(({ season }) => season)).size
+					} season(s):`,
+				),
+			);
+			appearances.forEach(({ season, sauce }) =>
+				console.log(
+					`  ${brand.success(`S${season}`.padEnd(4))} ${brand.dim(
+						`wing ${sauce.wing}`.padEnd(8),
+					)} ${brand.info(sauce.name)} ${brand.dim(
+						`(${sauce.maker}, ${formatScoville(sauce.scoville)})`,
+					)}`,
+				),
+			);
+			console.log('');
+			return;
+		}
+
+		if (args) {
+			const seasonNumber = parseInt(args);
+			const lineup = isNaN(seasonNumber)
+				? undefined
+				: findLineup(this.sauceCatalog, seasonNumber);
+			if (lineup) {
+				this.printLineup(lineup);
+			} else {
+				console.log(
+					brand.error(
+						isNaN(seasonNumber)
+							? '❌ Try "sauces 22", "sauces find last dab" or just "sauces"'
+							: `❌ No lineup curated for Season ${seasonNumber}`,
+					),
+				);
+			}
+			return;
+		}
+
+		const heat = seasonHeat(this.sauceCatalog);
+		const max = Math.max(...heat.map(({ hottest }) => hottest.scoville));
+		console.log(
+			brand.highlight(
+				`\n🔥 Hottest Wing by Season: ${sparkline(
+					heat.map(({ hottest }) => hottest.scoville),
+				)}`,
+			),
+		);
+		heat.forEach(({ season, hottest, median, lastDab }) =>
+			console.log(
+				`  ${brand.info(`S${season}`.padEnd(4))} ${brand.success(
+					bar(hottest.scoville, max).padEnd(30),
+				)} ${brand.info(formatScoville(hottest.scoville))} ${brand.dim(
+					`· median ${formatScoville(median)}${
+						lastDab ? ` · ${lastDab.name}` : ''
+					}`,
+				)}`,
+			),
+		);
+		console.log('');
+	}
+
+	private printLineup(lineup: SauceLineup): void {
+		console.log(
+			brand.highlight(`\n🌶️  Season ${lineup.season} Sauce Lineup:`),
+		);
+
+		const lineupTable = createTable({
+			head: [
+				brand.highlight('Wing'),
+				brand.highlight('Sauce'),
+				brand.highlight('Maker'),
+				brand.highlight('Scoville'),
+			],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+			colWidths: [6, 34, 24, 36],
+			wordWrap: true,
+		});
+		const max = Math.max(...lineup.sauces.map(({ scoville }) => scoville));
+		lineup.sauces.forEach((sauce) => {
+			lineupTable.push([
+				brand.success(sauce.wing.toString()),
+				sauce.last_dab
+					? brand.title(`${sauce.name} (Last Dab)`)
+					: brand.info(sauce.name),
+				brand.dim(sauce.maker),
+				`${brand.success(bar(sauce.scoville, max, 12))} ${brand.dim(
+					formatScoville(sauce.scoville),
+				)}`,
+			]);
+		});
+		console.log(lineupTable.toString());
+	}
+
+	private showTaxonomy(term: string): void {
+		const entry = term ? findTaxonomyNode(term) : undefined;
+		if (term && !entry) {
+			console.log(
+				brand.error(
+					`❌ No profession matches "${term}". Type "taxonomy" to see them all.`,
+				),
+			);
+			return;
+		}
+
+		console.log(
+			brand.title(
+				`\n🏷️  ${
+					entry
+						? formatTaxonomyPath(entry.path)
+						: 'Profession taxonomy'
+				}`,
+			),
+		);
+		if (entry?.node.aliases?.length) {
+			console.log(
+				brand.dim(`   Also known as: ${entry.node.aliases.join(', ')}`),
+			);
+		}
+
+		const taxonomyTable = createTable({
+			head: [brand.highlight('Profession'), brand.highlight('Episodes')],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+		});
+		countTaxonomy(this.episodes, entry).forEach(
+			({ name, depth, count }) => {
+				const label = `${'  '.repeat(depth)}${name}`;
+				taxonomyTable.push(
+					count > 0
+						? [brand.info(label), brand.success(count.toString())]
+						: [brand.dim(label), brand.dim('0')],
+				);
+			},
+		);
+		console.log(taxonomyTable.toString());
+
+		if (!entry) {
+			console.log(brand.dim('Drill down with "taxonomy [node]"\n'));
+			return;
+		}
+
+		const results = filterEpisodes(this.episodes, { category: term });
+		this.lastResults = results.map(({ episode }) => episode);
+		this.lastResultsName = entry.node.name;
+
+		if (results.length === 0) {
+			console.log(brand.dim(`No ${entry.node.name} episodes yet.\n`));
+			return;
+		}
+
+		const episodesTable = createTable({
+			head: [
+				brand.highlight('Episode'),
+				brand.highlight('Title'),
+				brand.highlight('Air Date'),
+				brand.highlight('#'),
+			],
+			style: {
+				head: [],
+				border: ['dim'],
+			},
+			colWidths: [10, 50, 13, 6],
+		});
+		results.forEach(({ episode, number }) => {
+			episodesTable.push([
+				brand.success(episodeCode(episode)),
+				brand.info(
+					episode.title.length > 45
+						? episode.title.substring(0, 45) + '...'
+						: episode.title,
+				),
+				brand.dim(episode.air_date),
+				brand.dim(number.toString()),
+			]);
+		});
+		console.log(
+			brand.highlight(
+				`\n📺 ${entry.node.name} episodes (${results.length}):`,
+			),
+		);
+		console.log(episodesTable.toString());
+		console.log('');
+	}
+
+	private curateEpisode(args: string): void {
+		const match = args.match(
+			/^(\S+)(?:\s+(add|remove|pin|note)\b\s*(.*))?$/i,
+		);
+		if (!match) {
+			console.log(
+				brand.error(
+					'❌ Usage: tag [ep] add|remove [category/sub], tag [ep] pin, tag [ep] note [text]',
+				),
+			);
+			return;
+		}
+
+		const picked = this.findEpisode(match[1]);
+		if (!picked) {
+			return;
+		}
+		const { episode, number } = picked;
+
+		const action = match[2]?.toLowerCase();
+		const value = match[3]?.trim() ?? '';
+		if (!action) {
+			this.showEpisodeTags(episode);
+			return;
+		}
+		if ((action === 'add' || action === 'remove') && !value) {
+			console.log(
+				brand.error(
+					`❌ Which tag? e.g. "tag ${episodeCode(
+						episode,
+					)} ${action} Music/Rapper"`,
+				),
+			);
+			return;
+		}
+
+		try {
+			let overrides: TagOverrides = loadOverrides();
+			if (action === 'add' || action === 'remove') {
+				overrides = editTag(overrides, episode, action, value);
+			} else if (action === 'pin') {
+				overrides = pinTags(overrides, episode);
+			} else {
+				overrides = setNote(overrides, episode, value);
+			}
+			saveOverrides(overrides);
+
+			const override = overrides.episodes[episodeKey(episode)];
+			const uncurated = this.uncuratedEpisodes[number - 1];
+			const curated = override
+				? applyOverride(uncurated, override)
+				: uncurated;
+			this.episodes[number - 1] = curated;
+			this.lastResults = this.lastResults.map((result) =>
+				result === episode ? curated : result,
+			);
+			// Category qualifiers search tags, so the index has to follow
+			this.searchIndex = new SearchIndex(this.episodes);
+
+			console.log(
+				brand.success(`✍️  Saved to ${DEFAULT_OVERRIDES_PATH}`),
+			);
+			this.showEpisodeTags(curated);
+		} catch (error) {
+			if (error instanceof OverridesError) {
+				console.log(brand.error(`❌ ${error.message}`));
+				return;
+			}
+			throw error;
+		}
+	}
+
+	private showEpisodeTags(episode: HotOnesEpisode): void {
+		console.log(
+			brand.highlight(`\n🏷️  ${episodeCode(episode)}: ${episode.title}`),
+		);
+		console.log(brand.info(`   Tags: ${flattenTags(episode)}`));
+		if (episode.note) {
+			console.log(brand.info(`   Note: ${episode.note}`));
 		}
 		console.log('');
 	}
 
+	private async exportResults(
+		format: string,
+		outPath?: string,
+	): Promise<void> {
+		if (!isExportFormat(format)) {
+			console.log(
+				brand.error(
+					`❌ Unknown export format "${format}". Use one of: ${EXPORT_FORMATS.join(
+						', ',
+					)}`,
+				),
+			);
+			return;
+		}
+
+		if (this.lastResults.length === 0) {
+			console.log(
+				brand.error(
+					'❌ Nothing to export yet. Run "search [term]", "season [number]" or "taxonomy [node]" first.',
+				),
+			);
+			return;
+		}
+
+		const slug = this.lastResultsName
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-|-$/g, '');
+		const target = outPath ?? defaultExportPath(format, `hot-ones-${slug}`);
+
+		try {
+			await writeExport(this.lastResults, format, target);
+			console.log(
+				brand.success(
+					`📤 Exported ${this.lastResults.length} episodes as ${format} to: ${target}\n`,
+				),
+			);
+		} catch (error) {
+			console.log(
+				brand.error('❌ Export failed:'),
+				error instanceof Error ? error.message : error,
+			);
+		}
+	}
+
 	private async handleYouTubeActions(youtubeUrl: string): Promise<void> {
 		return new Promise((resolve) => {
 			// Use readline for input instead of raw mode to avoid conflicts
@@ -591,26 +1872,22 @@ export class HotOnesInteractiveCLI {
 		});
 	}
 
+	private openCommand(url: string): string {
+		switch (process.platform) {
+			case 'darwin': // macOS
+				return `open "${url}"`;
+			case 'win32': // Windows
+				return `start "${url}"`;
+			default: // Linux and others
+				return `xdg-open "${url}"`;
+		}
+	}
+
 	private openYouTubeVideo(url: string): void {
 		console.log(brand.success('\n🚀 Opening YouTube video...'));
 
 		try {
-			const platform = process.platform;
-			let command = '';
-
-			switch (platform) {
-				case 'darwin': // macOS
-					command = `open "${url}"`;
-					break;
-				case 'win32': // Windows
-					command = `start "${url}"`;
-					break;
-				default: // Linux and others
-					command = `xdg-open "${url}"`;
-					break;
-			}
-
-			exec(command, (error) => {
+			exec(this.openCommand(url), (error) => {
 				if (error) {
 					console.error(
 						brand.error('❌ Could not open YouTube link:'),
@@ -668,18 +1945,14 @@ export class HotOnesInteractiveCLI {
 	}
 
 	private generateYouTubeSearchUrl(episode: HotOnesEpisode): string {
-		// Create a simple search query with just the guest name
-		const cleanTitle = episode.title
-			.replace(/^hot ones[:\-\s]*/i, '') // Remove "Hot Ones" prefix
-			.replace(/\s*\|\s*.*$/, '') // Remove everything after | separator
-			.replace(/\s*–\s*.*$/, '') // Remove everything after – separator
-			.replace(/\s*-\s*.*$/, '') // Remove everything after - separator
-			.replace(/\s+eats\s+.*$/i, '') // Remove "eats spicy wings" etc.
-			.replace(/\s+while\s+.*$/i, '') // Remove "while eating..." etc.
-			.trim();
+		// Search by guest name, falling back to the full title for specials
+		const subject =
+			episode.guests.length > 0
+				? episode.guests.join(' ')
+				: episode.title.replace(/^hot ones[:\-\s]*/i, '');
 
 		// Simple search: "Hot Ones" + guest name
-		const searchQuery = `Hot Ones ${cleanTitle}`;
+		const searchQuery = `Hot Ones ${subject}`;
 		const query = encodeURIComponent(searchQuery);
 		return `https://www.youtube.com/results?search_query=${query}`;
 	}
@@ -691,7 +1964,9 @@ export class HotOnesInteractiveCLI {
 
 // Main function for the interactive CLI
 async function main(): Promise<void> {
-	const cli = new HotOnesInteractiveCLI();
+	// --plain, --theme <name>, NO_COLOR and friends
+	usePresentation(detectPresentation(process.argv.slice(2)));
+	const cli = new HotOnesInteractiveCLI(process.argv.includes('--tui'));
 	await cli.start();
 }
 
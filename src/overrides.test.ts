@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	applyOverride,
+	applyOverrides,
+	editTag,
+	emptyOverrides,
+	loadOverrides,
+	OverridesError,
+	parseTagPath,
+	pinTags,
+	saveOverrides,
+	setNote,
+	TagOverrides,
+	validateOverrides,
+} from './overrides';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (overrides: Partial<HotOnesEpisode> = {}): HotOnesEpisode =>
+	makeEpisode({
+		season_number: 2,
+		episode_number: 4,
+		title: 'Anthony Rizzo On Chicago Cubs Rivalries & Baseball Superstitions While Eating Spicy Wings',
+		guests: ['Anthony Rizzo'],
+		topics: ['Chicago Cubs Rivalries', 'Baseball Superstitions'],
+		air_date: '2015-05-12',
+		tags: [{ ...tag('Sports', 'Basketball Player'), confidence: 0.5 }],
+		...overrides,
+	});
+
+const withOverride = (
+	key: string,
+	override: TagOverrides['episodes'][string],
+): TagOverrides => ({ ...emptyOverrides(), episodes: { [key]: override } });
+
+describe('parseTagPath', () => {
+	it('resolves categories that contain slashes, case-insensitively', () => {
+		expect(parseTagPath('movie/tv/actor')).toEqual({
+			category: 'Movie/TV',
+			subCategory: 'Actor',
+		});
+		expect(parseTagPath('Internet/Social Media')).toEqual({
+			category: 'Internet/Social Media',
+		});
+	});
+
+	it('rejects anything outside the taxonomy', () => {
+		expect(() => parseTagPath('Gaming')).toThrow(OverridesError);
+		expect(() => parseTagPath('Music/Polka')).toThrow(
+			/Unknown Music sub-category/,
+		);
+	});
+});
+
+describe('applyOverride', () => {
+	it('removes and adds sub-categories with full confidence', () => {
+		const curated = applyOverride(episode(), {
+			remove_tags: ['Sports/Basketball Player'],
+			add_tags: ['Sports/Baseball Player'],
+		});
+
+		expect(curated.tags).toEqual([
+			{
+				category: 'Sports',
+				sub_categories: ['Baseball Player'],
+				confidence: 1,
+			},
+		]);
+	});
+
+	it('pins tags, corrects guests and annotates', () => {
+		const curated = applyOverride(episode(), {
+			pin_tags: [{ category: 'Sports', sub_categories: ['Athlete'] }],
+			guests: ['Anthony Rizzo', 'Sean Evans'],
+			note: 'First baseman, not a basketball player',
+		});
+
+		expect(curated.tags).toEqual([
+			{ category: 'Sports', sub_categories: ['Athlete'] },
+		]);
+		expect(curated.guests).toEqual(['Anthony Rizzo', 'Sean Evans']);
+		expect(curated.note).toBe('First baseman, not a basketball player');
+	});
+
+	it('swaps the Other/Unknown placeholder in and out', () => {
+		const unknown = episode({
+			tags: [{ category: 'Other', sub_categories: ['Unknown'] }],
+		});
+
+		expect(applyOverride(unknown, { add_tags: ['Music'] }).tags).toEqual([
+			{ category: 'Music', sub_categories: [], confidence: 1 },
+		]);
+		expect(
+			applyOverride(episode(), { remove_tags: ['Sports'] }).tags,
+		).toEqual([
+			{ category: 'Other', sub_categories: ['Unknown'], confidence: 0 },
+		]);
+	});
+
+	it('is idempotent, so curated episodes can be re-curated', () => {
+		const override = {
+			remove_tags: ['Sports/Basketball Player'],
+			add_tags: ['Sports/Baseball Player'],
+		};
+		const once = applyOverride(episode(), override);
+
+		expect(applyOverride(once, override)).toEqual(once);
+		expect(applyOverride({ ...once, note: 'old' }, override).note).toBe(
+			undefined,
+		);
+	});
+});
+
+describe('applyOverrides', () => {
+	it('matches episodes by season/episode and reports leftovers', () => {
+		const overrides: TagOverrides = {
+			...emptyOverrides(),
+			episodes: {
+				S2E4: { note: 'Cubs' },
+				S99E1: { note: 'Not scraped yet' },
+			},
+		};
+
+		const result = applyOverrides(
+			[episode(), episode({ episode_number: 5 })],
+			overrides,
+		);
+
+		expect(result.episodes[0].note).toBe('Cubs');
+		expect(result.episodes[1].note).toBeUndefined();
+		expect(result.applied).toBe(1);
+		expect(result.unmatched).toEqual(['S99E1']);
+	});
+});
+
+describe('editing overrides', () => {
+	it('records canonical tag paths and cancels opposite edits', () => {
+		let overrides = editTag(
+			emptyOverrides(),
+			episode(),
+			'remove',
+			'sports/basketball player',
+		);
+		overrides = editTag(
+			overrides,
+			episode(),
+			'add',
+			'Sports/Baseball Player',
+		);
+
+		expect(overrides.episodes.S2E4).toEqual({
+			remove_tags: ['Sports/Basketball Player'],
+			add_tags: ['Sports/Baseball Player'],
+		});
+
+		overrides = editTag(
+			overrides,
+			episode(),
+			'add',
+			'Sports/Basketball Player',
+		);
+		expect(overrides.episodes.S2E4).toEqual({
+			add_tags: ['Sports/Baseball Player', 'Sports/Basketball Player'],
+		});
+	});
+
+	it('pins the current tags and drops the entry once it is empty', () => {
+		let overrides = editTag(emptyOverrides(), episode(), 'add', 'Comedy');
+		overrides = pinTags(overrides, episode());
+
+		expect(overrides.episodes.S2E4).toEqual({
+			pin_tags: [
+				{ category: 'Sports', sub_categories: ['Basketball Player'] },
+			],
+		});
+
+		overrides = setNote(withOverride('S2E4', {}), episode(), 'Cubs');
+		expect(overrides.episodes.S2E4).toEqual({ note: 'Cubs' });
+		expect(setNote(overrides, episode(), '  ').episodes).toEqual({});
+	});
+});
+
+describe('loading and saving', () => {
+	let directory: string;
+	let filePath: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(
+			path.join(os.tmpdir(), 'wing-scrape-overrides-'),
+		);
+		filePath = path.join(directory, 'overrides.json');
+	});
+
+	afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+	it('treats a missing file as no overrides', () => {
+		expect(loadOverrides(filePath)).toEqual(emptyOverrides());
+	});
+
+	it('round-trips through the file', () => {
+		const overrides = withOverride('S2E4', { add_tags: ['Music/Rapper'] });
+		saveOverrides(overrides, filePath);
+
+		expect(loadOverrides(filePath)).toEqual(overrides);
+	});
+
+	it('refuses malformed files with the offending path', () => {
+		fs.writeFileSync(
+			filePath,
+			JSON.stringify(withOverride('S2E4', { add_tags: ['Gaming'] })),
+		);
+
+		expect(() => loadOverrides(filePath)).toThrow(
+			/episodes\.S2E4\.add_tags\[0\]/,
+		);
+		expect(
+			validateOverrides({
+				schema_version: 1,
+				episodes: { 'season 2': { pin_tags: [{ category: '' }] } },
+			}).map((issue) => issue.path),
+		).toEqual([
+			'episodes.season 2',
+			'episodes.season 2.pin_tags[0].category',
+			'episodes.season 2.pin_tags[0].sub_categories',
+		]);
+	});
+});
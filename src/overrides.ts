@@ -0,0 +1,391 @@
+import { EpisodeTag, HotOnesEpisode, PROFESSION_TAXONOMY } from './types';
+import { ValidationIssue, validateTag } from './report';
+import { episodeKey } from './report-diff';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const OVERRIDES_SCHEMA_VERSION = 1;
+
+export const DEFAULT_OVERRIDES_PATH = path.join(
+	process.cwd(),
+	'hot-ones-overrides.json',
+);
+
+// Hand curation for one episode, re-applied after every scrape
+export interface EpisodeOverride {
+	// Replaces the scraped tags outright; add/remove still apply on top
+	pin_tags?: EpisodeTag[];
+	// "Music/Rapper" for a sub-category, "Comedy" for a whole category
+	add_tags?: string[];
+	remove_tags?: string[];
+	// Replaces the guests parsed from the title
+	guests?: string[];
+	note?: string;
+}
+
+export interface TagOverrides {
+	schema_version: number;
+	// Keyed like the report diff: "S22E5", or "S0E0:<title>" for specials
+	episodes: Record<string, EpisodeOverride>;
+}
+
+export interface TagPath {
+	category: string;
+	subCategory?: string;
+}
+
+export type TagAction = 'add' | 'remove';
+
+export interface AppliedOverrides {
+	episodes: HotOnesEpisode[];
+	applied: number;
+	// Keys in the overrides file that no scraped episode matched
+	unmatched: string[];
+}
+
+export class OverridesError extends Error {
+	constructor(
+		message: string,
+		public readonly issues: ValidationIssue[] = [],
+	) {
+		super(message);
+		this.name = 'OverridesError';
+	}
+}
+
+export function emptyOverrides(): TagOverrides {
+	return { schema_version: OVERRIDES_SCHEMA_VERSION, episodes: {} };
+}
+
+// Category names contain slashes ("Movie/TV"), so match them against the taxonomy
+export function parseTagPath(spec: string): TagPath {
+	const wanted = spec.trim().toLowerCase();
+	const category = Object.keys(PROFESSION_TAXONOMY).find(
+		(name) =>
+			wanted === name.toLowerCase() ||
+			wanted.startsWith(`${name.toLowerCase()}/`),
+	);
+	if (!category) {
+		throw new OverridesError(
+			`Unknown category in "${spec}". Expected one of: ${Object.keys(
+				PROFESSION_TAXONOMY,
+			).join(', ')}`,
+		);
+	}
+
+	const rest = wanted.slice(category.length + 1);
+	if (!rest) {
+		return { category };
+	}
+
+	const subCategory = PROFESSION_TAXONOMY[category].find(
+		(name) => name.toLowerCase() === rest,
+	);
+	if (!subCategory) {
+		throw new OverridesError(
+			`Unknown ${category} sub-category in "${spec}". Expected one of: ${PROFESSION_TAXONOMY[
+				category
+			].join(', ')}`,
+		);
+	}
+	return { category, subCategory };
+}
+
+export const formatTagPath = ({ category, subCategory }: TagPath) =>
+	subCategory ? `${category}/${subCategory}` : category;
+
+export function validateOverrides(data: unknown): ValidationIssue[] {
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		return [{ path: 'overrides', message: 'expected an object' }];
+	}
+
+	const { schema_version, episodes } = data as Partial<TagOverrides>;
+	const issues: ValidationIssue[] = [];
+	if (schema_version !== OVERRIDES_SCHEMA_VERSION) {
+		issues.push({
+			path: 'schema_version',
+			message: `expected ${OVERRIDES_SCHEMA_VERSION}`,
+		});
+	}
+	if (
+		typeof episodes !== 'object' ||
+		episodes === null ||
+		Array.isArray(episodes)
+	) {
+		return [
+			...issues,
+			{
+				path: 'episodes',
+				message: 'expected an object keyed by episode',
+			},
+		];
+	}
+
+	const isStringArray = (value: unknown) =>
+		Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+	Object.entries(episodes).forEach(([key, override]) => {
+		const at = `episodes.${key}`;
+		if (!/^S\d+E\d+(:.+)?$/.test(key)) {
+			issues.push({ path: at, message: 'expected a key like "S22E5"' });
+		}
+		if (
+			typeof override !== 'object' ||
+			override === null ||
+			Array.isArray(override)
+		) {
+			issues.push({ path: at, message: 'expected an object' });
+			return;
+		}
+
+		(['add_tags', 'remove_tags'] as const).forEach((field) => {
+			const specs = override[field];
+			if (specs === undefined) {
+				return;
+			}
+			if (!isStringArray(specs)) {
+				issues.push({
+					path: `${at}.${field}`,
+					message: 'expected an array of strings',
+				});
+				return;
+			}
+			specs.forEach((spec, index) => {
+				try {
+					parseTagPath(spec);
+				} catch (error) {
+					issues.push({
+						path: `${at}.${field}[${index}]`,
+						message:
+							error instanceof Error
+								? error.message
+								: String(error),
+					});
+				}
+			});
+		});
+
+		if (override.pin_tags !== undefined) {
+			if (!Array.isArray(override.pin_tags)) {
+				issues.push({
+					path: `${at}.pin_tags`,
+					message: 'expected an array of tags',
+				});
+			} else {
+				override.pin_tags.forEach((tag, index) =>
+					issues.push(
+						...validateTag(tag, `${at}.pin_tags[${index}]`),
+					),
+				);
+			}
+		}
+		if (override.guests !== undefined && !isStringArray(override.guests)) {
+			issues.push({
+				path: `${at}.guests`,
+				message: 'expected an array of strings',
+			});
+		}
+		if (override.note !== undefined && typeof override.note !== 'string') {
+			issues.push({ path: `${at}.note`, message: 'expected a string' });
+		}
+	});
+
+	return issues;
+}
+
+// A missing file just means nothing has been curated yet
+export function loadOverrides(filePath = DEFAULT_OVERRIDES_PATH): TagOverrides {
+	if (!fs.existsSync(filePath)) {
+		return emptyOverrides();
+	}
+
+	const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+	const issues = validateOverrides(data);
+	if (issues.length > 0) {
+		throw new OverridesError(
+			`Invalid overrides file ${filePath}: ${issues[0].path}: ${issues[0].message}`,
+			issues,
+		);
+	}
+	return data as TagOverrides;
+}
+
+export function saveOverrides(
+	overrides: TagOverrides,
+	filePath = DEFAULT_OVERRIDES_PATH,
+): void {
+	fs.writeFileSync(filePath, JSON.stringify(overrides, null, 2));
+}
+
+const isPlaceholder = (tag: EpisodeTag) =>
+	tag.category === 'Other' &&
+	tag.sub_categories.length === 1 &&
+	tag.sub_categories[0] === 'Unknown';
+
+export function applyOverride(
+	episode: HotOnesEpisode,
+	override: EpisodeOverride,
+): HotOnesEpisode {
+	let tags = (override.pin_tags ?? episode.tags).map((tag) => ({
+		...tag,
+		sub_categories: [...tag.sub_categories],
+	}));
+
+	(override.remove_tags ?? []).map(parseTagPath).forEach((target) => {
+		if (!target.subCategory) {
+			tags = tags.filter((tag) => tag.category !== target.category);
+			return;
+		}
+		tags.forEach((tag) => {
+			if (tag.category === target.category) {
+				tag.sub_categories = tag.sub_categories.filter(
+					(subCategory) => subCategory !== target.subCategory,
+				);
+			}
+		});
+	});
+
+	(override.add_tags ?? []).map(parseTagPath).forEach((target) => {
+		let tag = tags.find(
+			(candidate) => candidate.category === target.category,
+		);
+		if (!tag) {
+			tag = { category: target.category, sub_categories: [] };
+			tags.push(tag);
+		}
+		if (
+			target.subCategory &&
+			!tag.sub_categories.includes(target.subCategory)
+		) {
+			tag.sub_categories.push(target.subCategory);
+		}
+		// Curated by hand, so no guesswork left
+		tag.confidence = 1;
+	});
+
+	// Other/Unknown only stands in when nothing else is tagged
+	if (tags.length > 1) {
+		tags = tags.filter((tag) => !isPlaceholder(tag));
+	}
+	if (tags.length === 0) {
+		tags = [
+			{ category: 'Other', sub_categories: ['Unknown'], confidence: 0 },
+		];
+	}
+
+	// Re-applying to an already curated episode must drop a cleared note
+	const { note: _previousNote, ...scraped } = episode;
+	return {
+		...scraped,
+		tags,
+		...(override.guests && { guests: [...override.guests] }),
+		...(override.note !== undefined && { note: override.note }),
+	};
+}
+
+export function applyOverrides(
+	episodes: HotOnesEpisode[],
+	overrides: TagOverrides,
+): AppliedOverrides {
+	const pending = new Set(Object.keys(overrides.episodes));
+
+	const curated = episodes.map((episode) => {
+		const key = episodeKey(episode);
+		const override = overrides.episodes[key];
+		if (!override) {
+			return episode;
+		}
+		pending.delete(key);
+		return applyOverride(episode, override);
+	});
+
+	return {
+		episodes: curated,
+		applied: Object.keys(overrides.episodes).length - pending.size,
+		unmatched: [...pending],
+	};
+}
+
+// Drops entries that no longer change anything
+function setOverride(
+	overrides: TagOverrides,
+	key: string,
+	override: EpisodeOverride,
+): TagOverrides {
+	const episodes = { ...overrides.episodes };
+	const cleaned = Object.fromEntries(
+		Object.entries(override).filter(
+			([, value]) =>
+				value !== undefined &&
+				!(Array.isArray(value) && value.length === 0),
+		),
+	);
+	if (Object.keys(cleaned).length === 0) {
+		delete episodes[key];
+	} else {
+		episodes[key] = cleaned;
+	}
+	return { ...overrides, episodes };
+}
+
+// Adding a tag cancels an earlier removal of the same tag, and vice versa
+export function editTag(
+	overrides: TagOverrides,
+	episode: HotOnesEpisode,
+	action: TagAction,
+	spec: string,
+): TagOverrides {
+	const tag = formatTagPath(parseTagPath(spec));
+	const key = episodeKey(episode);
+	const current = overrides.episodes[key] ?? {};
+	const [keep, drop] =
+		action === 'add'
+			? (['add_tags', 'remove_tags'] as const)
+			: (['remove_tags', 'add_tags'] as const);
+
+	return setOverride(overrides, key, {
+		...current,
+		[keep]: [
+			...(current[keep] ?? []).filter((existing) => existing !== tag),
+			tag,
+		],
+		[drop]: (current[drop] ?? []).filter((existing) => existing !== tag),
+	});
+}
+
+// Freezes the episode's current tags so keyword changes can't alter them
+export function pinTags(
+	overrides: TagOverrides,
+	episode: HotOnesEpisode,
+): TagOverrides {
+	const key = episodeKey(episode);
+	return setOverride(overrides, key, {
+		...overrides.episodes[key],
+		pin_tags: episode.tags.map(({ category, sub_categories }) => ({
+			category,
+			sub_categories: [...sub_categories],
+		})),
+		add_tags: undefined,
+		remove_tags: undefined,
+	});
+}
+
+// An empty note removes the annotation
+export function setNote(
+	overrides: TagOverrides,
+	episode: HotOnesEpisode,
+	note: string,
+): TagOverrides {
+	const key = episodeKey(episode);
+	return setOverride(overrides, key, {
+		...overrides.episodes[key],
+		note: note.trim() || undefined,
+	});
+}
+
+export function applyOverridesFile(
+	episodes: HotOnesEpisode[],
+	filePath = DEFAULT_OVERRIDES_PATH,
+): AppliedOverrides {
+	return applyOverrides(episodes, loadOverrides(filePath));
+}
@@ -0,0 +1,45 @@
+import { completePrompt, promptCommands } from './prompt-commands';
+
+const commands = promptCommands(433);
+const data = {
+	seasons: [1, 2, 10, 22],
+	guests: ['Conan O’Brien', 'Kevin Hart', 'Kevin Bacon', 'Zoë Kravitz'],
+};
+const complete = (line: string) => completePrompt(line, commands, data);
+
+it('lists every command for the help table', () => {
+	expect(commands.map(({ usage }) => usage)).toContain('1-433');
+	expect(commands.every(({ description }) => description !== '')).toBe(true);
+});
+
+it('completes command names, leaving out one-letter aliases', () => {
+	expect(complete('se')).toEqual([['search', 'season'], 'se']);
+	expect(complete('gue')).toEqual([['guest', 'guests'], 'gue']);
+	expect(complete('')[0]).not.toContain('q');
+	expect(complete('xyz')).toEqual([[], 'xyz']);
+});
+
+it('completes season numbers from the loaded data', () => {
+	expect(complete('season 1')).toEqual([['1', '10'], '1']);
+	expect(complete('sauces ')).toEqual([['1', '2', '10', '22', 'find'], '']);
+	expect(complete('sauces f')).toEqual([['find'], 'f']);
+});
+
+it('completes guest names after search, guest and show', () => {
+	expect(complete('search kevin')).toEqual([
+		['Kevin Hart', 'Kevin Bacon'],
+		'kevin',
+	]);
+	expect(complete('guest conan o')).toEqual([['Conan O’Brien'], 'conan o']);
+	expect(complete('show zoe')).toEqual([['Zoë Kravitz'], 'zoe']);
+	expect(complete('search season:2 guest:"kevin b')).toEqual([
+		['Kevin Bacon'],
+		'kevin b',
+	]);
+	expect(complete('search ')).toEqual([[], '']);
+});
+
+it('completes export formats and nothing for other commands', () => {
+	expect(complete('export j')).toEqual([['json'], 'j']);
+	expect(complete('rate S2E4 ')[0]).toEqual([]);
+});
@@ -0,0 +1,225 @@
+import { DEFAULT_OVERRIDES_PATH } from './overrides';
+import { DEFAULT_USER_STATE_PATH } from './user-state';
+import { EXPORT_FORMATS } from './exporters';
+import { normalizeText } from './search-index';
+import * as path from 'path';
+
+// What tab completes after a command's first name
+export type CommandArgument = 'season' | 'guest' | 'sauces' | 'format';
+
+export interface PromptCommand {
+	// What the prompt accepts; the first is the one completion offers
+	// arguments for. Rows like "S22E5" have none.
+	names: string[];
+	// How the help table shows it
+	usage: string;
+	description: string;
+	argument?: CommandArgument;
+}
+
+// What completion can offer, taken from the loaded episodes
+export interface CompletionData {
+	seasons: number[];
+	guests: string[];
+}
+
+// The prompt's commands, in the order the help table lists them
+export function promptCommands(episodeCount: number): PromptCommand[] {
+	return [
+		{
+			names: [],
+			usage: 'S22E5, #433',
+			description:
+				'View an episode by its code or overall number (with YouTube link)',
+		},
+		{
+			names: ['show'],
+			usage: 'show [guest]',
+			description: 'View an episode by guest name, title, code or number',
+			argument: 'guest',
+		},
+		{
+			names: [],
+			usage: `1-${episodeCount}`,
+			description:
+				'Shortcut: the number listed next to search/season results',
+		},
+		{
+			names: ['random', 'r'],
+			usage: 'random, r [filters]',
+			description:
+				'Random picks, e.g. "random 3 season:3-5 category:comedy unwatched"; also year:, keywords, seed:<any> and like:<ep>',
+		},
+		{
+			names: ['similar'],
+			usage: 'similar [ep]',
+			description:
+				'Episodes most like this one, scored on shared words, tags and air date',
+		},
+		{
+			names: ['guest', 'guests'],
+			usage: 'guest [name]',
+			description:
+				'Every appearance of a guest, with their merged categories; "guests" lists returning guests',
+			argument: 'guest',
+		},
+		{
+			names: ['sauces'],
+			usage: 'sauces [season]',
+			description:
+				'A season\'s sauce lineup; "sauces find <name>" for the seasons a sauce was in, or just "sauces" for the heat chart',
+			argument: 'sauces',
+		},
+		{
+			names: ['watch'],
+			usage: 'watch [ep] [off]',
+			description: 'Mark an episode watched (or not)',
+		},
+		{
+			names: ['rate'],
+			usage: 'rate [ep] [1-5]',
+			description: 'Rate an episode ("clear" removes the rating)',
+		},
+		{
+			names: ['fav'],
+			usage: 'fav [ep] [off]',
+			description: 'Add an episode to your favorites (or remove it)',
+		},
+		{
+			names: ['favorites', 'unwatched'],
+			usage: 'favorites, unwatched',
+			description: `List your favorites or what's left to watch (saved to ${path.basename(
+				DEFAULT_USER_STATE_PATH,
+			)})`,
+		},
+		{
+			names: ['stats', 's'],
+			usage: 'stats, s',
+			description: 'Show episode statistics',
+		},
+		{
+			names: ['search'],
+			usage: 'search [query]',
+			description:
+				'Ranked search; supports guest:, season:, category:, year:, before:, after:, "phrases" and AND/OR/NOT',
+			argument: 'guest',
+		},
+		{
+			names: ['next', 'prev'],
+			usage: 'next, prev',
+			description: 'Page through search results',
+		},
+		{
+			names: ['season'],
+			usage: 'season [number]',
+			description: 'List all episodes from a specific season',
+			argument: 'season',
+		},
+		{
+			names: ['taxonomy'],
+			usage: 'taxonomy [node]',
+			description:
+				'Profession tree with episode counts; name a node (e.g. "taxonomy nba") to list its episodes',
+		},
+		{
+			names: ['export'],
+			usage: 'export [format] [path]',
+			description: `Export the last search/season results (${EXPORT_FORMATS.join(
+				', ',
+			)})`,
+			argument: 'format',
+		},
+		{
+			names: ['tag'],
+			usage: 'tag [ep] add|remove [tag]',
+			description:
+				'Curate an episode\'s tags, e.g. "tag S2E4 add Music/Rapper"',
+		},
+		{
+			names: [],
+			usage: 'tag [ep] pin|note [text]',
+			description: `Freeze its current tags or annotate it (saved to ${path.basename(
+				DEFAULT_OVERRIDES_PATH,
+			)})`,
+		},
+		{
+			names: ['help', 'h'],
+			usage: 'help, h',
+			description: 'Show this help message',
+		},
+		{
+			names: ['quit', 'q', 'exit'],
+			usage: 'quit, q',
+			description: 'Exit the CLI',
+		},
+	];
+}
+
+const startsWith = (candidate: string, partial: string) =>
+	normalizeText(candidate).startsWith(normalizeText(partial));
+
+function completeArgument(
+	argument: CommandArgument,
+	partial: string,
+	data: CompletionData,
+): [string[], string] {
+	const seasons = data.seasons.map(String);
+	switch (argument) {
+		case 'season':
+			return [
+				seasons.filter((season) => season.startsWith(partial)),
+				partial,
+			];
+		case 'sauces':
+			return [
+				[...seasons, 'find'].filter((option) =>
+					option.startsWith(partial.toLowerCase()),
+				),
+				partial,
+			];
+		case 'format':
+			return [
+				EXPORT_FORMATS.filter((format) =>
+					format.startsWith(partial.toLowerCase()),
+				),
+				partial,
+			];
+		case 'guest': {
+			// Inside a search, a guest: field completes the same way
+			const field = partial.match(/guest:"?([^"]*)$/i);
+			const name = field ? field[1] : partial;
+			return [
+				name.trim()
+					? data.guests.filter((guest) => startsWith(guest, name))
+					: [],
+				name,
+			];
+		}
+	}
+}
+
+// A readline completer: command names first, then whatever the command takes
+export function completePrompt(
+	line: string,
+	commands: PromptCommand[],
+	data: CompletionData,
+): [string[], string] {
+	const [, word, partial] = line.match(/^\s*(\S*)(?:\s+(.*))?$/s) ?? [];
+	if (partial === undefined) {
+		// One-letter aliases would only crowd the list
+		const names = [
+			...new Set(commands.flatMap(({ names }) => names)),
+		].filter((name) => name.length > 1);
+		return [
+			names.filter((name) => name.startsWith(word.toLowerCase())),
+			word,
+		];
+	}
+
+	const command = commands.find(
+		({ names }) => names[0] === word.toLowerCase(),
+	);
+	return command?.argument
+		? completeArgument(command.argument, partial, data)
+		: [[], partial];
+}
@@ -0,0 +1,103 @@
+import {
+	diffReports,
+	episodeKey,
+	hasChanges,
+	isSuspiciousShrink,
+} from './report-diff';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (overrides: Partial<HotOnesEpisode>): HotOnesEpisode =>
+	makeEpisode({
+		title: "Tony Yayo Talks Shmoney Dance & Eminem's Taco Habit While Eating Spicy Chicken Wings",
+		guests: ['Tony Yayo'],
+		air_date: '2015-03-12',
+		description: 'Hot questions, and even hotter wings.',
+		tags: [tag('Other', 'Unknown')],
+		...overrides,
+	});
+
+describe('episodeKey', () => {
+	it('keys regular episodes by season and episode', () => {
+		expect(
+			episodeKey(episode({ season_number: 22, episode_number: 5 })),
+		).toBe('S22E5');
+	});
+
+	it('adds the title for specials sharing episode 0', () => {
+		const a = episode({ episode_number: 0, title: 'Truth or Dab' });
+		const b = episode({ episode_number: 0, title: 'Lineup Reveal' });
+		expect(episodeKey(a)).not.toBe(episodeKey(b));
+	});
+
+	it('keys YouTube-only episodes by video ID', () => {
+		const video = episode({
+			season_number: 0,
+			episode_number: 0,
+			youtube_id: 'kdhTSpFmUvk',
+		});
+		expect(episodeKey(video)).toBe('S0E0:kdhTSpFmUvk');
+		expect(episodeKey({ ...video, title: 'Retitled upload' })).toBe(
+			episodeKey(video),
+		);
+	});
+});
+
+describe('diffReports', () => {
+	const first = episode({});
+	const second = episode({
+		episode_number: 2,
+		title: 'Anthony Rizzo On Chicago Cubs Rivalries',
+		guests: ['Anthony Rizzo'],
+	});
+
+	it('reports nothing for identical scrapes', () => {
+		const diff = diffReports([first, second], [first, second]);
+		expect(diff.unchanged).toBe(2);
+		expect(hasChanges(diff)).toBe(false);
+	});
+
+	it('detects added and removed episodes', () => {
+		const third = episode({
+			episode_number: 3,
+			title: 'Machine Gun Kelly',
+		});
+		const diff = diffReports([first, second], [first, third]);
+
+		expect(diff.added).toEqual([third]);
+		expect(diff.removed).toEqual([second]);
+		expect(hasChanges(diff)).toBe(true);
+	});
+
+	it('lists field-level changes for title, air date, description and tags', () => {
+		const updated = {
+			...first,
+			air_date: '2015-03-13',
+			tags: [{ category: 'Music', sub_categories: ['Rapper'] }],
+		};
+		const diff = diffReports([first], [updated]);
+
+		expect(diff.changed).toHaveLength(1);
+		expect(diff.changed[0].key).toBe('S1E1');
+		expect(diff.changed[0].changes).toEqual([
+			{ field: 'air_date', before: '2015-03-12', after: '2015-03-13' },
+			{
+				field: 'tags',
+				before: 'Other (Unknown)',
+				after: 'Music (Rapper)',
+			},
+		]);
+	});
+});
+
+describe('isSuspiciousShrink', () => {
+	it('flags scrapes much smaller than the cached report', () => {
+		expect(isSuspiciousShrink(561, 40)).toBe(true);
+		expect(isSuspiciousShrink(561, 560)).toBe(false);
+		expect(isSuspiciousShrink(561, 600)).toBe(false);
+	});
+
+	it('never flags when there was no previous report', () => {
+		expect(isSuspiciousShrink(0, 0)).toBe(false);
+	});
+});
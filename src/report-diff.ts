@@ -0,0 +1,108 @@
+import { EpisodeTag, HotOnesEpisode } from './types';
+
+export type DiffField = 'title' | 'air_date' | 'description' | 'tags';
+
+export interface FieldChange {
+	field: DiffField;
+	before: string;
+	after: string;
+}
+
+export interface EpisodeChange {
+	key: string;
+	episode: HotOnesEpisode;
+	changes: FieldChange[];
+}
+
+export interface ReportDiff {
+	added: HotOnesEpisode[];
+	removed: HotOnesEpisode[];
+	changed: EpisodeChange[];
+	unchanged: number;
+}
+
+const DIFF_FIELDS: DiffField[] = ['title', 'air_date', 'description', 'tags'];
+
+// A fresh scrape below this share of the cached report is treated as partial
+export const DEFAULT_SHRINK_THRESHOLD = 0.9;
+
+export function episodeKey(episode: HotOnesEpisode): string {
+	const key = `S${episode.season_number}E${episode.episode_number}`;
+	// YouTube-only episodes are all S0E0; their video ID outlives title edits
+	if (key === 'S0E0' && episode.youtube_id) {
+		return `${key}:${episode.youtube_id}`;
+	}
+	// Specials share episode number 0 within a season, so add the title
+	return episode.episode_number === 0 ? `${key}:${episode.title}` : key;
+}
+
+export function diffReports(
+	previous: HotOnesEpisode[],
+	next: HotOnesEpisode[],
+): ReportDiff {
+	const previousByKey = new Map(
+		previous.map((episode) => [episodeKey(episode), episode]),
+	);
+	const nextKeys = new Set(next.map(episodeKey));
+
+	const diff: ReportDiff = {
+		added: [],
+		removed: previous.filter(
+			(episode) => !nextKeys.has(episodeKey(episode)),
+		),
+		changed: [],
+		unchanged: 0,
+	};
+
+	for (const episode of next) {
+		const key = episodeKey(episode);
+		const before = previousByKey.get(key);
+		if (!before) {
+			diff.added.push(episode);
+			continue;
+		}
+
+		const changes = DIFF_FIELDS.map((field) => ({
+			field,
+			before: formatField(before, field),
+			after: formatField(episode, field),
+		})).filter((change) => change.before !== change.after);
+
+		if (changes.length > 0) {
+			diff.changed.push({ key, episode, changes });
+		} else {
+			diff.unchanged++;
+		}
+	}
+
+	return diff;
+}
+
+export function hasChanges(diff: ReportDiff): boolean {
+	return (
+		diff.added.length > 0 ||
+		diff.removed.length > 0 ||
+		diff.changed.length > 0
+	);
+}
+
+export function isSuspiciousShrink(
+	previousCount: number,
+	nextCount: number,
+	threshold = DEFAULT_SHRINK_THRESHOLD,
+): boolean {
+	return previousCount > 0 && nextCount < previousCount * threshold;
+}
+
+function formatField(episode: HotOnesEpisode, field: DiffField): string {
+	if (field === 'tags') {
+		return formatTags(episode.tags);
+	}
+	return episode[field] ?? '';
+}
+
+function formatTags(tags: EpisodeTag[]): string {
+	return tags
+		.map((tag) => `${tag.category} (${tag.sub_categories.join(', ')})`)
+		.join('; ');
+}
@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	createReport,
+	loadReport,
+	migrateReport,
+	parseReport,
+	REPORT_SCHEMA_VERSION,
+	ReportValidationError,
+	saveReport,
+	validateEpisode,
+	validateReport,
+} from './report';
+import { numberEpisodes } from './episode-numbering';
+import { TVDB_LISTING_URL } from './tvdb-parser';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (overrides: Partial<HotOnesEpisode> = {}): HotOnesEpisode =>
+	makeEpisode({
+		title: "Tony Yayo Talks Shmoney Dance & Eminem's Taco Habit While Eating Spicy Chicken Wings",
+		guests: ['Tony Yayo'],
+		topics: ['Shmoney Dance', "Eminem's Taco Habit"],
+		air_date: '2015-03-12',
+		description: 'In "Hot Ones," celebrities eat wings.',
+		tags: [tag('Music', 'Rapper')],
+		...overrides,
+	});
+
+const parseThrown = (json: string): ReportValidationError => {
+	try {
+		parseReport(json);
+	} catch (error) {
+		if (error instanceof ReportValidationError) {
+			return error;
+		}
+		throw error;
+	}
+	throw new Error('Expected parseReport to throw');
+};
+
+describe('validateEpisode', () => {
+	it('accepts a well-formed episode', () => {
+		expect(validateEpisode(episode())).toEqual([]);
+	});
+
+	it('accepts episodes saved before guests and topics existed', () => {
+		const { guests, topics, ...legacy } = episode();
+		expect(validateEpisode(legacy)).toEqual([]);
+	});
+
+	it('reports every bad field with its path', () => {
+		const issues = validateEpisode(
+			{
+				...episode(),
+				season_number: '1',
+				air_date: 'March 12, 2015',
+				tags: [{ category: '', sub_categories: 'Rapper' }],
+			},
+			'episodes[3]',
+		);
+
+		expect(issues.map((issue) => issue.path)).toEqual([
+			'episodes[3].season_number',
+			'episodes[3].air_date',
+			'episodes[3].tags[0].category',
+			'episodes[3].tags[0].sub_categories',
+		]);
+	});
+
+	it('rejects non-objects', () => {
+		expect(validateEpisode(null)).toEqual([
+			{ path: 'episode', message: 'expected an object, got null' },
+		]);
+	});
+});
+
+describe('validateReport', () => {
+	it('accepts a freshly created report', () => {
+		expect(
+			validateReport(createReport([episode()], TVDB_LISTING_URL)),
+		).toEqual([]);
+	});
+
+	it('checks the envelope fields', () => {
+		expect(
+			validateReport({ schema_version: 99, source_url: 1, episodes: {} }),
+		).toEqual([
+			{ path: 'schema_version', message: 'expected 1, got 99' },
+			{
+				path: 'scraped_at',
+				message: 'expected an ISO timestamp or null',
+			},
+			{ path: 'source_url', message: 'expected a string' },
+			{ path: 'episodes', message: 'expected an array' },
+		]);
+	});
+});
+
+describe('migrateReport', () => {
+	it('wraps a bare episode array in the current envelope', () => {
+		const episodes = [episode()];
+
+		expect(migrateReport(episodes, '2024-01-01T00:00:00.000Z')).toEqual({
+			report: {
+				schema_version: REPORT_SCHEMA_VERSION,
+				scraped_at: '2024-01-01T00:00:00.000Z',
+				source_url: TVDB_LISTING_URL,
+				episodes: [
+					{
+						...episodes[0],
+						tags: [
+							expect.objectContaining({
+								category: 'Music',
+								sub_categories: ['Rapper'],
+							}),
+						],
+					},
+				],
+			},
+			migrated: true,
+		});
+	});
+
+	it('re-tags bare-array episodes with the tagging rules', () => {
+		const rizzo = episode({
+			title: 'Anthony Rizzo On Chicago Cubs Rivalries & Baseball Superstitions While Eating Spicy Wings',
+			description:
+				'Chicago Cubs first baseman Anthony Rizzo is a legitimate powerhouse on the baseball diamond.',
+			tags: [
+				{ category: 'Sports', sub_categories: ['Basketball Player'] },
+			],
+		});
+
+		const [migrated] = migrateReport([rizzo]).report.episodes;
+		expect(migrated.tags).toEqual([
+			expect.objectContaining({
+				category: 'Sports',
+				sub_categories: ['Baseball Player'],
+			}),
+		]);
+	});
+
+	it('keeps the tags of versioned reports', () => {
+		const report = createReport(
+			[episode({ tags: [{ category: 'Comedy', sub_categories: [] }] })],
+			TVDB_LISTING_URL,
+		);
+		expect(migrateReport(report).report.episodes[0].tags).toEqual([
+			{ category: 'Comedy', sub_categories: [] },
+		]);
+	});
+
+	it('leaves current reports alone', () => {
+		const report = createReport([episode()], TVDB_LISTING_URL);
+		expect(migrateReport(report)).toEqual({ report, migrated: false });
+	});
+
+	it('refuses reports from a newer version', () => {
+		expect(() =>
+			migrateReport({ schema_version: REPORT_SCHEMA_VERSION + 1 }),
+		).toThrow(/newer than this tool supports/);
+	});
+});
+
+describe('parseReport', () => {
+	it('backfills guests and topics on legacy episodes', () => {
+		const { guests, topics, ...legacy } = episode();
+		const { report } = parseReport(JSON.stringify([legacy]));
+
+		expect(report.episodes[0].guests).toEqual(['Tony Yayo']);
+	});
+
+	it('names exactly which records are malformed', () => {
+		const error = parseThrown(
+			JSON.stringify([
+				episode(),
+				episode({ title: '' }),
+				episode(),
+				{ ...episode(), tags: undefined },
+			]),
+		);
+
+		expect(error.issues.map((issue) => issue.path)).toEqual([
+			'episodes[1].title',
+			'episodes[3].tags',
+		]);
+		expect(error.message).toMatch(/^Invalid report: 2 problems/);
+	});
+});
+
+describe('loadReport / saveReport', () => {
+	let directory: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wing-scrape-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('round-trips a report through disk', () => {
+		const filePath = path.join(directory, 'report.json');
+		const report = createReport(
+			numberEpisodes([episode()]),
+			TVDB_LISTING_URL,
+			new Date('2024-05-01T12:00:00Z'),
+		);
+
+		saveReport(report, filePath);
+		expect(loadReport(filePath)).toEqual({ report, migrated: false });
+	});
+
+	it('dates migrated reports by file modification time', () => {
+		const filePath = path.join(directory, 'report.json');
+		fs.writeFileSync(filePath, JSON.stringify([episode()]));
+		const modified = new Date('2023-11-05T08:30:00Z');
+		fs.utimesSync(filePath, modified, modified);
+
+		const { report, migrated } = loadReport(filePath);
+		expect(migrated).toBe(true);
+		expect(report.scraped_at).toBe(modified.toISOString());
+	});
+});
+
+it('validates the checked-in hot-ones-report.json', () => {
+	const { report } = loadReport(
+		path.join(__dirname, '..', 'hot-ones-report.json'),
+	);
+	expect(report.episodes.length).toBeGreaterThan(500);
+});
@@ -0,0 +1,325 @@
+import { HotOnesEpisode, HotOnesReport } from './types';
+import { withParsedTitle } from './title-parser';
+import { numberEpisodes } from './episode-numbering';
+import { TVDB_LISTING_URL } from './tvdb-parser';
+import { categorizeProfession } from './tagging';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export const DEFAULT_REPORT_PATH = path.join(
+	process.cwd(),
+	'hot-ones-report.json',
+);
+
+export interface ValidationIssue {
+	// Dotted path to the bad value, e.g. "episodes[12].tags[0].category"
+	path: string;
+	message: string;
+}
+
+export class ReportValidationError extends Error {
+	constructor(public readonly issues: ValidationIssue[]) {
+		super(
+			`Invalid report: ${issues.length} problem${
+				issues.length === 1 ? '' : 's'
+			} (first: ${issues[0]?.path}: ${issues[0]?.message})`,
+		);
+		this.name = 'ReportValidationError';
+	}
+}
+
+export interface LoadedReport {
+	report: HotOnesReport;
+	// True when the file was in an older format and was upgraded in memory
+	migrated: boolean;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const typeName = (value: unknown) =>
+	value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+export function createReport(
+	episodes: HotOnesEpisode[],
+	sourceUrl: string,
+	scrapedAt: Date = new Date(),
+): HotOnesReport {
+	return {
+		schema_version: REPORT_SCHEMA_VERSION,
+		scraped_at: scrapedAt.toISOString(),
+		source_url: sourceUrl,
+		episodes,
+	};
+}
+
+export function validateTag(tag: unknown, at: string): ValidationIssue[] {
+	if (!isObject(tag)) {
+		return [
+			{ path: at, message: `expected an object, got ${typeName(tag)}` },
+		];
+	}
+
+	const issues: ValidationIssue[] = [];
+	if (typeof tag.category !== 'string' || tag.category === '') {
+		issues.push({
+			path: `${at}.category`,
+			message: 'expected a non-empty string',
+		});
+	}
+	if (!isStringArray(tag.sub_categories)) {
+		issues.push({
+			path: `${at}.sub_categories`,
+			message: 'expected an array of strings',
+		});
+	}
+	if (
+		tag.confidence !== undefined &&
+		(typeof tag.confidence !== 'number' ||
+			!(tag.confidence >= 0 && tag.confidence <= 1))
+	) {
+		issues.push({
+			path: `${at}.confidence`,
+			message: 'expected a number between 0 and 1',
+		});
+	}
+	return issues;
+}
+
+export function validateEpisode(
+	episode: unknown,
+	at = 'episode',
+): ValidationIssue[] {
+	if (!isObject(episode)) {
+		return [
+			{
+				path: at,
+				message: `expected an object, got ${typeName(episode)}`,
+			},
+		];
+	}
+
+	const issues: ValidationIssue[] = [];
+	const check = (field: string, ok: boolean, message: string) => {
+		if (!ok) {
+			issues.push({ path: `${at}.${field}`, message });
+		}
+	};
+	const isCount = (value: unknown) =>
+		typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+	check(
+		'season_number',
+		isCount(episode.season_number),
+		'expected a non-negative integer',
+	);
+	check(
+		'episode_number',
+		isCount(episode.episode_number),
+		'expected a non-negative integer',
+	);
+	check(
+		'title',
+		typeof episode.title === 'string' && episode.title !== '',
+		'expected a non-empty string',
+	);
+	check(
+		'air_date',
+		typeof episode.air_date === 'string' &&
+			(episode.air_date === '' ||
+				/^\d{4}-\d{2}-\d{2}/.test(episode.air_date)),
+		'expected an ISO date (YYYY-MM-DD) or an empty string',
+	);
+	check(
+		'description',
+		typeof episode.description === 'string',
+		'expected a string',
+	);
+	// Reports written before title parsing existed have no guests/topics
+	check(
+		'guests',
+		episode.guests === undefined || isStringArray(episode.guests),
+		'expected an array of strings',
+	);
+	check(
+		'topics',
+		episode.topics === undefined || isStringArray(episode.topics),
+		'expected an array of strings',
+	);
+	check(
+		'note',
+		episode.note === undefined || typeof episode.note === 'string',
+		'expected a string',
+	);
+	check(
+		'is_special',
+		episode.is_special === undefined ||
+			typeof episode.is_special === 'boolean',
+		'expected a boolean',
+	);
+	check(
+		'special_number',
+		episode.special_number === undefined || isCount(episode.special_number),
+		'expected a non-negative integer',
+	);
+	check(
+		'absolute_number',
+		episode.absolute_number === undefined ||
+			(isCount(episode.absolute_number) && episode.absolute_number !== 0),
+		'expected a positive integer',
+	);
+	check(
+		'youtube_id',
+		episode.youtube_id === undefined ||
+			episode.youtube_id === null ||
+			typeof episode.youtube_id === 'string',
+		'expected a string or null',
+	);
+
+	if (!Array.isArray(episode.tags)) {
+		check('tags', false, 'expected an array of tags');
+	} else {
+		episode.tags.forEach((tag: unknown, index) =>
+			issues.push(...validateTag(tag, `${at}.tags[${index}]`)),
+		);
+	}
+
+	return issues;
+}
+
+export function validateReport(report: unknown): ValidationIssue[] {
+	if (!isObject(report)) {
+		return [
+			{
+				path: 'report',
+				message: `expected an object, got ${typeName(report)}`,
+			},
+		];
+	}
+
+	const issues: ValidationIssue[] = [];
+	if (report.schema_version !== REPORT_SCHEMA_VERSION) {
+		issues.push({
+			path: 'schema_version',
+			message: `expected ${REPORT_SCHEMA_VERSION}, got ${String(
+				report.schema_version,
+			)}`,
+		});
+	}
+	if (report.scraped_at !== null && typeof report.scraped_at !== 'string') {
+		issues.push({
+			path: 'scraped_at',
+			message: 'expected an ISO timestamp or null',
+		});
+	}
+	if (typeof report.source_url !== 'string') {
+		issues.push({ path: 'source_url', message: 'expected a string' });
+	}
+
+	if (!Array.isArray(report.episodes)) {
+		issues.push({ path: 'episodes', message: 'expected an array' });
+	} else {
+		report.episodes.forEach((episode: unknown, index) =>
+			issues.push(...validateEpisode(episode, `episodes[${index}]`)),
+		);
+	}
+
+	return issues;
+}
+
+// Bare-array reports were tagged by the keyword lists the rule engine
+// replaced. Malformed records are left for validation to report.
+const retagLegacy = (episode: unknown) =>
+	isObject(episode) &&
+	typeof episode.title === 'string' &&
+	typeof episode.description === 'string' &&
+	Array.isArray(episode.tags)
+		? {
+				...episode,
+				tags: categorizeProfession(episode.title, episode.description),
+		  }
+		: episode;
+
+// Upgrades older report layouts to the current envelope, without validating
+export function migrateReport(
+	data: unknown,
+	scrapedAt: string | null = null,
+): LoadedReport {
+	// Version 0: a bare array of episodes, always scraped from TheTVDB, and
+	// from before overrides existed, so nothing pins their tags
+	if (Array.isArray(data)) {
+		return {
+			report: {
+				schema_version: REPORT_SCHEMA_VERSION,
+				scraped_at: scrapedAt,
+				source_url: TVDB_LISTING_URL,
+				episodes: data.map(retagLegacy) as HotOnesEpisode[],
+			},
+			migrated: true,
+		};
+	}
+
+	if (
+		isObject(data) &&
+		typeof data.schema_version === 'number' &&
+		data.schema_version > REPORT_SCHEMA_VERSION
+	) {
+		throw new Error(
+			`Report schema version ${data.schema_version} is newer than this tool supports (${REPORT_SCHEMA_VERSION})`,
+		);
+	}
+
+	return { report: data as HotOnesReport, migrated: false };
+}
+
+// Parses, migrates and validates a report; throws ReportValidationError
+export function parseReport(
+	json: string,
+	scrapedAt: string | null = null,
+): LoadedReport {
+	const { report, migrated } = migrateReport(JSON.parse(json), scrapedAt);
+
+	const issues = validateReport(report);
+	if (issues.length > 0) {
+		throw new ReportValidationError(issues);
+	}
+
+	return {
+		report: {
+			...report,
+			episodes: numberEpisodes(report.episodes.map(withParsedTitle)),
+		},
+		migrated,
+	};
+}
+
+export function loadReport(filePath = DEFAULT_REPORT_PATH): LoadedReport {
+	const json = fs.readFileSync(filePath, 'utf-8');
+	// Bare-array reports carry no timestamp, the file's mtime is the best guess
+	const modifiedAt = fs.statSync(filePath).mtime.toISOString();
+	return parseReport(json, modifiedAt);
+}
+
+export function saveReport(
+	report: HotOnesReport,
+	filePath = DEFAULT_REPORT_PATH,
+): void {
+	fs.writeFileSync(filePath, JSON.stringify(report, null, 2));
+}
+
+export function formatIssues(issues: ValidationIssue[], limit = 10): string[] {
+	const lines = issues
+		.slice(0, limit)
+		.map((issue) => `${issue.path}: ${issue.message}`);
+	if (issues.length > limit) {
+		lines.push(`...and ${issues.length - limit} more`);
+	}
+	return lines;
+}
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	findLineup,
+	findSauce,
+	formatScoville,
+	lineupForEpisode,
+	loadSauceCatalog,
+	SauceCatalog,
+	SaucesError,
+	seasonHeat,
+	validateSauceCatalog,
+} from './sauces';
+import { HotOnesEpisode, HotSauce } from './types';
+import { makeEpisode } from './__fixtures__/episodes';
+
+const sauce = (
+	wing: number,
+	name: string,
+	scoville: number,
+	last_dab = false,
+): HotSauce => ({ name, maker: `${name} Co.`, scoville, wing, last_dab });
+
+const catalog: SauceCatalog = {
+	schema_version: 1,
+	lineups: [
+		{
+			season: 2,
+			sauces: [
+				sauce(3, 'Mad Dog 357', 357000),
+				sauce(1, 'Sriracha', 2200),
+				sauce(2, 'Da Bomb Beyond Insanity', 135600),
+			],
+		},
+		{
+			season: 1,
+			sauces: [
+				sauce(1, 'Sriracha', 2200),
+				sauce(2, 'The Last Dab', 2000000, true),
+			],
+		},
+	],
+};
+
+const episode = (
+	season_number: number,
+	episode_number: number,
+): HotOnesEpisode => makeEpisode({ season_number, episode_number });
+
+describe('validateSauceCatalog', () => {
+	it('accepts a well-formed catalog', () => {
+		expect(validateSauceCatalog(catalog)).toEqual([]);
+	});
+
+	it('reports bad sauces, repeated wings and repeated seasons', () => {
+		const issues = validateSauceCatalog({
+			schema_version: 1,
+			lineups: [
+				{
+					season: 3,
+					sauces: [
+						sauce(1, 'Sriracha', 2200),
+						sauce(1, 'Cholula', 1000),
+						{ ...sauce(11, '', -5), last_dab: 'yes' },
+					],
+				},
+				{ season: 3, sauces: [] },
+			],
+		});
+
+		expect(issues.map(({ path }) => path)).toEqual([
+			'lineups[0].sauces[1].wing',
+			'lineups[0].sauces[2].name',
+			'lineups[0].sauces[2].scoville',
+			'lineups[0].sauces[2].wing',
+			'lineups[0].sauces[2].last_dab',
+			'lineups[1].season',
+			'lineups[1].sauces',
+		]);
+	});
+});
+
+describe('loadSauceCatalog', () => {
+	let directory: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(
+			path.join(os.tmpdir(), 'wing-scrape-sauces-'),
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('treats a missing file as no lineups', () => {
+		expect(loadSauceCatalog(path.join(directory, 'none.json'))).toEqual({
+			schema_version: 1,
+			lineups: [],
+		});
+	});
+
+	it('rejects an invalid file', () => {
+		const filePath = path.join(directory, 'sauces.json');
+		fs.writeFileSync(filePath, JSON.stringify({ schema_version: 1 }));
+
+		expect(() => loadSauceCatalog(filePath)).toThrow(SaucesError);
+	});
+});
+
+it('lists a lineup mildest wing first', () => {
+	expect(findLineup(catalog, 2)?.sauces.map(({ wing }) => wing)).toEqual([
+		1, 2, 3,
+	]);
+	expect(findLineup(catalog, 9)).toBeUndefined();
+});
+
+it('links regular episodes, but not specials, to their season lineup', () => {
+	expect(lineupForEpisode(catalog, episode(1, 4))?.season).toBe(1);
+	expect(lineupForEpisode(catalog, episode(1, 0))).toBeUndefined();
+});
+
+it('finds every season a sauce or maker appeared in', () => {
+	expect(
+		findSauce(catalog, 'SRIRACHA').map(({ season, sauce }) => [
+			season,
+			sauce.wing,
+		]),
+	).toEqual([
+		[1, 1],
+		[2, 1],
+	]);
+	expect(findSauce(catalog, 'insanity co.')).toHaveLength(1);
+	expect(findSauce(catalog, 'ketchup')).toEqual([]);
+});
+
+it('charts the heat of each season', () => {
+	expect(
+		seasonHeat(catalog).map(({ season, hottest, median, lastDab }) => ({
+			season,
+			hottest: hottest.name,
+			median,
+			lastDab: lastDab?.name,
+		})),
+	).toEqual([
+		{
+			season: 1,
+			hottest: 'The Last Dab',
+			median: 1001100,
+			lastDab: 'The Last Dab',
+		},
+		{
+			season: 2,
+			hottest: 'Mad Dog 357',
+			median: 135600,
+			lastDab: undefined,
+		},
+	]);
+	expect(formatScoville(2000000)).toBe('2,000,000 SHU');
+});
@@ -0,0 +1,246 @@
+import { HotOnesEpisode, HotSauce, SauceLineup } from './types';
+import { ValidationIssue } from './report';
+import { isSpecial } from './episode-numbering';
+import { normalizeText } from './search-index';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const SAUCES_SCHEMA_VERSION = 1;
+
+export const DEFAULT_SAUCES_PATH = path.join(
+	process.cwd(),
+	'hot-ones-sauces.json',
+);
+
+export const WINGS_PER_LINEUP = 10;
+
+// Hand-curated lineups; TheTVDB has no sauce data to scrape
+export interface SauceCatalog {
+	schema_version: number;
+	lineups: SauceLineup[];
+}
+
+export interface SauceAppearance {
+	season: number;
+	sauce: HotSauce;
+}
+
+// One point on the heat chart
+export interface SeasonHeat {
+	season: number;
+	mildest: HotSauce;
+	hottest: HotSauce;
+	// Middle of the lineup by Scoville, what a typical wing feels like
+	median: number;
+	lastDab?: HotSauce;
+}
+
+export class SaucesError extends Error {
+	constructor(
+		message: string,
+		public readonly issues: ValidationIssue[] = [],
+	) {
+		super(message);
+		this.name = 'SaucesError';
+	}
+}
+
+export function emptySauceCatalog(): SauceCatalog {
+	return { schema_version: SAUCES_SCHEMA_VERSION, lineups: [] };
+}
+
+const isWholeNumber = (value: unknown, min: number) =>
+	typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+function validateSauce(sauce: unknown, at: string): ValidationIssue[] {
+	if (typeof sauce !== 'object' || sauce === null || Array.isArray(sauce)) {
+		return [{ path: at, message: 'expected an object' }];
+	}
+
+	const { scoville, wing, last_dab } = sauce as Partial<HotSauce>;
+	const issues: ValidationIssue[] = [];
+	(['name', 'maker'] as const).forEach((field) => {
+		const value = (sauce as Partial<HotSauce>)[field];
+		if (typeof value !== 'string' || value.trim() === '') {
+			issues.push({
+				path: `${at}.${field}`,
+				message: 'expected a non-empty string',
+			});
+		}
+	});
+	if (!isWholeNumber(scoville, 0)) {
+		issues.push({
+			path: `${at}.scoville`,
+			message: 'expected a whole number of Scoville units',
+		});
+	}
+	if (!isWholeNumber(wing, 1) || wing! > WINGS_PER_LINEUP) {
+		issues.push({
+			path: `${at}.wing`,
+			message: `expected a wing from 1 to ${WINGS_PER_LINEUP}`,
+		});
+	}
+	if (typeof last_dab !== 'boolean') {
+		issues.push({ path: `${at}.last_dab`, message: 'expected a boolean' });
+	}
+	return issues;
+}
+
+export function validateSauceCatalog(data: unknown): ValidationIssue[] {
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		return [{ path: 'sauces', message: 'expected an object' }];
+	}
+
+	const { schema_version, lineups } = data as Partial<SauceCatalog>;
+	const issues: ValidationIssue[] = [];
+	if (schema_version !== SAUCES_SCHEMA_VERSION) {
+		issues.push({
+			path: 'schema_version',
+			message: `expected ${SAUCES_SCHEMA_VERSION}`,
+		});
+	}
+	if (!Array.isArray(lineups)) {
+		return [
+			...issues,
+			{ path: 'lineups', message: 'expected an array of lineups' },
+		];
+	}
+
+	const seasons = new Set<number>();
+	lineups.forEach((lineup: Partial<SauceLineup>, index) => {
+		const at = `lineups[${index}]`;
+		if (!isWholeNumber(lineup?.season, 1)) {
+			issues.push({
+				path: `${at}.season`,
+				message: 'expected a season number from 1',
+			});
+		} else if (seasons.has(lineup.season!)) {
+			issues.push({
+				path: `${at}.season`,
+				message: `season ${lineup.season} already has a lineup`,
+			});
+		} else {
+			seasons.add(lineup.season!);
+		}
+
+		if (
+			!Array.isArray(lineup?.sauces) ||
+			lineup.sauces.length === 0 ||
+			lineup.sauces.length > WINGS_PER_LINEUP
+		) {
+			issues.push({
+				path: `${at}.sauces`,
+				message: `expected 1 to ${WINGS_PER_LINEUP} sauces`,
+			});
+			return;
+		}
+
+		const wings = new Set<number>();
+		lineup.sauces.forEach((sauce, sauceIndex) => {
+			const sauceAt = `${at}.sauces[${sauceIndex}]`;
+			const sauceIssues = validateSauce(sauce, sauceAt);
+			issues.push(...sauceIssues);
+			if (sauceIssues.length === 0 && wings.has(sauce.wing)) {
+				issues.push({
+					path: `${sauceAt}.wing`,
+					message: `wing ${sauce.wing} is listed twice`,
+				});
+			}
+			wings.add(sauce?.wing);
+		});
+	});
+
+	return issues;
+}
+
+// A missing file just means no lineups have been curated yet
+export function loadSauceCatalog(filePath = DEFAULT_SAUCES_PATH): SauceCatalog {
+	if (!fs.existsSync(filePath)) {
+		return emptySauceCatalog();
+	}
+
+	const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+	const issues = validateSauceCatalog(data);
+	if (issues.length > 0) {
+		throw new SaucesError(
+			`Invalid sauces file ${filePath}: ${issues[0].path}: ${issues[0].message}`,
+			issues,
+		);
+	}
+	return data as SauceCatalog;
+}
+
+// Mildest wing first, whatever order the file lists them in
+export function findLineup(
+	catalog: SauceCatalog,
+	season: number,
+): SauceLineup | undefined {
+	const lineup = catalog.lineups.find((entry) => entry.season === season);
+	return (
+		lineup && {
+			season,
+			sauces: [...lineup.sauces].sort((a, b) => a.wing - b.wing),
+		}
+	);
+}
+
+// Specials are filmed outside the season's lineup, so they have none
+export function lineupForEpisode(
+	catalog: SauceCatalog,
+	episode: HotOnesEpisode,
+): SauceLineup | undefined {
+	return isSpecial(episode)
+		? undefined
+		: findLineup(catalog, episode.season_number);
+}
+
+export const findLastDab = (lineup: SauceLineup) =>
+	lineup.sauces.find((sauce) => sauce.last_dab);
+
+// Every season a sauce (or a maker's sauces) appeared in, by season
+export function findSauce(
+	catalog: SauceCatalog,
+	query: string,
+): SauceAppearance[] {
+	const wanted = normalizeText(query.trim());
+	return catalog.lineups
+		.flatMap(({ season, sauces }) =>
+			sauces
+				.filter(
+					(sauce) =>
+						normalizeText(sauce.name).includes(wanted) ||
+						normalizeText(sauce.maker).includes(wanted),
+				)
+				.map((sauce) => ({ season, sauce })),
+		)
+		.sort((a, b) => a.season - b.season || a.sauce.wing - b.sauce.wing);
+}
+
+export function seasonHeat(catalog: SauceCatalog): SeasonHeat[] {
+	return catalog.lineups
+		.map((lineup) => {
+			const byHeat = [...lineup.sauces].sort(
+				(a, b) => a.scoville - b.scoville,
+			);
+			const middle = Math.floor(byHeat.length / 2);
+			return {
+				season: lineup.season,
+				mildest: byHeat[0],
+				hottest: byHeat[byHeat.length - 1],
+				median:
+					byHeat.length % 2 === 1
+						? byHeat[middle].scoville
+						: Math.round(
+								(byHeat[middle - 1].scoville +
+									byHeat[middle].scoville) /
+									2,
+						  ),
+				lastDab: findLastDab(lineup),
+			};
+		})
+		.sort((a, b) => a.season - b.season);
+}
+
+// "2,000,000 SHU"
+export const formatScoville = (scoville: number) =>
+	`${scoville.toLocaleString('en-US')} SHU`;
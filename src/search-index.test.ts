@@ -0,0 +1,194 @@
+import {
+	editDistance,
+	parseQuery,
+	SearchIndex,
+	SearchQueryError,
+	tokenize,
+} from './search-index';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	overrides: Partial<HotOnesEpisode> & Pick<HotOnesEpisode, 'title'>,
+): HotOnesEpisode =>
+	makeEpisode({ tags: [tag('Other', 'Unknown')], ...overrides });
+
+const episodes = [
+	episode({
+		title: "Conan O'Brien Needs a Doctor While Eating Spicy Wings",
+		guests: ["Conan O'Brien"],
+		season_number: 23,
+		air_date: '2024-01-25',
+		tags: [{ category: 'Comedy', sub_categories: ['Stand-up Comedian'] }],
+	}),
+	episode({
+		title: 'Sean Evans Reveals the Season 22 Hot Sauce Lineup',
+		description: 'Conan returns in the season premiere.',
+		season_number: 22,
+		air_date: '2023-09-14',
+	}),
+	episode({
+		title: 'Scarlett Johansson Tries To Not Spoil Avengers',
+		guests: ['Scarlett Johansson'],
+		season_number: 6,
+		air_date: '2018-04-26',
+		tags: [{ category: 'Movie/TV', sub_categories: ['Actress'] }],
+	}),
+	episode({
+		title: 'Kendrick Lamar Gets Serious While Eating Spicy Wings',
+		guests: ['Kendrick Lamar'],
+		season_number: 6,
+		air_date: '2018-06-14',
+		tags: [{ category: 'Music', sub_categories: ['Rapper'] }],
+	}),
+	episode({
+		title: 'Truth or Dab: The Holiday Special',
+		season_number: 0,
+	}),
+];
+
+const index = new SearchIndex(episodes);
+const search = (query: string) =>
+	index.search(query).map(({ number }) => number);
+
+describe('tokenize', () => {
+	it('lowercases, strips accents and apostrophes', () => {
+		expect(tokenize("Beyoncé & Conan O'Brien")).toEqual([
+			'beyonce',
+			'conan',
+			'obrien',
+		]);
+	});
+});
+
+describe('editDistance', () => {
+	it('counts single-character edits', () => {
+		expect(editDistance('kendrik', 'kendrick')).toBe(1);
+		expect(editDistance('scarlet', 'scarlett')).toBe(1);
+		expect(editDistance('conan', 'cohan')).toBe(1);
+		expect(editDistance('sean', 'evans')).toBe(3);
+	});
+
+	it('stops early once the limit is exceeded', () => {
+		expect(editDistance('a', 'abcdef', 2)).toBe(3);
+	});
+});
+
+describe('parseQuery', () => {
+	it('gives NOT precedence over AND, and AND over OR', () => {
+		expect(parseQuery('a b OR NOT c')).toEqual({
+			type: 'or',
+			children: [
+				{
+					type: 'and',
+					children: [
+						{
+							type: 'term',
+							field: null,
+							value: 'a',
+							phrase: false,
+						},
+						{
+							type: 'term',
+							field: null,
+							value: 'b',
+							phrase: false,
+						},
+					],
+				},
+				{
+					type: 'not',
+					child: {
+						type: 'term',
+						field: null,
+						value: 'c',
+						phrase: false,
+					},
+				},
+			],
+		});
+	});
+
+	it('reads qualifiers, quoted phrases and - as NOT', () => {
+		expect(parseQuery('guest:"conan obrien" -season:1')).toEqual({
+			type: 'and',
+			children: [
+				{
+					type: 'term',
+					field: 'guest',
+					value: 'conan obrien',
+					phrase: true,
+				},
+				{
+					type: 'not',
+					child: {
+						type: 'term',
+						field: 'season',
+						value: '1',
+						phrase: false,
+					},
+				},
+			],
+		});
+	});
+
+	it('reports malformed queries', () => {
+		expect(() => parseQuery('')).toThrow(SearchQueryError);
+		expect(() => parseQuery('(conan')).toThrow(/closing parenthesis/);
+		expect(() => parseQuery('conan OR')).toThrow(/ends unexpectedly/);
+		expect(() => parseQuery('OR conan')).toThrow(/Unexpected OR/);
+	});
+});
+
+describe('SearchIndex', () => {
+	it('ranks title and guest hits above description hits', () => {
+		expect(search('conan')).toEqual([1, 2]);
+	});
+
+	it('tolerates typos in guest names', () => {
+		expect(search('kendrik')).toEqual([4]);
+		expect(search('guest:scarlet')).toEqual([3]);
+		expect(search('guest:"connan obrien"')).toEqual([1]);
+	});
+
+	it('ranks exact guest matches above fuzzy ones', () => {
+		const [exact, fuzzy] = new SearchIndex([
+			episode({ title: 'Lauren Cohan', guests: ['Lauren Cohan'] }),
+			episode({ title: 'Conan', guests: ['Conan'] }),
+		]).search('conan');
+
+		expect(exact.episode.title).toBe('Conan');
+		expect(fuzzy.score).toBeLessThan(exact.score);
+	});
+
+	it('filters with season, category, year and date qualifiers', () => {
+		expect(search('season:6')).toEqual([3, 4]);
+		expect(search('season:20-23')).toEqual([1, 2]);
+		expect(search('category:music')).toEqual([4]);
+		expect(search('category:actress')).toEqual([3]);
+		// Aliases resolve through the taxonomy
+		expect(search('category:emcee')).toEqual([4]);
+		expect(search('year:2018')).toEqual([3, 4]);
+		expect(search('before:2018-05')).toEqual([3]);
+		expect(search('after:2018')).toEqual([1, 2]);
+	});
+
+	it('combines clauses with AND, OR and NOT', () => {
+		expect(search('season:6 AND NOT category:music')).toEqual([3]);
+		expect(search('category:music OR category:comedy')).toEqual([1, 4]);
+		expect(search('conan -category:comedy')).toEqual([2]);
+		expect(search('(kendrick OR scarlett) year:2018')).toEqual([3, 4]);
+	});
+
+	it('matches quoted phrases in order', () => {
+		expect(search('"hot sauce lineup"')).toEqual([2]);
+		expect(search('"lineup sauce"')).toEqual([]);
+	});
+
+	it('rejects bad qualifier values', () => {
+		expect(() => index.search('season:six')).toThrow(SearchQueryError);
+		expect(() => index.search('before:yesterday')).toThrow(
+			/"before:" needs a date/,
+		);
+	});
+});
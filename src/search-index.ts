@@ -0,0 +1,524 @@
+import { HotOnesEpisode } from './types';
+import { episodeMatchesNode, findTaxonomyNode } from './taxonomy';
+
+export const QUERY_FIELDS = [
+	'guest',
+	'title',
+	'season',
+	'category',
+	'year',
+	'before',
+	'after',
+] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+export type QueryNode =
+	| { type: 'term'; field: QueryField | null; value: string; phrase: boolean }
+	| { type: 'and' | 'or'; children: QueryNode[] }
+	| { type: 'not'; child: QueryNode };
+
+export interface SearchResult {
+	number: number;
+	episode: HotOnesEpisode;
+	score: number;
+}
+
+export class SearchQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'SearchQueryError';
+	}
+}
+
+// Title hits outrank topic hits, which outrank description hits
+const FIELD_WEIGHTS = {
+	guests: 5,
+	title: 3,
+	topics: 2,
+	description: 1,
+};
+
+// Fuzzy (typo-tolerant) guest matches count for less than exact ones
+const FUZZY_PENALTY = 0.5;
+
+const PARTIAL_DATE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+type Token =
+	| { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+	| {
+			kind: 'term';
+			negate: boolean;
+			field: QueryField | null;
+			value: string;
+			phrase: boolean;
+	  };
+
+type Scores = Map<number, number>;
+
+export function normalizeText(text: string): string {
+	return text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/['’]/g, '');
+}
+
+export function tokenize(text: string): string[] {
+	return normalizeText(text)
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+}
+
+// Allowed typos grow with the word: none for short words, up to 2 for long ones
+const maxTypos = (token: string) =>
+	token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+
+export function editDistance(a: string, b: string, limit = Infinity): number {
+	if (Math.abs(a.length - b.length) > limit) {
+		return limit + 1;
+	}
+
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+			rowMin = Math.min(rowMin, current[j]);
+		}
+		if (rowMin > limit) {
+			return limit + 1;
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+const isFuzzyMatch = (queryToken: string, token: string) =>
+	queryToken === token ||
+	editDistance(queryToken, token, maxTypos(queryToken)) <=
+		maxTypos(queryToken);
+
+function lex(query: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < query.length) {
+		const char = query[i];
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+		if (char === '(' || char === ')') {
+			tokens.push({ kind: char === '(' ? 'lparen' : 'rparen' });
+			i++;
+			continue;
+		}
+
+		let negate = false;
+		if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+			negate = true;
+			i++;
+		}
+
+		let field: QueryField | null = null;
+		const qualifier = query.slice(i).match(/^([a-z]+):(?=\S)/i);
+		if (
+			qualifier &&
+			(QUERY_FIELDS as readonly string[]).includes(
+				qualifier[1].toLowerCase(),
+			)
+		) {
+			field = qualifier[1].toLowerCase() as QueryField;
+			i += qualifier[0].length;
+		}
+
+		let value: string;
+		let phrase = false;
+		if (query[i] === '"') {
+			const end = query.indexOf('"', i + 1);
+			value = query.slice(i + 1, end === -1 ? undefined : end);
+			i = end === -1 ? query.length : end + 1;
+			phrase = true;
+		} else {
+			const word = query.slice(i).match(/^[^\s()]+/);
+			value = word ? word[0] : '';
+			i += value.length;
+		}
+
+		if (!negate && !field && !phrase && /^(AND|OR|NOT)$/.test(value)) {
+			tokens.push({
+				kind: value.toLowerCase() as 'and' | 'or' | 'not',
+			});
+			continue;
+		}
+		if (value.trim() === '') {
+			throw new SearchQueryError(
+				field ? `"${field}:" needs a value` : 'Empty search term',
+			);
+		}
+		tokens.push({ kind: 'term', negate, field, value, phrase });
+	}
+
+	return tokens;
+}
+
+// Precedence: NOT binds tightest, then AND (also implied by a space), then OR
+export function parseQuery(query: string): QueryNode {
+	const tokens = lex(query);
+	let position = 0;
+
+	const peek = () => tokens[position];
+
+	const parseUnary = (): QueryNode => {
+		const token = tokens[position++];
+		if (!token) {
+			throw new SearchQueryError('Query ends unexpectedly');
+		}
+
+		switch (token.kind) {
+			case 'not':
+				return { type: 'not', child: parseUnary() };
+			case 'lparen': {
+				const node = parseOr();
+				if (peek()?.kind !== 'rparen') {
+					throw new SearchQueryError('Missing closing parenthesis');
+				}
+				position++;
+				return node;
+			}
+			case 'term': {
+				const { negate, field, value, phrase } = token;
+				const node: QueryNode = { type: 'term', field, value, phrase };
+				return negate ? { type: 'not', child: node } : node;
+			}
+			default:
+				throw new SearchQueryError(
+					`Unexpected ${
+						token.kind === 'rparen'
+							? '")"'
+							: token.kind.toUpperCase()
+					}`,
+				);
+		}
+	};
+
+	const parseAnd = (): QueryNode => {
+		const children = [parseUnary()];
+		while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+			if (peek().kind === 'and') {
+				position++;
+			}
+			children.push(parseUnary());
+		}
+		return children.length === 1 ? children[0] : { type: 'and', children };
+	};
+
+	const parseOr = (): QueryNode => {
+		const children = [parseAnd()];
+		while (peek()?.kind === 'or') {
+			position++;
+			children.push(parseAnd());
+		}
+		return children.length === 1 ? children[0] : { type: 'or', children };
+	};
+
+	if (tokens.length === 0) {
+		throw new SearchQueryError('Empty search query');
+	}
+
+	const node = parseOr();
+	if (position < tokens.length) {
+		throw new SearchQueryError('Unexpected ")"');
+	}
+	return node;
+}
+
+// Inverted index over guests, titles, topics and descriptions
+export class SearchIndex {
+	// token -> episode index -> summed weight of the fields it appears in
+	private postings = new Map<string, Map<number, number>>();
+	// Guest-name tokens, the vocabulary fuzzy matching runs against
+	private guestTokens = new Map<string, Set<number>>();
+	private normalizedFields: Record<keyof typeof FIELD_WEIGHTS, string>[];
+
+	constructor(private episodes: HotOnesEpisode[]) {
+		this.normalizedFields = episodes.map((episode) => ({
+			guests: normalizeText(episode.guests.join(' | ')),
+			title: normalizeText(episode.title),
+			topics: normalizeText(episode.topics.join(' | ')),
+			description: normalizeText(episode.description),
+		}));
+
+		episodes.forEach((episode, index) => {
+			const fields: Record<keyof typeof FIELD_WEIGHTS, string[]> = {
+				guests: episode.guests.flatMap(tokenize),
+				title: tokenize(episode.title),
+				topics: episode.topics.flatMap(tokenize),
+				description: tokenize(episode.description),
+			};
+
+			(Object.keys(fields) as (keyof typeof FIELD_WEIGHTS)[]).forEach(
+				(field) => {
+					new Set(fields[field]).forEach((token) => {
+						const posting = this.postings.get(token) ?? new Map();
+						posting.set(
+							index,
+							(posting.get(index) ?? 0) + FIELD_WEIGHTS[field],
+						);
+						this.postings.set(token, posting);
+					});
+				},
+			);
+
+			fields.guests.forEach((token) => {
+				const guests = this.guestTokens.get(token) ?? new Set();
+				guests.add(index);
+				this.guestTokens.set(token, guests);
+			});
+		});
+	}
+
+	// Ranked by relevance, then by position in the report
+	search(query: string): SearchResult[] {
+		const scores = this.evaluate(parseQuery(query));
+
+		return [...scores.entries()]
+			.sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a - b)
+			.map(([index, score]) => ({
+				number: index + 1,
+				episode: this.episodes[index],
+				score: Math.round(score * 100) / 100,
+			}));
+	}
+
+	private evaluate(node: QueryNode): Scores {
+		switch (node.type) {
+			case 'term':
+				return node.field
+					? this.matchField(node.field, node.value)
+					: this.matchText(node.value, node.phrase);
+			case 'not': {
+				const excluded = this.evaluate(node.child);
+				const scores: Scores = new Map();
+				this.episodes.forEach((_, index) => {
+					if (!excluded.has(index)) {
+						scores.set(index, 0);
+					}
+				});
+				return scores;
+			}
+			case 'and':
+				return node.children
+					.map((child) => this.evaluate(child))
+					.reduce(intersect);
+			case 'or':
+				return node.children
+					.map((child) => this.evaluate(child))
+					.reduce(union);
+		}
+	}
+
+	private idf(documentFrequency: number): number {
+		return Math.log(1 + this.episodes.length / documentFrequency);
+	}
+
+	private matchToken(token: string): Scores {
+		const scores: Scores = new Map();
+
+		const exact = this.postings.get(token);
+		if (exact) {
+			const idf = this.idf(exact.size);
+			exact.forEach((weight, index) => scores.set(index, weight * idf));
+		}
+
+		// Typo-tolerant matching against guest names
+		if (maxTypos(token) > 0) {
+			this.guestTokens.forEach((episodes, guestToken) => {
+				if (guestToken === token || !isFuzzyMatch(token, guestToken)) {
+					return;
+				}
+				const score =
+					FIELD_WEIGHTS.guests *
+					this.idf(episodes.size) *
+					FUZZY_PENALTY;
+				episodes.forEach((index) =>
+					scores.set(index, Math.max(scores.get(index) ?? 0, score)),
+				);
+			});
+		}
+
+		return scores;
+	}
+
+	private matchText(value: string, phrase: boolean): Scores {
+		const tokens = tokenize(value);
+		if (tokens.length === 0) {
+			return new Map();
+		}
+
+		const scores = tokens
+			.map((token) => this.matchToken(token))
+			.reduce(intersect);
+		if (!phrase || tokens.length === 1) {
+			return scores;
+		}
+
+		// Phrases must appear as written (after normalisation) in some field
+		const normalizedPhrase = tokens.join(' ');
+		const phraseScores: Scores = new Map();
+		scores.forEach((score, index) => {
+			const fields = this.normalizedFields[index];
+			const hit = Object.values(fields).some((text) =>
+				text.replace(/[^a-z0-9]+/g, ' ').includes(normalizedPhrase),
+			);
+			if (hit) {
+				phraseScores.set(index, score);
+			}
+		});
+		return phraseScores;
+	}
+
+	private matchField(field: QueryField, value: string): Scores {
+		const scores: Scores = new Map();
+		const add = (index: number, score: number) => scores.set(index, score);
+
+		switch (field) {
+			case 'guest': {
+				const queryTokens = tokenize(value);
+				this.episodes.forEach((episode, index) => {
+					let best = 0;
+					episode.guests.forEach((guest) => {
+						const guestTokens = tokenize(guest);
+						const exact = queryTokens.every((token) =>
+							guestTokens.includes(token),
+						);
+						const fuzzy = queryTokens.every((token) =>
+							guestTokens.some((guestToken) =>
+								isFuzzyMatch(token, guestToken),
+							),
+						);
+						if (exact) {
+							best = Math.max(best, FIELD_WEIGHTS.guests * 2);
+						} else if (fuzzy) {
+							best = Math.max(best, FIELD_WEIGHTS.guests);
+						}
+					});
+					if (queryTokens.length > 0 && best > 0) {
+						add(index, best);
+					}
+				});
+				break;
+			}
+			case 'title': {
+				const phrase = tokenize(value).join(' ');
+				this.normalizedFields.forEach((fields, index) => {
+					if (
+						phrase &&
+						` ${fields.title.replace(
+							/[^a-z0-9]+/g,
+							' ',
+						)} `.includes(` ${phrase} `)
+					) {
+						add(index, FIELD_WEIGHTS.title * 2);
+					}
+				});
+				break;
+			}
+			case 'season': {
+				const range = value.match(/^(\d+)(?:-(\d+))?$/);
+				if (!range) {
+					throw new SearchQueryError(
+						`"season:" needs a number or range like 3-5, got "${value}"`,
+					);
+				}
+				const from = Number(range[1]);
+				const to = Number(range[2] ?? range[1]);
+				this.episodes.forEach((episode, index) => {
+					if (
+						episode.season_number >= from &&
+						episode.season_number <= to
+					) {
+						add(index, 0);
+					}
+				});
+				break;
+			}
+			case 'category': {
+				// Taxonomy names, aliases and synonyms include child nodes
+				const node = findTaxonomyNode(value);
+				const wanted = normalizeText(value);
+				this.episodes.forEach((episode, index) => {
+					const names = episode.tags.flatMap((tag) => [
+						tag.category,
+						...tag.sub_categories,
+					]);
+					if (
+						node
+							? episodeMatchesNode(episode, node)
+							: names.some((name) =>
+									normalizeText(name).startsWith(wanted),
+							  )
+					) {
+						add(index, 0);
+					}
+				});
+				break;
+			}
+			case 'year':
+			case 'before':
+			case 'after': {
+				const pattern = field === 'year' ? /^\d{4}$/ : PARTIAL_DATE;
+				if (!pattern.test(value)) {
+					throw new SearchQueryError(
+						field === 'year'
+							? `"year:" needs a year like 2019, got "${value}"`
+							: `"${field}:" needs a date like 2019, 2019-06 or 2019-06-13, got "${value}"`,
+					);
+				}
+				this.episodes.forEach((episode, index) => {
+					if (!episode.air_date) {
+						return;
+					}
+					// Compare at the precision given, so after:2019 means 2020 onwards
+					const date = episode.air_date.slice(0, value.length);
+					const matches =
+						field === 'year'
+							? date === value
+							: field === 'before'
+							? date < value
+							: date > value;
+					if (matches) {
+						add(index, 0);
+					}
+				});
+				break;
+			}
+		}
+
+		return scores;
+	}
+}
+
+function intersect(a: Scores, b: Scores): Scores {
+	const scores: Scores = new Map();
+	a.forEach((score, index) => {
+		if (b.has(index)) {
+			scores.set(index, score + b.get(index)!);
+		}
+	});
+	return scores;
+}
+
+function union(a: Scores, b: Scores): Scores {
+	const scores: Scores = new Map(a);
+	b.forEach((score, index) =>
+		scores.set(index, (scores.get(index) ?? 0) + score),
+	);
+	return scores;
+}
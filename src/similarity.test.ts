@@ -0,0 +1,121 @@
+import {
+	explainSimilarity,
+	SimilarityIndex,
+	SIMILARITY_WEIGHTS,
+} from './similarity';
+import { filterEpisodes } from './episode-queries';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	title: string,
+	description: string,
+	air_date: string,
+	category: string,
+	sub_categories: string[] = [],
+): HotOnesEpisode =>
+	makeEpisode({
+		title,
+		air_date,
+		description,
+		tags: [tag(category, ...sub_categories)],
+	});
+
+const episodes = [
+	episode(
+		'Tony Yayo',
+		'Talks rap battles and touring',
+		'2015-03-12',
+		'Music',
+		['Rapper'],
+	),
+	episode('Pusha T', 'Talks rap beefs and touring', '2016-03-11', 'Music', [
+		'Rapper',
+	]),
+	episode(
+		'Billie Eilish',
+		'Talks touring and songwriting',
+		'2015-03-20',
+		'Music',
+		['Singer'],
+	),
+	episode('Shaq', 'Talks dunks and fast food', '2015-03-12', 'Sports'),
+	episode('Kristen Bell', 'Talks voice acting', '', 'Other', ['Unknown']),
+];
+
+const index = new SimilarityIndex(episodes);
+const titles = (results: { episode: HotOnesEpisode }[]) =>
+	results.map(({ episode }) => episode.title);
+
+describe('SimilarityIndex', () => {
+	it('ranks related episodes and leaves out ones sharing only a date', () => {
+		const similar = index.similarTo(episodes[0]);
+
+		expect(titles(similar)).toEqual(['Pusha T', 'Billie Eilish']);
+		expect(similar[0]).toMatchObject({
+			number: 2,
+			sharedTags: ['Music', 'Music/Rapper'],
+			sharedTerms: ['rap', 'touring'],
+			daysApart: 365,
+			breakdown: { tags: 1, airDate: 0.5 },
+		});
+	});
+
+	it('ignores words every episode uses and weights rare ones higher', () => {
+		const [pusha] = index.similarTo(episodes[0]);
+
+		expect(pusha.sharedTerms).not.toContain('talks');
+		expect(pusha.breakdown.text).toBeGreaterThan(0);
+		expect(pusha.breakdown.text).toBeLessThan(1);
+	});
+
+	it('adds up the breakdown with the published weights', () => {
+		const [pusha] = index.similarTo(episodes[0]);
+		const { text, tags, airDate } = pusha.breakdown;
+
+		expect(pusha.score).toBeCloseTo(
+			SIMILARITY_WEIGHTS.text * text +
+				SIMILARITY_WEIGHTS.tags * tags +
+				SIMILARITY_WEIGHTS.airDate * airDate,
+			2,
+		);
+	});
+
+	it('ranks only the given candidates, up to the limit', () => {
+		const among = filterEpisodes(episodes, {}).slice(2);
+
+		expect(titles(index.similarTo(episodes[0], { among }))).toEqual([
+			'Billie Eilish',
+		]);
+		expect(titles(index.similarTo(episodes[0], { limit: 1 }))).toEqual([
+			'Pusha T',
+		]);
+		expect(index.similarTo(episodes[4])).toEqual([]);
+	});
+});
+
+describe('explainSimilarity', () => {
+	it('keeps the most specific tags, the shared words and the gap', () => {
+		expect(
+			explainSimilarity({
+				sharedTags: ['Music', 'Music/Rapper'],
+				sharedTerms: ['rap', 'touring'],
+				daysApart: 365,
+			}),
+		).toBe('Music/Rapper · rap, touring · 1 year apart');
+		expect(
+			explainSimilarity({
+				sharedTags: ['Music'],
+				sharedTerms: [],
+				daysApart: 100,
+			}),
+		).toBe('Music · 3 months apart');
+		expect(
+			explainSimilarity({
+				sharedTags: [],
+				sharedTerms: ['touring'],
+				daysApart: null,
+			}),
+		).toBe('touring');
+	});
+});
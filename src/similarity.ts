@@ -0,0 +1,228 @@
+import { HotOnesEpisode } from './types';
+import { NumberedEpisode } from './episode-queries';
+import { tokenize } from './search-index';
+
+// How much each signal counts towards the overall score
+export const SIMILARITY_WEIGHTS = {
+	text: 0.6,
+	tags: 0.3,
+	airDate: 0.1,
+};
+
+// Episodes a year apart get half the air-date score, two years a quarter...
+const AIR_DATE_HALF_LIFE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Enough shared words to explain a match without listing the whole description
+const MAX_SHARED_TERMS = 5;
+
+// Each signal from 0 (nothing in common) to 1 (identical)
+export interface SimilarityBreakdown {
+	// Cosine similarity of TF-IDF weighted guest, title, topic and description words
+	text: number;
+	// Overlap of categories and sub-categories
+	tags: number;
+	// 1 on the same day, halving every year apart; 0 without dates
+	airDate: number;
+}
+
+export interface SimilarEpisode extends NumberedEpisode {
+	// Weighted sum of the breakdown, 0-1
+	score: number;
+	breakdown: SimilarityBreakdown;
+	// "Music" and "Music/Rapper" style labels
+	sharedTags: string[];
+	// The shared words that counted most, most telling first
+	sharedTerms: string[];
+	daysApart: number | null;
+}
+
+export interface SimilarityOptions {
+	// Only rank these episodes, e.g. ones left after discovery filters
+	among?: NumberedEpisode[];
+	limit?: number;
+}
+
+type TermVector = Map<string, number>;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Common enough to link any two episodes, rare enough to dodge the IDF
+const STOP_WORDS = new Set(
+	(
+		'about all and are but can for from get has have her his how into ' +
+		'its not our out she that the their them they this was what when ' +
+		'while who will with you your'
+	).split(' '),
+);
+
+// Words under three letters are mostly noise too ("of", "is", "22")
+const terms = (episode: HotOnesEpisode) =>
+	[...episode.guests, episode.title, ...episode.topics, episode.description]
+		.flatMap(tokenize)
+		.filter((term) => term.length > 2 && !STOP_WORDS.has(term));
+
+const tagLabels = (episode: HotOnesEpisode) =>
+	new Set(
+		episode.tags
+			.filter((tag) => tag.category !== 'Other')
+			.flatMap((tag) => [
+				tag.category,
+				...tag.sub_categories.map(
+					(subCategory) => `${tag.category}/${subCategory}`,
+				),
+			]),
+	);
+
+const daysBetween = (a: string, b: string) => {
+	const difference = Math.abs(Date.parse(a) - Date.parse(b));
+	return Number.isNaN(difference) ? null : Math.round(difference / DAY_MS);
+};
+
+// TF-IDF vectors over the whole report, so words every episode uses
+// ("spicy", "wings") count for nothing and rare ones for a lot
+export class SimilarityIndex {
+	private vectors = new Map<HotOnesEpisode, TermVector>();
+
+	constructor(private episodes: HotOnesEpisode[]) {
+		const counts = episodes.map((episode) => {
+			const termCounts = new Map<string, number>();
+			terms(episode).forEach((term) =>
+				termCounts.set(term, (termCounts.get(term) ?? 0) + 1),
+			);
+			return termCounts;
+		});
+
+		const documentFrequency = new Map<string, number>();
+		counts.forEach((termCounts) =>
+			termCounts.forEach((_, term) =>
+				documentFrequency.set(
+					term,
+					(documentFrequency.get(term) ?? 0) + 1,
+				),
+			),
+		);
+
+		counts.forEach((termCounts, index) => {
+			const vector: TermVector = new Map();
+			termCounts.forEach((count, term) => {
+				const weight =
+					count *
+					Math.log(episodes.length / documentFrequency.get(term)!);
+				if (weight > 0) {
+					vector.set(term, weight);
+				}
+			});
+
+			// Unit length, so a dot product is the cosine
+			const length = Math.sqrt(
+				[...vector.values()].reduce((sum, w) => sum + w * w, 0),
+			);
+			vector.forEach((weight, term) => vector.set(term, weight / length));
+			this.vectors.set(episodes[index], vector);
+		});
+	}
+
+	// Related episodes best first; ones sharing only an air date are left out
+	similarTo(
+		target: HotOnesEpisode,
+		options: SimilarityOptions = {},
+	): SimilarEpisode[] {
+		const targetVector = this.vectors.get(target) ?? new Map();
+		const targetTags = tagLabels(target);
+		const candidates =
+			options.among ??
+			this.episodes.map((episode, index) => ({
+				number: index + 1,
+				episode,
+			}));
+
+		const similar = candidates
+			.filter(({ episode }) => episode !== target)
+			.map((candidate) => {
+				const vector =
+					this.vectors.get(candidate.episode) ??
+					new Map<string, number>();
+				const shared = [...targetVector.entries()]
+					.filter(([term]) => vector.has(term))
+					.map(([term, weight]) => ({
+						term,
+						weight: weight * vector.get(term)!,
+					}))
+					.sort((a, b) => b.weight - a.weight);
+
+				const tags = tagLabels(candidate.episode);
+				const sharedTags = [...targetTags].filter((tag) =>
+					tags.has(tag),
+				);
+				const tagUnion =
+					targetTags.size + tags.size - sharedTags.length;
+				const daysApart = daysBetween(
+					target.air_date,
+					candidate.episode.air_date,
+				);
+
+				const breakdown: SimilarityBreakdown = {
+					text: round(
+						shared.reduce((sum, { weight }) => sum + weight, 0),
+					),
+					tags: round(
+						tagUnion === 0 ? 0 : sharedTags.length / tagUnion,
+					),
+					airDate: round(
+						daysApart === null
+							? 0
+							: 0.5 ** (daysApart / AIR_DATE_HALF_LIFE_DAYS),
+					),
+				};
+				return {
+					...candidate,
+					score: round(
+						SIMILARITY_WEIGHTS.text * breakdown.text +
+							SIMILARITY_WEIGHTS.tags * breakdown.tags +
+							SIMILARITY_WEIGHTS.airDate * breakdown.airDate,
+					),
+					breakdown,
+					sharedTags,
+					sharedTerms: shared
+						.slice(0, MAX_SHARED_TERMS)
+						.map(({ term }) => term),
+					daysApart,
+				};
+			})
+			.filter(({ breakdown }) => breakdown.text > 0 || breakdown.tags > 0)
+			.sort((a, b) => b.score - a.score || a.number - b.number);
+
+		return options.limit === undefined
+			? similar
+			: similar.slice(0, options.limit);
+	}
+}
+
+// "Music/Rapper · rap, touring · 1 year apart"
+export function explainSimilarity(
+	similarity: Pick<
+		SimilarEpisode,
+		'sharedTags' | 'sharedTerms' | 'daysApart'
+	>,
+): string {
+	// The most specific tags say the most; "Music" is implied by "Music/Rapper"
+	const tags = similarity.sharedTags.filter(
+		(tag) =>
+			!similarity.sharedTags.some((other) => other.startsWith(`${tag}/`)),
+	);
+	const parts = [tags.join(', '), similarity.sharedTerms.join(', ')];
+
+	if (similarity.daysApart !== null) {
+		const years = Math.round(similarity.daysApart / 365);
+		parts.push(
+			similarity.daysApart < 45
+				? 'aired weeks apart'
+				: years < 1
+				? `${Math.round(similarity.daysApart / 30)} months apart`
+				: `${years} year${years === 1 ? '' : 's'} apart`,
+		);
+	}
+	return parts.filter(Boolean).join(' · ');
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	categorizeProfession,
+	DEFAULT_TAGGING_RULES,
+	TaggingEngine,
+	TaggingRules,
+	TaggingRulesError,
+} from './tagging';
+import { migrateReport } from './report';
+import { HotOnesEpisode } from './types';
+
+const report: HotOnesEpisode[] = migrateReport(
+	JSON.parse(
+		fs.readFileSync(
+			path.join(__dirname, '..', 'hot-ones-report.json'),
+			'utf-8',
+		),
+	),
+).report.episodes;
+
+const tagsFor = (titleStart: string) => {
+	const episode = report.find((candidate) =>
+		candidate.title.startsWith(titleStart),
+	);
+	if (!episode) {
+		throw new Error(`No episode titled "${titleStart}..."`);
+	}
+	return categorizeProfession(episode.title, episode.description);
+};
+
+const rules = (categories: TaggingRules['categories']): TaggingRules => ({
+	min_score: 2,
+	min_sub_score: 1,
+	full_confidence_score: 8,
+	categories,
+});
+
+describe('categorizeProfession', () => {
+	// Known episodes from hot-ones-report.json: [title prefix, category, sub-category]
+	const REGRESSIONS: [string, string, string][] = [
+		['Tony Yayo Talks Shmoney Dance', 'Music', 'Rapper'],
+		['Anthony Rizzo On Chicago Cubs', 'Sports', 'Baseball Player'],
+		['Prince Amukamara Talks NFL', 'Sports', 'Football Player'],
+		['DJ Khaled Talks Fuccbois', 'Music', 'DJ'],
+		['Curren$y Talks Munchies', 'Music', 'Rapper'],
+		['Tinashe Talks NFL Dances', 'Music', 'Singer'],
+		['Gordon Ramsay Savagely Critiques', 'Food/Culinary', 'Chef'],
+		['Scarlett Johansson Tries To Not Spoil', 'Movie/TV', 'Actress'],
+		["Conan O'Brien Needs a Doctor", 'Movie/TV', 'TV Personality'],
+	];
+
+	it.each(REGRESSIONS)(
+		'tags "%s..." as %s / %s first',
+		(title, category, subCategory) => {
+			const [primary] = tagsFor(title);
+
+			expect(primary.category).toBe(category);
+			expect(primary.sub_categories[0]).toBe(subCategory);
+			expect(primary.confidence).toBeGreaterThan(0);
+		},
+	);
+
+	it('no longer mistakes baseball for basketball', () => {
+		const subCategories = tagsFor('Anthony Rizzo On Chicago Cubs').flatMap(
+			(tag) => tag.sub_categories,
+		);
+
+		expect(subCategories).not.toContain('Basketball Player');
+	});
+
+	it('ignores incidental food words in the show boilerplate', () => {
+		const categories = tagsFor('Curren$y Talks Munchies').map(
+			(tag) => tag.category,
+		);
+
+		expect(categories).not.toContain('Food/Culinary');
+	});
+
+	it('falls back to Other/Unknown with zero confidence', () => {
+		expect(categorizeProfession('Hot Ones Mailbag', '')).toEqual([
+			{ category: 'Other', sub_categories: ['Unknown'], confidence: 0 },
+		]);
+	});
+
+	it('keeps every default rule inside the taxonomy', () => {
+		expect(() => new TaggingEngine(DEFAULT_TAGGING_RULES)).not.toThrow();
+	});
+});
+
+describe('TaggingEngine', () => {
+	const engine = new TaggingEngine(
+		rules({
+			Music: {
+				keywords: { rap: 3, rapper: 4, song: 1 },
+				negative_keywords: { 'rap sheet': 3 },
+				default_sub_category: 'Musician',
+				sub_categories: { Rapper: { keywords: { rap: 2, rapper: 2 } } },
+			},
+			Comedy: { keywords: { comedian: 4 } },
+		}),
+	);
+
+	it('matches whole words and simple plurals only', () => {
+		expect(engine.tag('Wrapping up', 'A trapper and a wrap')[0]).toEqual({
+			category: 'Other',
+			sub_categories: ['Unknown'],
+			confidence: 0,
+		});
+		expect(engine.tag('Comedians', '')[0].category).toBe('Comedy');
+	});
+
+	it('sums weights into a confidence score', () => {
+		expect(engine.tag('The rapper', 'talks rap')).toEqual([
+			{ category: 'Music', sub_categories: ['Rapper'], confidence: 0.88 },
+		]);
+		expect(engine.tag('The rapper', '')[0].confidence).toBe(0.5);
+	});
+
+	it('subtracts negative keywords', () => {
+		expect(engine.tag('A long rap sheet', '')[0].category).toBe('Other');
+	});
+
+	it('requires the minimum score and orders tags by score', () => {
+		expect(engine.tag('One song', '')[0].category).toBe('Other');
+		expect(
+			engine.tag('A comedian', 'who raps').map((tag) => tag.category),
+		).toEqual(['Comedy', 'Music']);
+	});
+
+	it('uses the default sub-category when none match', () => {
+		expect(engine.tag('Rap', 'and a song')[0].sub_categories).toEqual([
+			'Rapper',
+		]);
+		expect(
+			new TaggingEngine(
+				rules({
+					Music: {
+						keywords: { album: 2 },
+						default_sub_category: 'Musician',
+						sub_categories: { Rapper: { keywords: { rap: 2 } } },
+					},
+				}),
+			).tag('New album', '')[0].sub_categories,
+		).toEqual(['Musician']);
+	});
+
+	it('normalizes punctuation and accents', () => {
+		const hipHop = new TaggingEngine(
+			rules({ Music: { keywords: { 'hip hop': 3, cafe: 1 } } }),
+		);
+
+		expect(hipHop.tag('Hip-Hop at the Café', '')[0]).toMatchObject({
+			category: 'Music',
+			confidence: 0.5,
+		});
+	});
+
+	it('rejects rules outside the taxonomy', () => {
+		expect(
+			() =>
+				new TaggingEngine(
+					rules({
+						Gaming: { keywords: { gamer: 3 } },
+						Music: {
+							keywords: { rap: 0 },
+							sub_categories: {
+								Polka: { keywords: { polka: 1 } },
+							},
+						},
+					}),
+				),
+		).toThrow(TaggingRulesError);
+	});
+
+	it('tags taxonomy synonyms along with their parent nodes', () => {
+		expect(engine.tag('The NBA Finals', '')).toEqual([
+			{
+				category: 'Sports',
+				sub_categories: ['Basketball Player', 'NBA'],
+				confidence: 0.38,
+			},
+		]);
+	});
+
+	it('can ignore taxonomy synonyms', () => {
+		const rulesOnly = new TaggingEngine({
+			...rules({ Comedy: { keywords: { comedian: 4 } } }),
+			synonym_weight: 0,
+		});
+
+		expect(rulesOnly.tag('The NBA Finals', '')[0].category).toBe('Other');
+	});
+
+	it('loads rules from a JSON file', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tagging-'));
+		const rulesPath = path.join(dir, 'rules.json');
+		fs.writeFileSync(
+			rulesPath,
+			JSON.stringify(rules({ Comedy: { keywords: { clown: 2 } } })),
+		);
+
+		try {
+			expect(
+				TaggingEngine.fromFile(rulesPath).tag('Clowns', '')[0].category,
+			).toBe('Comedy');
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
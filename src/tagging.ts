@@ -0,0 +1,316 @@
+import {
+	EpisodeTag,
+	PROFESSION_TAXONOMY,
+	PROFESSION_TREE,
+	TaxonomyNode,
+} from './types';
+import { walkTaxonomy } from './taxonomy';
+import defaultRules from './tagging-rules.json';
+import * as fs from 'fs';
+
+// Keyword (or phrase) -> weight it adds to, or for negatives removes from, a score
+export interface KeywordWeights {
+	[keyword: string]: number;
+}
+
+export interface SubCategoryRule {
+	keywords: KeywordWeights;
+	negative_keywords?: KeywordWeights;
+}
+
+export interface CategoryRule extends SubCategoryRule {
+	// Used when the category matches but none of its sub-categories do
+	default_sub_category?: string;
+	sub_categories?: { [subCategory: string]: SubCategoryRule };
+}
+
+// Shape of tagging-rules.json; categories must exist in PROFESSION_TAXONOMY
+export interface TaggingRules {
+	min_score: number;
+	min_sub_score: number;
+	// Score at which a tag's confidence reaches 1
+	full_confidence_score: number;
+	// Weight of a taxonomy synonym the rules don't weigh themselves (default 3, 0 to ignore them)
+	synonym_weight?: number;
+	categories: { [category: string]: CategoryRule };
+}
+
+const DEFAULT_SYNONYM_WEIGHT = 3;
+
+// A rule merged with the taxonomy's synonyms, ready to score text against
+interface CompiledNode {
+	name: string;
+	// Nodes between the category and this one, tagged along with it
+	ancestors: string[];
+	rule: SubCategoryRule;
+}
+
+interface CompiledCategory {
+	name: string;
+	rule: SubCategoryRule;
+	default_sub_category?: string;
+	nodes: CompiledNode[];
+}
+
+export const DEFAULT_TAGGING_RULES: TaggingRules = defaultRules;
+
+export class TaggingRulesError extends Error {
+	constructor(public readonly problems: string[]) {
+		super(`Invalid tagging rules: ${problems.join('; ')}`);
+		this.name = 'TaggingRulesError';
+	}
+}
+
+// "Hip-Hop", "hip hop" and "Hip Hop's" all become "hip hop"
+function normalize(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/['\u2019]/g, '')
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+}
+
+function checkWeights(weights: unknown, at: string, problems: string[]): void {
+	if (typeof weights !== 'object' || weights === null) {
+		problems.push(`${at} must be an object of keyword weights`);
+		return;
+	}
+	Object.entries(weights).forEach(([keyword, weight]) => {
+		if (normalize(keyword) === '') {
+			problems.push(`${at} has an empty keyword`);
+		}
+		if (typeof weight !== 'number' || !(weight > 0)) {
+			problems.push(`${at}["${keyword}"] must be a positive number`);
+		}
+	});
+}
+
+export function validateTaggingRules(rules: TaggingRules): string[] {
+	const problems: string[] = [];
+
+	(['min_score', 'min_sub_score', 'full_confidence_score'] as const).forEach(
+		(field) => {
+			if (typeof rules[field] !== 'number' || !(rules[field] > 0)) {
+				problems.push(`${field} must be a positive number`);
+			}
+		},
+	);
+
+	Object.entries(rules.categories ?? {}).forEach(([category, rule]) => {
+		const taxonomy = PROFESSION_TAXONOMY[category];
+		if (!taxonomy) {
+			problems.push(`"${category}" is not a taxonomy category`);
+			return;
+		}
+
+		checkWeights(rule.keywords, `${category}.keywords`, problems);
+		if (rule.negative_keywords) {
+			checkWeights(
+				rule.negative_keywords,
+				`${category}.negative_keywords`,
+				problems,
+			);
+		}
+		if (
+			rule.default_sub_category &&
+			!taxonomy.includes(rule.default_sub_category)
+		) {
+			problems.push(
+				`${category}.default_sub_category "${rule.default_sub_category}" is not in the taxonomy`,
+			);
+		}
+
+		Object.entries(rule.sub_categories ?? {}).forEach(
+			([subCategory, subRule]) => {
+				const at = `${category}.${subCategory}`;
+				if (!taxonomy.includes(subCategory)) {
+					problems.push(`"${at}" is not in the taxonomy`);
+				}
+				checkWeights(subRule.keywords, `${at}.keywords`, problems);
+				if (subRule.negative_keywords) {
+					checkWeights(
+						subRule.negative_keywords,
+						`${at}.negative_keywords`,
+						problems,
+					);
+				}
+			},
+		);
+	});
+
+	if (
+		rules.synonym_weight !== undefined &&
+		(typeof rules.synonym_weight !== 'number' ||
+			!(rules.synonym_weight >= 0))
+	) {
+		problems.push('synonym_weight must be a number >= 0');
+	}
+
+	if (Object.keys(rules.categories ?? {}).length === 0) {
+		problems.push('no categories defined');
+	}
+
+	return problems;
+}
+
+// Explicit rule weights win over the flat synonym weight
+function withSynonyms(
+	keywords: KeywordWeights,
+	synonyms: string[],
+	weight: number,
+): KeywordWeights {
+	if (weight === 0) {
+		return keywords;
+	}
+	return {
+		...Object.fromEntries(synonyms.map((synonym) => [synonym, weight])),
+		...keywords,
+	};
+}
+
+const synonymsBelow = (node: TaxonomyNode): string[] => [
+	...(node.synonyms ?? []),
+	...(node.children ?? []).flatMap(synonymsBelow),
+];
+
+export class TaggingEngine {
+	private readonly categories: CompiledCategory[];
+
+	constructor(
+		private readonly rules: TaggingRules,
+		tree: TaxonomyNode[] = PROFESSION_TREE,
+	) {
+		const problems = validateTaggingRules(rules);
+		if (problems.length > 0) {
+			throw new TaggingRulesError(problems);
+		}
+
+		const weight = rules.synonym_weight ?? DEFAULT_SYNONYM_WEIGHT;
+		this.categories = tree.map((category) => {
+			const rule = rules.categories[category.name];
+			return {
+				name: category.name,
+				rule: {
+					keywords: withSynonyms(
+						rule?.keywords ?? {},
+						synonymsBelow(category),
+						weight,
+					),
+					negative_keywords: rule?.negative_keywords,
+				},
+				default_sub_category: rule?.default_sub_category,
+				nodes: walkTaxonomy(category.children ?? [], [
+					category.name,
+				]).map(({ node, path }) => {
+					const subRule = rule?.sub_categories?.[node.name];
+					return {
+						name: node.name,
+						ancestors: path.slice(1, -1),
+						rule: {
+							keywords: withSynonyms(
+								subRule?.keywords ?? {},
+								node.synonyms ?? [],
+								weight,
+							),
+							negative_keywords: subRule?.negative_keywords,
+						},
+					};
+				}),
+			};
+		});
+	}
+
+	static fromFile(filePath: string): TaggingEngine {
+		return new TaggingEngine(
+			JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TaggingRules,
+		);
+	}
+
+	tag(title: string, description: string): EpisodeTag[] {
+		// Padded so every keyword can be matched as " keyword "
+		const text = ` ${normalize(`${title} ${description}`)} `;
+
+		const tags = this.categories
+			.map((category) => ({
+				category,
+				score: this.score(text, category.rule),
+			}))
+			.filter(({ score }) => score >= this.rules.min_score)
+			.sort((a, b) => b.score - a.score)
+			.map(({ category, score }) => ({
+				category: category.name,
+				sub_categories: this.subCategories(text, category),
+				confidence:
+					Math.round(
+						Math.min(1, score / this.rules.full_confidence_score) *
+							100,
+					) / 100,
+			}));
+
+		// If no categories matched, use "Other"
+		if (tags.length === 0) {
+			tags.push({
+				category: 'Other',
+				sub_categories: ['Unknown'],
+				confidence: 0,
+			});
+		}
+
+		return tags;
+	}
+
+	private score(text: string, rule: SubCategoryRule): number {
+		return (
+			sumMatches(text, rule.keywords) -
+			sumMatches(text, rule.negative_keywords ?? {})
+		);
+	}
+
+	// A matched node brings its parents along: NBA implies Basketball Player
+	private subCategories(text: string, category: CompiledCategory): string[] {
+		const matched = category.nodes
+			.map((node) => ({ node, score: this.score(text, node.rule) }))
+			.filter(({ score }) => score >= this.rules.min_sub_score)
+			.sort((a, b) => b.score - a.score)
+			.flatMap(({ node }) => [...node.ancestors, node.name]);
+
+		if (matched.length === 0 && category.default_sub_category) {
+			return [category.default_sub_category];
+		}
+		return [...new Set(matched)];
+	}
+}
+
+// Whole words only, allowing a plural: "rap" matches "raps" but not "wrap"
+function sumMatches(text: string, weights: KeywordWeights): number {
+	return Object.entries(weights).reduce((total, [keyword, weight]) => {
+		const word = normalize(keyword);
+		const found = ['', 's', 'es'].some((suffix) =>
+			text.includes(` ${word}${suffix} `),
+		);
+		return found ? total + weight : total;
+	}, 0);
+}
+
+let defaultEngine: TaggingEngine | undefined;
+
+// WING_SCRAPE_TAGGING_RULES points at a replacement rules file
+export function defaultTaggingEngine(): TaggingEngine {
+	if (!defaultEngine) {
+		const rulesPath = process.env.WING_SCRAPE_TAGGING_RULES;
+		defaultEngine = rulesPath
+			? TaggingEngine.fromFile(rulesPath)
+			: new TaggingEngine(DEFAULT_TAGGING_RULES);
+	}
+	return defaultEngine;
+}
+
+export function categorizeProfession(
+	title: string,
+	description: string,
+	engine: TaggingEngine = defaultTaggingEngine(),
+): EpisodeTag[] {
+	return engine.tag(title, description);
+}
@@ -0,0 +1,114 @@
+import {
+	countTaxonomy,
+	episodeMatchesNode,
+	findTaxonomyNode,
+	formatTaxonomyPath,
+	walkTaxonomy,
+} from './taxonomy';
+import { HotOnesEpisode, PROFESSION_TAXONOMY } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	title: string,
+	category: string,
+	subCategories: string[],
+): HotOnesEpisode =>
+	makeEpisode({
+		title,
+		air_date: '2015-03-12',
+		tags: [tag(category, ...subCategories)],
+	});
+
+const episodes = [
+	episode('Shaq', 'Sports', ['Basketball Player', 'NBA']),
+	episode('Sue Bird', 'Sports', ['WNBA']),
+	episode('Anthony Rizzo', 'Sports', ['Baseball Player']),
+	episode('Tony Yayo', 'Music', ['Rapper']),
+];
+
+describe('walkTaxonomy', () => {
+	it('lists parents before children with their paths', () => {
+		const paths = walkTaxonomy().map(({ path }) =>
+			formatTaxonomyPath(path),
+		);
+
+		expect(paths.indexOf('Sports › Basketball Player')).toBeLessThan(
+			paths.indexOf('Sports › Basketball Player › NBA'),
+		);
+	});
+
+	it('gives every node a unique name and a synonym to be tagged by', () => {
+		const entries = walkTaxonomy();
+		const names = entries.map(({ node }) => node.name);
+
+		expect(new Set(names).size).toBe(names.length);
+		entries
+			.filter(({ depth }) => depth > 0)
+			.forEach(({ node }) => expect(node.synonyms?.length).toBeTruthy());
+	});
+
+	it('flattens into PROFESSION_TAXONOMY', () => {
+		expect(PROFESSION_TAXONOMY.Sports).toEqual(
+			expect.arrayContaining(['Basketball Player', 'NBA', 'MMA Fighter']),
+		);
+	});
+});
+
+describe('findTaxonomyNode', () => {
+	it('looks nodes up by name, path, alias and synonym', () => {
+		expect(findTaxonomyNode('basketball player')?.path).toEqual([
+			'Sports',
+			'Basketball Player',
+		]);
+		expect(findTaxonomyNode('Movie/TV')?.depth).toBe(0);
+		expect(findTaxonomyNode('Hoops')?.node.name).toBe('Basketball Player');
+		expect(findTaxonomyNode('quarterback')?.node.name).toBe(
+			'Football Player',
+		);
+		expect(findTaxonomyNode('polka')).toBeUndefined();
+	});
+
+	it('prefers names over aliases and synonyms', () => {
+		expect(findTaxonomyNode('NBA')?.node.name).toBe('NBA');
+		expect(findTaxonomyNode('basketball')?.node.name).toBe(
+			'Basketball Player',
+		);
+	});
+});
+
+describe('episodeMatchesNode', () => {
+	it('matches a node through any of its descendants', () => {
+		const basketball = findTaxonomyNode('Basketball Player')!;
+
+		expect(
+			episodes.filter((candidate) =>
+				episodeMatchesNode(candidate, basketball),
+			),
+		).toHaveLength(2);
+		expect(episodeMatchesNode(episodes[0], findTaxonomyNode('WNBA')!)).toBe(
+			false,
+		);
+	});
+});
+
+describe('countTaxonomy', () => {
+	it('counts a subtree relative to its root', () => {
+		const counts = countTaxonomy(episodes, findTaxonomyNode('Sports'));
+
+		expect(counts[0]).toMatchObject({ name: 'Sports', depth: 0, count: 3 });
+		expect(counts).toContainEqual({
+			name: 'NBA',
+			path: ['Sports', 'Basketball Player', 'NBA'],
+			depth: 2,
+			count: 1,
+		});
+		expect(counts.find(({ name }) => name === 'Olympian')?.count).toBe(0);
+	});
+
+	it('covers the whole tree by default', () => {
+		const counts = countTaxonomy(episodes);
+
+		expect(counts).toHaveLength(walkTaxonomy().length);
+		expect(counts.find(({ name }) => name === 'Music')?.count).toBe(1);
+	});
+});
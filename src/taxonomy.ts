@@ -0,0 +1,108 @@
+import { HotOnesEpisode, PROFESSION_TREE, TaxonomyNode } from './types';
+
+// A node together with where it sits in the tree
+export interface TaxonomyEntry {
+	node: TaxonomyNode;
+	// Names from the category down, e.g. ['Sports', 'Basketball Player', 'NBA']
+	path: string[];
+	depth: number;
+}
+
+export interface TaxonomyCount {
+	name: string;
+	path: string[];
+	// Relative to the node the counts were taken from
+	depth: number;
+	count: number;
+}
+
+const normalizeName = (name: string) =>
+	name
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+
+export const formatTaxonomyPath = (path: string[]) => path.join(' › ');
+
+// Every node, parents before their children
+export function walkTaxonomy(
+	tree: TaxonomyNode[] = PROFESSION_TREE,
+	parentPath: string[] = [],
+): TaxonomyEntry[] {
+	return tree.flatMap((node) => {
+		const path = [...parentPath, node.name];
+		return [
+			{ node, path, depth: parentPath.length },
+			...walkTaxonomy(node.children ?? [], path),
+		];
+	});
+}
+
+// Looks a term up by name first, then aliases, then synonyms
+export function findTaxonomyNode(
+	term: string,
+	tree: TaxonomyNode[] = PROFESSION_TREE,
+): TaxonomyEntry | undefined {
+	const wanted = normalizeName(term);
+	if (!wanted) {
+		return undefined;
+	}
+
+	const entries = walkTaxonomy(tree);
+	const matches = (names: string[] | undefined) =>
+		(names ?? []).some((name) => normalizeName(name) === wanted);
+
+	return (
+		entries.find(
+			({ node, path }) =>
+				matches([node.name]) ||
+				normalizeName(path.join(' ')) === wanted,
+		) ??
+		entries.find(({ node }) => matches(node.aliases)) ??
+		entries.find(({ node }) => matches(node.synonyms))
+	);
+}
+
+const namesBelow = (node: TaxonomyNode): string[] =>
+	(node.children ?? []).flatMap((child) => [
+		child.name,
+		...namesBelow(child),
+	]);
+
+// Tagged with the node itself or anything beneath it
+export function episodeMatchesNode(
+	episode: HotOnesEpisode,
+	entry: TaxonomyEntry,
+): boolean {
+	const [category] = entry.path;
+	const names =
+		entry.depth === 0 ? [] : [entry.node.name, ...namesBelow(entry.node)];
+
+	return episode.tags.some(
+		(tag) =>
+			tag.category === category &&
+			(names.length === 0 ||
+				tag.sub_categories.some((subCategory) =>
+					names.includes(subCategory),
+				)),
+	);
+}
+
+// Counts for a node and everything below it (or the whole tree)
+export function countTaxonomy(
+	episodes: HotOnesEpisode[],
+	from?: TaxonomyEntry,
+): TaxonomyCount[] {
+	const entries = from
+		? [from, ...walkTaxonomy(from.node.children ?? [], from.path)]
+		: walkTaxonomy();
+	const baseDepth = from?.depth ?? 0;
+
+	return entries.map((entry) => ({
+		name: entry.node.name,
+		path: entry.path,
+		depth: entry.depth - baseDepth,
+		count: episodes.filter((episode) => episodeMatchesNode(episode, entry))
+			.length,
+	}));
+}
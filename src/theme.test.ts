@@ -0,0 +1,153 @@
+import {
+	brand,
+	colorLevel,
+	createTable,
+	detectPresentation,
+	stripEmoji,
+	supportsUnicode,
+	ThemeError,
+	toAscii,
+	usePresentation,
+} from './theme';
+
+const tty = { isTTY: true };
+
+afterEach(() => {
+	usePresentation(detectPresentation([], {}, {}));
+});
+
+describe('colorLevel', () => {
+	it('lets FORCE_COLOR win over NO_COLOR and detection', () => {
+		expect(colorLevel({ FORCE_COLOR: '3', NO_COLOR: '1' }, 0)).toBe(3);
+		expect(colorLevel({ FORCE_COLOR: '' }, 0)).toBe(1);
+		expect(colorLevel({ FORCE_COLOR: 'false' }, 3)).toBe(0);
+		expect(colorLevel({ FORCE_COLOR: '7' }, 0)).toBe(3);
+	});
+
+	it('turns colour off for any non-empty NO_COLOR', () => {
+		expect(colorLevel({ NO_COLOR: '1' }, 3)).toBe(0);
+		expect(colorLevel({ NO_COLOR: '' }, 2)).toBe(2);
+		expect(colorLevel({}, 2)).toBe(2);
+	});
+});
+
+describe('supportsUnicode', () => {
+	it('follows the locale and knows the consoles that lack it', () => {
+		expect(supportsUnicode({ LANG: 'en_US.UTF-8' }, 'linux')).toBe(true);
+		expect(
+			supportsUnicode({ LC_ALL: 'C', LANG: 'en_US.UTF-8' }, 'linux'),
+		).toBe(false);
+		expect(supportsUnicode({ TERM: 'linux' }, 'linux')).toBe(false);
+		expect(supportsUnicode({}, 'darwin')).toBe(true);
+		expect(supportsUnicode({}, 'win32')).toBe(false);
+		expect(supportsUnicode({ WT_SESSION: 'abc' }, 'win32')).toBe(true);
+	});
+});
+
+describe('detectPresentation', () => {
+	const env = { LANG: 'en_US.UTF-8', FORCE_COLOR: '3' };
+
+	it('animates only on a colour, Unicode terminal', () => {
+		expect(detectPresentation([], env, tty)).toEqual({
+			theme: 'hot',
+			colorLevel: 3,
+			unicode: true,
+			animation: true,
+		});
+		expect(detectPresentation([], env, {}).animation).toBe(false);
+		expect(
+			detectPresentation([], { ...env, LANG: 'C' }, tty).animation,
+		).toBe(false);
+	});
+
+	it('drops colour, Unicode and animation with --plain', () => {
+		for (const [argv, extra] of [
+			[['--plain'], {}],
+			[[], { WING_SCRAPE_PLAIN: '1' }],
+		] as const) {
+			expect(
+				detectPresentation([...argv], { ...env, ...extra }, tty),
+			).toEqual({
+				theme: 'hot',
+				colorLevel: 0,
+				unicode: false,
+				animation: false,
+			});
+		}
+	});
+
+	it('picks a theme by flag or environment, and rejects unknown ones', () => {
+		expect(
+			detectPresentation(['--theme', 'mono'], {
+				WING_SCRAPE_THEME: 'contrast',
+			}).theme,
+		).toBe('mono');
+		expect(
+			detectPresentation([], { WING_SCRAPE_THEME: 'contrast' }).theme,
+		).toBe('contrast');
+		expect(() => detectPresentation(['--theme', 'neon'], {})).toThrow(
+			ThemeError,
+		);
+	});
+});
+
+describe('plain output', () => {
+	it('strips emoji along with the spaces around them', () => {
+		expect(stripEmoji('🌶️  Welcome to the CLI! 🌶️')).toBe(
+			'Welcome to the CLI!',
+		);
+		expect(stripEmoji('\n⚠️  Issues\n🔥🔥🔥\nStay spicy! 🌶️')).toBe(
+			'\nIssues\n\nStay spicy!',
+		);
+		expect(stripEmoji('★★★★☆ · ♥ Favorite')).toBe('★★★★☆ · ♥ Favorite');
+	});
+
+	it('spells out Unicode symbols, boxes and bars in ASCII', () => {
+		expect(toAscii('Watched · ★★★★☆ · ♥ Favorite')).toBe(
+			'Watched - ****. - <3 Favorite',
+		);
+		expect(toAscii('╔═╤═╗ │ ▁▄█ Eric André…')).toBe(
+			'+-+-+ | _-# Eric Andre...',
+		);
+	});
+
+	it('styles and strips through brand and createTable', () => {
+		usePresentation({
+			theme: 'hot',
+			colorLevel: 0,
+			unicode: false,
+			animation: false,
+		});
+		expect(brand.success('✅ Saved', 'to ★ list')).toBe('Saved to * list');
+
+		const table = createTable({
+			head: ['Guest'],
+			chars: {
+				top: '═',
+				mid: '',
+				'left-mid': '',
+				'mid-mid': '',
+				'right-mid': '',
+			},
+		});
+		table.push([brand.info('🔥 Eric André')]);
+		expect(table.toString()).toBe(
+			[
+				'+------------+',
+				'| Guest      |',
+				'| Eric Andre |',
+				'+------------+',
+			].join('\n'),
+		);
+	});
+
+	it('leaves everything alone on a Unicode terminal', () => {
+		usePresentation({
+			theme: 'mono',
+			colorLevel: 0,
+			unicode: true,
+			animation: false,
+		});
+		expect(brand.title('🌶️  Hot Ones ★')).toBe('🌶️  Hot Ones ★');
+	});
+});
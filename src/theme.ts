@@ -0,0 +1,308 @@
+import { getFlagValue } from './episode-sources';
+import chalk, { Chalk, ChalkInstance, ColorSupportLevel } from 'chalk';
+import Table from 'cli-table3';
+
+// Brand colors
+const colors = {
+	black: '#000000',
+	white: '#FFFFFF',
+	yellow: '#FED204',
+	red: '#DA1F27',
+};
+
+export type BrandStyle =
+	| 'title'
+	| 'highlight'
+	| 'success'
+	| 'error'
+	| 'info'
+	| 'dim'
+	| 'selected';
+
+export type Brand = Record<BrandStyle, (...text: unknown[]) => string>;
+
+export const THEME_NAMES = ['hot', 'contrast', 'mono'] as const;
+
+export type ThemeName = (typeof THEME_NAMES)[number];
+
+// Styled chalk functions for each theme
+const THEMES: Record<
+	ThemeName,
+	(c: ChalkInstance) => Record<BrandStyle, ChalkInstance>
+> = {
+	hot: (c) => ({
+		title: c.hex(colors.red).bold,
+		highlight: c.hex(colors.yellow).bold,
+		success: c.hex(colors.yellow),
+		error: c.hex(colors.red),
+		info: c.hex(colors.white),
+		dim: c.hex(colors.white).dim,
+		selected: c.bgHex(colors.red).hex(colors.white).bold,
+	}),
+	// Plain ANSI colours, no dimmed text; readable on light and dark terminals
+	contrast: (c) => ({
+		title: c.redBright.bold.underline,
+		highlight: c.yellowBright.bold,
+		success: c.greenBright,
+		error: c.redBright.bold,
+		info: c.reset,
+		dim: c.reset,
+		selected: c.inverse.bold,
+	}),
+	// Emphasis without colour, for colour-blind users and monochrome screens
+	mono: (c) => ({
+		title: c.bold.underline,
+		highlight: c.bold,
+		success: c.reset,
+		error: c.bold,
+		info: c.reset,
+		dim: c.dim,
+		selected: c.inverse,
+	}),
+};
+
+export interface Presentation {
+	theme: ThemeName;
+	// 0 is no colour at all
+	colorLevel: ColorSupportLevel;
+	// Emoji and box drawing; without it output sticks to ASCII
+	unicode: boolean;
+	// Spinners, chalk-animation and banners, which only make sense live
+	animation: boolean;
+}
+
+export class ThemeError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ThemeError';
+	}
+}
+
+const isThemeName = (name: string): name is ThemeName =>
+	(THEME_NAMES as readonly string[]).includes(name);
+
+// FORCE_COLOR wins, read the way chalk reads it; then NO_COLOR (no-color.org)
+export function colorLevel(
+	env: NodeJS.ProcessEnv,
+	detected: ColorSupportLevel = chalk.level,
+): ColorSupportLevel {
+	const force = env.FORCE_COLOR;
+	if (force !== undefined) {
+		if (force === '' || force === 'true') {
+			return 1;
+		}
+		if (force === 'false') {
+			return 0;
+		}
+		const level = parseInt(force, 10);
+		return Number.isNaN(level)
+			? detected
+			: (Math.max(0, Math.min(level, 3)) as ColorSupportLevel);
+	}
+	return env.NO_COLOR ? 0 : detected;
+}
+
+// The Linux console, C/POSIX locales and the old Windows console can't
+// show emoji or reliably draw boxes
+export function supportsUnicode(
+	env: NodeJS.ProcessEnv,
+	platform: NodeJS.Platform = process.platform,
+): boolean {
+	if (platform === 'win32') {
+		return Boolean(
+			env.WT_SESSION ||
+				env.TERM_PROGRAM === 'vscode' ||
+				env.TERM === 'xterm-256color' ||
+				env.TERM === 'alacritty',
+		);
+	}
+	if (env.TERM === 'linux') {
+		return false;
+	}
+	const locale = env.LC_ALL || env.LC_CTYPE || env.LANG;
+	return !locale || /utf-?8/i.test(locale);
+}
+
+// --theme and --plain win over WING_SCRAPE_THEME and WING_SCRAPE_PLAIN
+export function detectPresentation(
+	argv: string[],
+	env: NodeJS.ProcessEnv = process.env,
+	stream: { isTTY?: boolean } = process.stdout,
+): Presentation {
+	const theme =
+		getFlagValue(argv, '--theme') ?? env.WING_SCRAPE_THEME ?? 'hot';
+	if (!isThemeName(theme)) {
+		throw new ThemeError(
+			`Unknown theme "${theme}". Expected one of: ${THEME_NAMES.join(
+				', ',
+			)}`,
+		);
+	}
+
+	const plain =
+		argv.includes('--plain') ||
+		(env.WING_SCRAPE_PLAIN !== undefined && env.WING_SCRAPE_PLAIN !== '0');
+	const level = plain ? 0 : colorLevel(env);
+	const unicode = !plain && supportsUnicode(env);
+	return {
+		theme,
+		colorLevel: level,
+		unicode,
+		animation: unicode && level > 0 && Boolean(stream.isTTY),
+	};
+}
+
+// Emoji, including ones made emoji by a variation selector ("🌶️", "⚠️"),
+// with the spaces that separated them from the text
+const EMOJI =
+	/(?:\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F)(?:\u200D(?:\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F?))*/u;
+const TRAILING_EMOJI = new RegExp(`[ \\t]*(?:${EMOJI.source}[ \\t]*)+$`, 'gmu');
+const LEADING_EMOJI = new RegExp(`(?:${EMOJI.source})+[ \\t]*`, 'gu');
+
+export const stripEmoji = (text: string) =>
+	text.replace(TRAILING_EMOJI, '').replace(LEADING_EMOJI, '');
+
+const ASCII_FALLBACKS: Record<string, string> = {
+	'·': '-',
+	'—': '-',
+	'–': '-',
+	'‘': "'",
+	'’': "'",
+	'“': '"',
+	'”': '"',
+	'…': '...',
+	'›': '>',
+	'→': '->',
+	'←': '<-',
+	'↑': '^',
+	'↓': 'v',
+	'×': 'x',
+	'★': '*',
+	'☆': '.',
+	'♥': '<3',
+};
+
+// Sparkline levels, lowest first
+const BLOCKS = '▁▂▃▄▅▆▇█';
+const ASCII_BLOCKS = '_.:-=+*#';
+
+// Box drawing becomes +, - and |; accents are dropped ("André" -> "Andre")
+export function toAscii(text: string): string {
+	return text
+		.replace(/[\u2500-\u257f]/g, (char) =>
+			/[─━═╌╍┄┅]/.test(char) ? '-' : /[│┃║╎╏┆┇]/.test(char) ? '|' : '+',
+		)
+		.replace(
+			/[\u2581-\u2588]/g,
+			(char) => ASCII_BLOCKS[BLOCKS.indexOf(char)] ?? '#',
+		)
+		.replace(/[^\x00-\x7f]/g, (char) => ASCII_FALLBACKS[char] ?? char)
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '');
+}
+
+let presentation: Presentation = {
+	theme: 'hot',
+	colorLevel: colorLevel(process.env),
+	unicode: supportsUnicode(process.env),
+	animation: false,
+};
+let styles = THEMES.hot(new Chalk({ level: presentation.colorLevel }));
+
+export function usePresentation(next: Presentation): void {
+	presentation = next;
+	styles = THEMES[next.theme](new Chalk({ level: next.colorLevel }));
+}
+
+export const getPresentation = () => presentation;
+
+// What every line goes through on its way to the terminal
+const present = (text: string) =>
+	presentation.unicode ? text : toAscii(stripEmoji(text));
+
+const style =
+	(name: BrandStyle) =>
+	(...text: unknown[]) =>
+		styles[name](present(text.join(' ')));
+
+// Styled output in the current theme
+export const brand: Brand = {
+	title: style('title'),
+	highlight: style('highlight'),
+	success: style('success'),
+	error: style('error'),
+	info: style('info'),
+	dim: style('dim'),
+	selected: style('selected'),
+};
+
+const ASCII_TABLE_CHARS: Record<Table.CharName, string> = {
+	top: '-',
+	'top-mid': '+',
+	'top-left': '+',
+	'top-right': '+',
+	bottom: '-',
+	'bottom-mid': '+',
+	'bottom-left': '+',
+	'bottom-right': '+',
+	left: '|',
+	'left-mid': '+',
+	mid: '-',
+	'mid-mid': '+',
+	right: '|',
+	'right-mid': '+',
+	middle: '|',
+};
+
+// A cli-table3 table that draws in ASCII and drops border colours when the
+// presentation calls for it
+export function createTable(
+	options: Table.TableConstructorOptions = {},
+): Table.Table {
+	const { unicode, colorLevel: level } = presentation;
+	return new Table({
+		...options,
+		...(unicode
+			? {}
+			: {
+					chars: {
+						...ASCII_TABLE_CHARS,
+						...Object.fromEntries(
+							Object.entries(options.chars ?? {}).map(
+								([name, char]) => [name, toAscii(char)],
+							),
+						),
+					},
+					truncate: '...',
+			  }),
+		style: {
+			...options.style,
+			...(level === 0 ? { head: [], border: [] } : {}),
+		},
+	});
+}
+
+const SPINNER = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+
+// Spins on a live terminal; anywhere else the text is printed once.
+// Returns the function that stops it.
+export function startSpinner(
+	text: string,
+	stream: NodeJS.WriteStream = process.stdout,
+): () => void {
+	if (!presentation.animation) {
+		stream.write(brand.highlight(text) + '\n');
+		return () => undefined;
+	}
+
+	let i = 0;
+	const interval = setInterval(() => {
+		stream.write(
+			`\r${brand.highlight(`${SPINNER[i++ % SPINNER.length]} ${text}`)}`,
+		);
+	}, 100);
+	return () => {
+		clearInterval(interval);
+		stream.write('\r' + ' '.repeat(text.length + 2) + '\r');
+	};
+}
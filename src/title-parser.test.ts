@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseEpisodeTitle, withParsedTitle } from './title-parser';
+import { migrateReport } from './report';
+import { HotOnesEpisode } from './types';
+
+const report: HotOnesEpisode[] = migrateReport(
+	JSON.parse(
+		fs.readFileSync(
+			path.join(__dirname, '..', 'hot-ones-report.json'),
+			'utf-8',
+		),
+	),
+).report.episodes;
+
+const reportTitles = report.map((episode) => episode.title);
+
+// Known titles from hot-ones-report.json and the guests they should yield
+const GUEST_FIXTURES: [string, string[]][] = [
+	[
+		"Tony Yayo Talks Shmoney Dance & Eminem's Taco Habit While Eating Spicy Chicken Wings",
+		['Tony Yayo'],
+	],
+	[
+		'Anthony Rizzo On Chicago Cubs Rivalries & Baseball Superstitions While Eating Spicy Wings',
+		['Anthony Rizzo'],
+	],
+	['Key & Peele Lose Their Minds Eating Spicy Wings', ['Key', 'Peele']],
+	['RZA and Paul Banks Tag Team Spicy Wings', ['RZA', 'Paul Banks']],
+	['Travis Kelce Gets Woozy Eating Spicy Wings', ['Travis Kelce']],
+	['Tony Hawk Eats Spicy Wings LIVE at ComplexCon', ['Tony Hawk']],
+	[
+		'Viola Davis Gives a Master Class While Eating Spicy Wings',
+		['Viola Davis'],
+	],
+	[
+		'Tracee Ellis Ross Calls For Her Mommy While Eating Spicy Wings',
+		['Tracee Ellis Ross'],
+	],
+	[
+		'Ryan Reynolds and Hugh Jackman Go Claws Out While Eating Spicy Wings',
+		['Ryan Reynolds', 'Hugh Jackman'],
+	],
+	[
+		'Kevin Hart and Tiffany Haddish Play Truth or Dab',
+		['Kevin Hart', 'Tiffany Haddish'],
+	],
+	[
+		'NFL Pros Gabriel Davis and Isaiah Mckenzie Play Truth or Dab',
+		['Gabriel Davis', 'Isaiah Mckenzie'],
+	],
+	[
+		'Channing Tatum vs. Zoë Kravitz vs. Naomi Ackie',
+		['Channing Tatum', 'Zoë Kravitz', 'Naomi Ackie'],
+	],
+	['Viola Davis vs. Husband Julius Tennon', ['Viola Davis', 'Julius Tennon']],
+	[
+		'The Boys’ Antony Starr vs. Chace Crawford',
+		['Antony Starr', 'Chace Crawford'],
+	],
+	[
+		'Lil Nas X Celebrates Thanksgiving With the Biggest Last Dab Ever',
+		['Lil Nas X'],
+	],
+	[
+		'The Jonas Brothers Burn Up While Eating Spicy Wings',
+		['The Jonas Brothers'],
+	],
+	['Saweetie Almost Tap Tap Taps Out While Eating Spicy Wings', ['Saweetie']],
+	[
+		'Hot Ones Classics: Bert Kreischer Relives His First Encounter with the Wings of Death',
+		['Bert Kreischer'],
+	],
+	[
+		'Machine Gun Kelly Has a Rematch with the Wings of Death | Hot Ones Throwback',
+		['Machine Gun Kelly'],
+	],
+	[
+		"Conan O'Brien Needs a Doctor While Eating Spicy Wings",
+		["Conan O'Brien"],
+	],
+];
+
+const SPECIAL_FIXTURES: string[] = [
+	'Season Four Hot Sauce Lineup, REVEALED',
+	'Sean Evans Reveals the Season 10 Hot Sauce Lineup',
+	'The Best Da Bomb Reactions of 2019',
+	'How to Eat a Chicken Wing | Hot Ones Extra',
+	'Hot Ones Mailbag: Sean Evans Answers Fan Questions',
+	'The Hot Ones Holiday Special 2019',
+];
+
+describe('parseEpisodeTitle', () => {
+	it('only uses fixtures that exist in hot-ones-report.json', () => {
+		for (const [title] of GUEST_FIXTURES) {
+			expect(reportTitles).toContain(title);
+		}
+		for (const title of SPECIAL_FIXTURES) {
+			expect(reportTitles).toContain(title);
+		}
+	});
+
+	it.each(GUEST_FIXTURES)('extracts guests from "%s"', (title, guests) => {
+		expect(parseEpisodeTitle(title).guests).toEqual(guests);
+	});
+
+	it.each(SPECIAL_FIXTURES)('treats "%s" as a special', (title) => {
+		const parsed = parseEpisodeTitle(title);
+		expect(parsed.isSpecial).toBe(true);
+		expect(parsed.guests).toEqual([]);
+	});
+
+	it('extracts topics from "Talks" and "On" titles', () => {
+		expect(
+			parseEpisodeTitle(
+				'Machine Gun Kelly Talks Diddy, Hangovers, & Amber Rose While Eating Spicy Wings',
+			).topics,
+		).toEqual(['Diddy', 'Hangovers', 'Amber Rose']);
+		expect(
+			parseEpisodeTitle(
+				'Anthony Rizzo On Chicago Cubs Rivalries & Baseball Superstitions While Eating Spicy Wings',
+			).topics,
+		).toEqual(['Chicago Cubs Rivalries', 'Baseball Superstitions']);
+		expect(
+			parseEpisodeTitle('Travis Kelce Gets Woozy Eating Spicy Wings')
+				.topics,
+		).toEqual([]);
+	});
+
+	it('finds a guest for every regular "While Eating Spicy Wings" episode', () => {
+		const regular = reportTitles.filter(
+			(title) =>
+				/while eating spicy wings$/i.test(title) &&
+				!parseEpisodeTitle(title).isSpecial,
+		);
+		expect(regular.length).toBeGreaterThan(250);
+
+		for (const title of regular) {
+			const { guests } = parseEpisodeTitle(title);
+			expect(guests.length).toBeGreaterThan(0);
+			for (const guest of guests) {
+				expect(guest).not.toMatch(/spicy wings|while eating/i);
+				expect(guest.split(' ').length).toBeLessThanOrEqual(4);
+			}
+		}
+	});
+});
+
+describe('withParsedTitle', () => {
+	it('fills in guests and topics for older report entries', () => {
+		const { guests, topics, ...legacy } = {
+			...report[0],
+			guests: [],
+			topics: [],
+		};
+		const episode = withParsedTitle(legacy);
+		expect(episode.guests).toEqual(['Tony Yayo']);
+		expect(episode.topics).toEqual([
+			'Shmoney Dance',
+			"Eminem's Taco Habit",
+		]);
+	});
+});
@@ -0,0 +1,270 @@
+// Parses TheTVDB episode titles into guests and talking points, e.g.
+// "Tony Yayo Talks Shmoney Dance & Eminem's Taco Habit While Eating Spicy Chicken Wings"
+// -> guests: ['Tony Yayo'], topics: ['Shmoney Dance', "Eminem's Taco Habit"]
+
+import { HotOnesEpisode } from './types';
+
+export interface ParsedTitle {
+	guests: string[];
+	topics: string[];
+	isSpecial: boolean;
+}
+
+// Titles that are not a regular guest interview (lineup reveals, compilations, extras)
+const SPECIAL_PATTERNS: RegExp[] = [
+	/hot sauce lineup/i,
+	/hot sauce reveal/i,
+	/lineup,? revealed/i,
+	/^the best .* (reactions|moments)/i,
+	/^how to /i,
+	/\bhot ones extra\b/i,
+	/\bmailbag\b/i,
+	/^sean evans /i,
+	/^hot sauce shopping/i,
+	/^world's hottest/i,
+	/^(the )?hot ones\b/i,
+	/^the best\b/i,
+	/^everything you need to know\b/i,
+	/^sean('s| calls)\b/i,
+	/\bquarantine update\b/i,
+	/^the ultimate\b/i,
+	/^a history of\b/i,
+];
+
+// Prefixes that label a series rather than a guest, e.g. "Hot Ones Classics: ..."
+const PREFIX_PATTERN = /^(hot ones( [a-z]+)?|pepper x)\s*:\s*/i;
+
+// Descriptors in front of a guest name, e.g. "NFL Pros ..." or "The Boys' ..."
+const DESCRIPTOR_PATTERNS: RegExp[] = [
+	/^.*\b(pros|stars|superstars|co-creator)\s+/i,
+	/^[^'’]+(s['’]|['’]s)\s+/,
+];
+
+// Suffixes describing the wing challenge itself rather than the guest
+const SUFFIX_PATTERNS: RegExp[] = [
+	/\s*\|.*$/,
+	/\s+while eating\b.*$/i,
+	/\s+(eating|with|by|to eat|against|at|for)\s+(the\s+)?(spicy|hot)\b.*$/i,
+	/\s+at the hot ones\b.*$/i,
+	/\s+for the hot ones\b.*$/i,
+];
+
+// Verbs that don't take a trailing "s" (plural subjects or irregular forms)
+const BASE_VERBS = new Set([
+	'On',
+	'Is',
+	'Has',
+	'Go',
+	'Get',
+	'Lose',
+	'Tag',
+	'Play',
+	'Take',
+	'Try',
+	'Face',
+	'Eat',
+	'Make',
+	'Turn',
+	'Talk',
+	'Break',
+	'Battle',
+	'Do',
+	'Bond',
+	'Burn',
+	'Suffer',
+	'Hiccup',
+	'Want',
+	"Doesn't",
+	'Doesn’t',
+	'Gs',
+	'Ups',
+	"Can't",
+	'Can’t',
+	'Vs.',
+	'vs.',
+	'vs',
+]);
+
+// Verbs that always end the guest name, even when followed by another "-s" word
+const STRONG_VERBS = new Set([
+	'Talks',
+	'Gets',
+	'Goes',
+	'Has',
+	'Is',
+	'Does',
+	'Takes',
+	'Tries',
+	'Needs',
+	'Eats',
+	'Plays',
+	'Feels',
+	'Makes',
+	'Says',
+	'Gives',
+	'Tastes',
+	'Splits',
+	'Becomes',
+]);
+
+// Adverbs that sit between the guest name and the verb
+const ADVERBS = new Set([
+	'Almost',
+	'Deeply',
+	'Gracefully',
+	'Rigorously',
+	'Savagely',
+	'Finally',
+	'Fully',
+	'Nearly',
+]);
+
+// "-s" words that continue a name or introduce the predicate rather than end it
+const NON_VERBS = new Set([
+	'His',
+	'Hers',
+	'Its',
+	'This',
+	'Pros',
+	'Stars',
+	'Superstars',
+]);
+
+// Group nouns that finish a band or duo name, e.g. "The Jonas Brothers"
+const GROUP_NOUNS = new Set(['Brothers', 'Sisters', 'Twins']);
+
+// Words used as a descriptor before a guest name in "X vs. Y" titles
+const RELATION_WORDS = new Set([
+	'husband',
+	'wife',
+	'fiancée',
+	'fiancé',
+	'brother',
+	'sister',
+	'dad',
+	'mom',
+	'son',
+	'daughter',
+]);
+
+const CONNECTOR_PATTERN = /\s*(?:,\s*(?:and\s+|&\s+)?|\s+and\s+|\s+&\s+)\s*/i;
+
+export function parseEpisodeTitle(rawTitle: string): ParsedTitle {
+	const title = rawTitle.replace(/\s+/g, ' ').trim();
+
+	let subject = title.replace(PREFIX_PATTERN, '');
+	if (!subject || SPECIAL_PATTERNS.some((pattern) => pattern.test(subject))) {
+		return { guests: [], topics: [], isSpecial: true };
+	}
+	for (const pattern of SUFFIX_PATTERNS) {
+		subject = subject.replace(pattern, '');
+	}
+
+	// "X vs. Y vs. Z" head-to-head specials
+	if (/\svs\.?\s/i.test(subject)) {
+		return {
+			guests: subject
+				.split(/\s+vs\.?\s+/i)
+				.map(cleanName)
+				.filter(Boolean),
+			topics: [],
+			isSpecial: true,
+		};
+	}
+
+	const words = subject.split(' ');
+	const verbIndex = findVerbIndex(words);
+	if (verbIndex === -1) {
+		// No predicate, so the whole remaining phrase is most likely the guest
+		return {
+			guests: words.length <= 4 ? splitNames(subject) : [],
+			topics: [],
+			isSpecial: words.length > 4,
+		};
+	}
+
+	const guests = splitNames(words.slice(0, verbIndex).join(' '));
+	const verb = words[verbIndex];
+	const topics =
+		verb === 'Talks' || verb === 'On'
+			? splitTopics(words.slice(verbIndex + 1).join(' '))
+			: [];
+
+	return {
+		guests,
+		topics,
+		isSpecial: /truth or dab/i.test(title),
+	};
+}
+
+// Reports saved before guests/topics were scraped only carry the raw title
+export function withParsedTitle(
+	episode: Omit<HotOnesEpisode, 'guests' | 'topics'> &
+		Partial<Pick<HotOnesEpisode, 'guests' | 'topics'>>,
+): HotOnesEpisode {
+	if (episode.guests && episode.topics) {
+		return episode as HotOnesEpisode;
+	}
+
+	const { guests, topics } = parseEpisodeTitle(episode.title);
+	return { ...episode, guests, topics };
+}
+
+function findVerbIndex(words: string[]): number {
+	for (let i = 1; i < words.length; i++) {
+		const word = words[i];
+		if (STRONG_VERBS.has(word) || ADVERBS.has(word)) {
+			return i;
+		}
+		if (!isVerbLike(word)) {
+			continue;
+		}
+
+		// Surnames ending in "s" are followed by the real verb or a connector
+		const next = words[i + 1];
+		if (
+			!BASE_VERBS.has(word) &&
+			next !== undefined &&
+			((next !== 'On' && isVerbLike(next)) ||
+				GROUP_NOUNS.has(next) ||
+				next === 'and' ||
+				next === '&')
+		) {
+			continue;
+		}
+
+		return i;
+	}
+	return -1;
+}
+
+function isVerbLike(word: string): boolean {
+	if (NON_VERBS.has(word) || GROUP_NOUNS.has(word)) {
+		return false;
+	}
+	return BASE_VERBS.has(word) || /^[A-Z][a-z]{2,}s$/.test(word);
+}
+
+function splitNames(phrase: string): string[] {
+	return phrase.split(CONNECTOR_PATTERN).map(cleanName).filter(Boolean);
+}
+
+function splitTopics(phrase: string): string[] {
+	return phrase
+		.split(CONNECTOR_PATTERN)
+		.map((topic) => topic.replace(/^["“]|["”]$/g, '').trim())
+		.filter(Boolean);
+}
+
+function cleanName(name: string): string {
+	let cleaned = name.trim();
+	for (const pattern of DESCRIPTOR_PATTERNS) {
+		cleaned = cleaned.replace(pattern, '');
+	}
+
+	const words = cleaned.split(' ');
+	while (words.length > 1 && RELATION_WORDS.has(words[0].toLowerCase())) {
+		words.shift();
+	}
+	return words.join(' ');
+}
@@ -0,0 +1,181 @@
+import { EpisodeBrowser, runEpisodeBrowser, wrapText } from './tui';
+import { SearchIndex } from './search-index';
+import { HotOnesEpisode } from './types';
+import { PassThrough } from 'stream';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	season_number: number,
+	episode_number: number,
+	guest: string,
+	description = '',
+): HotOnesEpisode =>
+	makeEpisode({
+		season_number,
+		episode_number,
+		title: `${guest} Eats Spicy Wings`,
+		guests: [guest],
+		description,
+		tags: [tag('Comedy')],
+	});
+
+const episodes = [
+	episode(1, 1, 'Tony Yayo'),
+	episode(1, 2, 'Action Bronson'),
+	episode(2, 1, 'Ricky Gervais', 'Ricky talks about The Office'),
+	episode(2, 2, 'Kevin Hart'),
+	episode(2, 3, 'Conan O’Brien'),
+];
+
+const createBrowser = (open = jest.fn(async () => 'Opened')) =>
+	new EpisodeBrowser({
+		episodes,
+		searchIndex: new SearchIndex(episodes),
+		details: ({ episode }) => [
+			{ label: 'Guests', value: episode.guests.join(', '), tone: 'info' },
+		],
+		open,
+	});
+
+const guest = (browser: EpisodeBrowser) => browser.selected?.episode.guests[0];
+
+const type = (browser: EpisodeBrowser, keys: string[]) =>
+	keys.map((key) => browser.press(key));
+
+describe('EpisodeBrowser', () => {
+	it('moves through the list and the season sidebar', () => {
+		const browser = createBrowser();
+		expect(browser.seasons).toEqual([null, 1, 2]);
+		expect(browser.entries).toHaveLength(5);
+
+		type(browser, ['j', 'down', 'down', 'k']);
+		expect(guest(browser)).toBe('Ricky Gervais');
+
+		type(browser, ['h', 'j', 'j', 'l', 'G']);
+		expect(browser.season).toBe(2);
+		expect(browser.entries.map(({ number }) => number)).toEqual([3, 4, 5]);
+		expect(guest(browser)).toBe('Conan O’Brien');
+
+		type(browser, ['tab', 'up', 'tab', 'j']);
+		expect(browser.season).toBe(1);
+		expect(guest(browser)).toBe('Action Bronson');
+	});
+
+	it('searches live as the query is typed, and clears on escape', () => {
+		const browser = createBrowser();
+
+		type(browser, ['/', ...'kevin']);
+		expect(browser.entries.map(({ number }) => number)).toEqual([4]);
+
+		// Keys are text while the search box has focus
+		type(browser, [' ', 'q']);
+		expect(browser.entries).toEqual([]);
+
+		type(browser, ['backspace', 'backspace', 'return']);
+		expect(guest(browser)).toBe('Kevin Hart');
+
+		browser.press('escape');
+		expect(browser.entries).toHaveLength(5);
+	});
+
+	it('opens the selected episode and quits on q', async () => {
+		const open = jest.fn(async () => 'Opened the YouTube search');
+		const browser = createBrowser(open);
+
+		browser.press('j');
+		expect(browser.press('o')).toBe('open');
+		await browser.openSelected();
+		expect(open).toHaveBeenCalledWith(episodes[1]);
+		expect(browser.render(80, 10).pop()).toContain(
+			'Opened the YouTube search',
+		);
+
+		expect(browser.press('q')).toBe('quit');
+	});
+
+	it('fills the screen with the sidebar, list and detail pane', () => {
+		const browser = createBrowser();
+		type(browser, ['j', 'j']);
+		const screen = browser.render(100, 12);
+
+		expect(screen).toHaveLength(12);
+		expect(screen[0]).toContain('/ to search');
+		expect(screen[1]).toContain('SEASONS');
+		expect(screen[1]).toContain('ALL (5)');
+		expect(screen[1]).toContain('S2E1');
+		expect(screen.join('\n')).toContain('RICKY GERVAIS EATS SPICY WINGS');
+		expect(screen.join('\n')).toContain('Guests  Ricky Gervais');
+		expect(screen.join('\n')).toContain('Ricky talks about The Office');
+		expect(screen[11]).toContain('q quit');
+	});
+
+	it('scrolls the list to keep the selection on screen', () => {
+		const browser = createBrowser();
+		type(browser, ['G']);
+		const screen = browser.render(100, 5).join('\n');
+
+		expect(screen).toContain('Conan');
+		expect(screen).not.toContain('Tony Yayo');
+	});
+});
+
+describe('runEpisodeBrowser', () => {
+	// A fake TTY: keys are written to input, the screen collects in written
+	const terminal = () => {
+		const input = Object.assign(new PassThrough(), {
+			isTTY: true,
+			setRawMode: jest.fn(),
+		});
+		const output = Object.assign(new PassThrough(), {
+			columns: 80,
+			rows: 10,
+		});
+		const written: string[] = [];
+		output.on('data', (chunk) => written.push(String(chunk)));
+		return {
+			input: input as unknown as NodeJS.ReadStream & typeof input,
+			output: output as unknown as NodeJS.WriteStream,
+			written,
+		};
+	};
+
+	it('restores the terminal when q is pressed', async () => {
+		const { input, output, written } = terminal();
+		const running = runEpisodeBrowser(createBrowser(), input, output);
+		input.write('q');
+		await running;
+
+		expect(input.setRawMode).toHaveBeenLastCalledWith(false);
+		expect(written.join('')).toMatch(/\x1b\[\?1049l$/);
+	});
+
+	it('restores the terminal when rendering throws', async () => {
+		const { input, output, written } = terminal();
+		const browser = createBrowser();
+		const running = runEpisodeBrowser(browser, input, output);
+		jest.spyOn(browser, 'render').mockImplementation(() => {
+			throw new Error('Bad render');
+		});
+		input.write('j');
+
+		await expect(running).rejects.toThrow('Bad render');
+		expect(input.setRawMode).toHaveBeenLastCalledWith(false);
+		expect(input.listenerCount('keypress')).toBe(0);
+		expect(written.join('')).toMatch(/\x1b\[\?1049l$/);
+	});
+});
+
+describe('wrapText', () => {
+	it('wraps on word boundaries without losing long words', () => {
+		expect(wrapText('Ricky talks about  The Office', 11)).toEqual([
+			'Ricky talks',
+			'about The',
+			'Office',
+		]);
+		expect(wrapText('Unbelievably long', 5)).toEqual([
+			'Unbelievably',
+			'long',
+		]);
+		expect(wrapText('', 10)).toEqual([]);
+	});
+});
@@ -0,0 +1,490 @@
+import { HotOnesEpisode } from './types';
+import { listSeason, NumberedEpisode } from './episode-queries';
+import { episodeCode } from './episode-numbering';
+import { SearchIndex, SearchQueryError } from './search-index';
+import { brand } from './theme';
+import * as readline from 'readline';
+
+const SIDEBAR_WIDTH = 14;
+// The episode list gets this share of what the sidebar leaves
+const LIST_SHARE = 0.45;
+
+// One labelled row of the episode details, as displayEpisode prints them
+export interface EpisodeDetail {
+	label: string;
+	value: string;
+	tone: 'info' | 'success' | 'dim';
+}
+
+export interface BrowserOptions {
+	episodes: HotOnesEpisode[];
+	searchIndex: SearchIndex;
+	details: (entry: NumberedEpisode) => EpisodeDetail[];
+	// Resolves to a status line once the browser has been asked to open it
+	open: (episode: HotOnesEpisode) => Promise<string>;
+}
+
+export type BrowserAction = 'quit' | 'open';
+
+type Pane = 'seasons' | 'episodes';
+
+// Greedy word wrap; a word longer than the width gets a line of its own
+export function wrapText(text: string, width: number): string[] {
+	const lines: string[] = [];
+	let currentLine = '';
+
+	text.split(/\s+/)
+		.filter(Boolean)
+		.forEach((word) => {
+			if ((currentLine + ' ' + word).length <= width || !currentLine) {
+				currentLine += (currentLine ? ' ' : '') + word;
+			} else {
+				lines.push(currentLine);
+				currentLine = word;
+			}
+		});
+	if (currentLine) lines.push(currentLine);
+	return lines;
+}
+
+// Pads or truncates to exactly `width` columns
+const fit = (text: string, width: number) =>
+	text.length > width
+		? text.slice(0, Math.max(width - 1, 0)) + (width > 0 ? '…' : '')
+		: text.padEnd(width);
+
+const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+
+const seasonLabel = (season: number | null) =>
+	season === null ? 'All' : season === 0 ? 'Specials' : `Season ${season}`;
+
+// Full-screen, keyboard-driven episode browser. Keys go in through press(),
+// the screen comes out of render(), so both work without a terminal.
+export class EpisodeBrowser {
+	// null is every season
+	readonly seasons: (number | null)[];
+	private seasonIndex = 0;
+	private episodeIndex = 0;
+	private episodeOffset = 0;
+	private focus: Pane = 'episodes';
+	private searching = false;
+	private query = '';
+	private results: NumberedEpisode[] = [];
+	private status = '';
+	// Rows the episode list had at the last render, for page up/down
+	private pageSize = 10;
+
+	constructor(private options: BrowserOptions) {
+		this.seasons = [
+			null,
+			...[
+				...new Set(
+					options.episodes.map(({ season_number }) => season_number),
+				),
+			].sort((a, b) => a - b),
+		];
+	}
+
+	get season(): number | null {
+		return this.seasons[this.seasonIndex];
+	}
+
+	// What the list shows: search results while there is a query
+	get entries(): NumberedEpisode[] {
+		if (this.query.trim()) {
+			return this.results;
+		}
+		return this.season === null
+			? this.options.episodes.map((episode, index) => ({
+					number: index + 1,
+					episode,
+			  }))
+			: listSeason(this.options.episodes, this.season);
+	}
+
+	get selected(): NumberedEpisode | undefined {
+		return this.entries[this.episodeIndex];
+	}
+
+	// Single characters, or readline key names ("up", "return", "escape")
+	press(key: string): BrowserAction | undefined {
+		if (this.searching) {
+			return this.pressSearch(key);
+		}
+
+		switch (key) {
+			case 'q':
+				return 'quit';
+			case 'o':
+				return this.selected ? 'open' : undefined;
+			case '/':
+				this.searching = true;
+				this.status = '';
+				return;
+			case 'escape':
+				this.setQuery('');
+				return;
+			case 'tab':
+				this.focus = this.focus === 'seasons' ? 'episodes' : 'seasons';
+				return;
+			case 'left':
+			case 'h':
+				this.focus = 'seasons';
+				return;
+			case 'right':
+			case 'l':
+			case 'return':
+				this.focus = 'episodes';
+				return;
+			case 'up':
+			case 'k':
+				this.move(-1);
+				return;
+			case 'down':
+			case 'j':
+				this.move(1);
+				return;
+			case 'pageup':
+				this.move(-this.pageSize);
+				return;
+			case 'pagedown':
+				this.move(this.pageSize);
+				return;
+			case 'home':
+			case 'g':
+				this.move(-Infinity);
+				return;
+			case 'end':
+			case 'G':
+				this.move(Infinity);
+				return;
+		}
+	}
+
+	// Open the selected episode through the options, keeping its status line
+	async openSelected(): Promise<void> {
+		if (this.selected) {
+			this.status = await this.options.open(this.selected.episode);
+		}
+	}
+
+	render(width: number, height: number): string[] {
+		const bodyHeight = Math.max(height - 2, 1);
+		const listWidth = Math.max(
+			Math.floor((width - SIDEBAR_WIDTH) * LIST_SHARE),
+			10,
+		);
+		const detailWidth = Math.max(width - SIDEBAR_WIDTH - listWidth - 2, 0);
+		this.pageSize = Math.max(bodyHeight - 1, 1);
+
+		const sidebar = this.renderSeasons(bodyHeight);
+		const list = this.renderEpisodes(listWidth, bodyHeight);
+		const detail = this.renderDetail(detailWidth, bodyHeight);
+		const body = sidebar.map(
+			(line, row) =>
+				line +
+				brand.dim('│') +
+				list[row] +
+				brand.dim('│') +
+				detail[row],
+		);
+
+		return [this.renderHeader(width), ...body, this.renderFooter(width)];
+	}
+
+	private pressSearch(key: string): BrowserAction | undefined {
+		switch (key) {
+			case 'return':
+				this.searching = false;
+				this.focus = 'episodes';
+				return;
+			case 'escape':
+				this.searching = false;
+				this.setQuery('');
+				return;
+			case 'backspace':
+				this.setQuery(this.query.slice(0, -1));
+				return;
+			case 'up':
+			case 'down':
+				this.move(key === 'up' ? -1 : 1);
+				return;
+		}
+		if ([...key].length === 1 && key >= ' ') {
+			this.setQuery(this.query + key);
+		}
+	}
+
+	// Searches as you type; a half-typed query just shows what's wrong
+	private setQuery(query: string): void {
+		this.query = query;
+		this.status = '';
+		this.episodeIndex = 0;
+		this.episodeOffset = 0;
+		if (!query.trim()) {
+			this.results = [];
+			return;
+		}
+		try {
+			this.results = this.options.searchIndex
+				.search(query)
+				.map(({ number, episode }) => ({ number, episode }));
+		} catch (error) {
+			if (!(error instanceof SearchQueryError)) {
+				throw error;
+			}
+			this.results = [];
+			this.status = error.message;
+		}
+	}
+
+	private move(delta: number): void {
+		if (this.focus === 'seasons' && !this.searching) {
+			const index = clamp(
+				this.seasonIndex + delta,
+				this.seasons.length - 1,
+			);
+			if (index !== this.seasonIndex) {
+				this.seasonIndex = index;
+				this.episodeIndex = 0;
+				this.episodeOffset = 0;
+			}
+			return;
+		}
+		this.episodeIndex = clamp(
+			this.episodeIndex + delta,
+			this.entries.length - 1,
+		);
+	}
+
+	private renderHeader(width: number): string {
+		const title = ' HOT ONES ';
+		const search = this.searching
+			? `/${this.query}█`
+			: this.query
+			? `/${this.query}`
+			: '/ to search';
+		const searchBox = fit(
+			` ${search}`,
+			Math.max(width - title.length - 1, 0),
+		);
+		return (
+			brand.selected(title) +
+			' ' +
+			(this.searching || this.query
+				? brand.highlight(searchBox)
+				: brand.dim(searchBox))
+		);
+	}
+
+	private renderFooter(width: number): string {
+		const keys = this.searching
+			? 'type to search · ↑↓ move · enter keep · esc clear'
+			: '↑↓/jk move · ←→/hl/tab pane · / search · o YouTube · q quit';
+		return this.status
+			? brand.success(fit(` ${this.status}`, width))
+			: brand.dim(fit(` ${keys}`, width));
+	}
+
+	private renderSeasons(height: number): string[] {
+		const width = SIDEBAR_WIDTH - 1;
+		const active = this.focus === 'seasons' && !this.searching;
+		const rows = this.seasons.map((season, index) => {
+			const label = fit(` ${seasonLabel(season)}`, width);
+			if (index !== this.seasonIndex) {
+				return brand.info(label);
+			}
+			// The season filter is set aside while searching
+			return this.query.trim()
+				? brand.dim(label)
+				: active
+				? brand.selected(label)
+				: brand.highlight(label);
+		});
+		const offset = clamp(this.seasonIndex - (height - 2), rows.length);
+		return this.column(
+			brand.title(fit(' SEASONS', width)),
+			rows.slice(offset),
+			width,
+			height,
+		);
+	}
+
+	private renderEpisodes(width: number, height: number): string[] {
+		const entries = this.entries;
+		const visible = Math.max(height - 1, 1);
+		if (this.episodeIndex < this.episodeOffset) {
+			this.episodeOffset = this.episodeIndex;
+		} else if (this.episodeIndex >= this.episodeOffset + visible) {
+			this.episodeOffset = this.episodeIndex - visible + 1;
+		}
+
+		const active = this.focus === 'episodes' || this.searching;
+		const rows = entries
+			.slice(this.episodeOffset, this.episodeOffset + visible)
+			.map(({ episode }, row) => {
+				const line = fit(
+					` ${episodeCode(episode).padEnd(8)}${
+						episode.guests.join(', ') || episode.title
+					}`,
+					width,
+				);
+				if (this.episodeOffset + row !== this.episodeIndex) {
+					return brand.info(line);
+				}
+				return active ? brand.selected(line) : brand.highlight(line);
+			});
+
+		const heading = this.query.trim()
+			? `RESULTS (${entries.length})`
+			: `${seasonLabel(this.season).toUpperCase()} (${entries.length})`;
+		return this.column(
+			brand.title(fit(` ${heading}`, width)),
+			rows.length > 0 ? rows : [brand.dim(fit(' No episodes', width))],
+			width,
+			height,
+		);
+	}
+
+	private renderDetail(width: number, height: number): string[] {
+		const entry = this.selected;
+		if (!entry || width < 4) {
+			return this.column('', [], width, height);
+		}
+
+		const { episode } = entry;
+		const textWidth = width - 2;
+		const details = this.options.details(entry);
+		const labelWidth = Math.max(
+			0,
+			...details.map(({ label }) => label.length),
+		);
+		const rows = [
+			...wrapText(episode.title.toUpperCase(), textWidth).map((line) =>
+				brand.highlight(fit(` ${line}`, width)),
+			),
+			brand.dim(fit(` Shortcut: ${entry.number}`, width)),
+			fit('', width),
+			...details.flatMap(({ label, value, tone }) =>
+				wrapText(value, Math.max(textWidth - labelWidth - 2, 1)).map(
+					(line, index) =>
+						brand.highlight(
+							` ${(index === 0 ? label : '').padEnd(
+								labelWidth,
+							)}  `,
+						) +
+						brand[tone](
+							fit(line, Math.max(width - labelWidth - 3, 0)),
+						),
+				),
+			),
+		];
+		if (episode.description.trim()) {
+			rows.push(
+				fit('', width),
+				...wrapText(episode.description, textWidth).map((line) =>
+					brand.info(fit(` ${line}`, width)),
+				),
+			);
+		}
+
+		return this.column(
+			brand.title(fit(` ${episodeCode(episode)}`, width)),
+			rows,
+			width,
+			height,
+		);
+	}
+
+	// A heading, then rows cut or blank-padded to fill the pane
+	private column(
+		heading: string,
+		rows: string[],
+		width: number,
+		height: number,
+	): string[] {
+		const lines = [heading, ...rows].slice(0, height);
+		while (lines.length < height) {
+			lines.push(fit('', width));
+		}
+		return lines;
+	}
+}
+
+// Alternate screen, hidden cursor; both undone on the way out
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+
+// Runs the browser on a TTY until q (or Ctrl-C) is pressed
+export async function runEpisodeBrowser(
+	browser: EpisodeBrowser,
+	input: NodeJS.ReadStream = process.stdin,
+	output: NodeJS.WriteStream = process.stdout,
+): Promise<void> {
+	const draw = () =>
+		output.write(
+			'\x1b[H' +
+				browser
+					.render(output.columns || 80, output.rows || 24)
+					.join('\x1b[K\n') +
+				'\x1b[K',
+		);
+
+	let onKeypress: (
+		text: string | undefined,
+		key?: readline.Key,
+	) => void = () => undefined;
+	let onResize: () => void = () => undefined;
+
+	readline.emitKeypressEvents(input);
+	input.setRawMode(true);
+	input.resume();
+	output.write(ENTER_SCREEN + '\x1b[2J');
+	try {
+		await new Promise<void>((resolve, reject) => {
+			// An error from a render or key handler ends the loop, so the
+			// terminal is restored below before it propagates
+			const guard =
+				<A extends unknown[]>(handle: (...args: A) => void) =>
+				(...args: A) => {
+					try {
+						handle(...args);
+					} catch (error) {
+						reject(error);
+					}
+				};
+
+			onKeypress = guard((text, key) => {
+				if (key?.ctrl && key.name === 'c') {
+					resolve();
+					return;
+				}
+				// Printable characters as typed (so "G" and " " survive), else the key name
+				const name =
+					text && text.length === 1 && text >= ' ' && text !== '\x7f'
+						? text
+						: key?.name;
+				const action = name ? browser.press(name) : undefined;
+				if (action === 'quit') {
+					resolve();
+					return;
+				}
+				if (action === 'open') {
+					browser.openSelected().then(guard(draw), reject);
+				}
+				draw();
+			});
+			onResize = guard(draw);
+
+			input.on('keypress', onKeypress);
+			output.on('resize', onResize);
+			guard(draw)();
+		});
+	} finally {
+		input.off('keypress', onKeypress);
+		output.off('resize', onResize);
+		input.setRawMode(false);
+		input.pause();
+		output.write(LEAVE_SCREEN);
+	}
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseEpisodeListing, TVDB_LISTING_URL } from './tvdb-parser';
+import { ScrapeLogger } from './types';
+import { silentLogger } from './__fixtures__/logger';
+
+const readFixture = (name: string) =>
+	fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+let logger: jest.Mocked<ScrapeLogger>;
+
+beforeEach(() => {
+	logger = silentLogger();
+});
+
+describe('parseEpisodeListing', () => {
+	describe('allseasons page', () => {
+		const entries = () =>
+			parseEpisodeListing(
+				readFixture('thetvdb-allseasons.html'),
+				TVDB_LISTING_URL,
+				logger,
+			);
+
+		it('finds every episode across seasons', () => {
+			expect(entries()).toHaveLength(4);
+		});
+
+		it('numbers seasons and episodes from the headers and labels', () => {
+			expect(
+				entries().map(({ episode }) => [
+					episode.season_number,
+					episode.episode_number,
+				]),
+			).toEqual([
+				[1, 1],
+				[1, 2],
+				[23, 12],
+				[23, 0],
+			]);
+		});
+
+		it('marks mid-season specials with their Season 0 number', () => {
+			expect(
+				entries().map(({ episode }) => [
+					episode.is_special,
+					episode.special_number,
+				]),
+			).toEqual([
+				[false, undefined],
+				[false, undefined],
+				[false, undefined],
+				[true, 14],
+			]);
+		});
+
+		it('parses "Month Day, Year" air dates to ISO dates', () => {
+			expect(entries().map(({ episode }) => episode.air_date)).toEqual([
+				'2015-03-12',
+				'2015-05-12',
+				'2024-01-25',
+				'2024-02-15',
+			]);
+		});
+
+		it('resolves episode links against the listing URL', () => {
+			expect(entries()[0].url).toBe(
+				'https://thetvdb.com/series/hot-ones/episodes/5203425',
+			);
+		});
+
+		it('fills title, description, guests and tags', () => {
+			const [yayo, rizzo] = entries().map(({ episode }) => episode);
+
+			expect(yayo.title).toBe(
+				"Tony Yayo Talks Shmoney Dance & Eminem's Taco Habit While Eating Spicy Chicken Wings",
+			);
+			expect(yayo.description).toMatch(/^In "Hot Ones,"/);
+			expect(yayo.guests).toEqual(['Tony Yayo']);
+			expect(yayo.tags).toEqual([
+				{
+					category: 'Music',
+					sub_categories: ['Rapper'],
+					confidence: 0.31,
+				},
+			]);
+			expect(rizzo.tags.map((tag) => tag.category)).toContain('Sports');
+		});
+	});
+
+	describe('edge cases', () => {
+		const entries = () =>
+			parseEpisodeListing(
+				readFixture('thetvdb-allseasons-edge-cases.html'),
+				TVDB_LISTING_URL,
+				logger,
+			);
+
+		it('maps the Specials header to season 0', () => {
+			expect(entries()[0].episode).toMatchObject({
+				season_number: 0,
+				episode_number: 1,
+				is_special: true,
+				special_number: 1,
+			});
+		});
+
+		it('finds the air date wherever it sits in the list', () => {
+			expect(entries()[1].episode.air_date).toBe('2016-10-27');
+		});
+
+		it('keeps episodes with no label or date, and skips untitled ones', () => {
+			expect(entries()).toHaveLength(3);
+			expect(entries()[2].episode).toMatchObject({
+				title: "World's Hottest Chip Challenge",
+				episode_number: 0,
+				is_special: false,
+				air_date: '',
+				description: '',
+			});
+		});
+
+		it('warns about seasons without an episode list', () => {
+			entries();
+			expect(logger.warn).toHaveBeenCalledWith(
+				expect.stringContaining('No episode list found for Season 28'),
+			);
+		});
+	});
+
+	it('returns no episodes and warns when the markup changes', () => {
+		expect(
+			parseEpisodeListing(
+				readFixture('thetvdb-redesigned.html'),
+				TVDB_LISTING_URL,
+				logger,
+			),
+		).toEqual([]);
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.stringContaining('markup may have changed'),
+		);
+	});
+});
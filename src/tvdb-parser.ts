@@ -0,0 +1,213 @@
+import { JSDOM } from 'jsdom';
+import { HotOnesEpisode, ScrapeLogger } from './types';
+import { parseEpisodeTitle } from './title-parser';
+import { categorizeProfession } from './tagging';
+import { brand } from './theme';
+
+export const TVDB_LISTING_URL =
+	'https://thetvdb.com/series/hot-ones/allseasons/official';
+
+export interface EpisodeEntry {
+	episode: HotOnesEpisode;
+	// Episode page link, resolved against the listing URL
+	url: string | null;
+}
+
+export function parseEpisodeListing(
+	html: string,
+	url: string = TVDB_LISTING_URL,
+	logger: ScrapeLogger = console,
+): EpisodeEntry[] {
+	const document = new JSDOM(html, { url }).window.document;
+	return extractEpisodes(document, logger);
+}
+
+function extractEpisodes(
+	document: Document,
+	logger: ScrapeLogger,
+): EpisodeEntry[] {
+	const episodes: EpisodeEntry[] = [];
+
+	logger.log(brand.highlight('🔍 Looking for season containers...'));
+	// Find all season containers
+	const seasonHeaders = document.querySelectorAll(
+		'h3 a[href*="/seasons/official/"]',
+	);
+	logger.log(brand.dim(`Found ${seasonHeaders.length} seasons`));
+	if (seasonHeaders.length === 0) {
+		logger.warn(
+			brand.error(
+				'⚠️  No season headers matched; TheTVDB markup may have changed',
+			),
+		);
+	}
+
+	logger.log(brand.highlight('📺 Parsing through Seasons'));
+	for (const seasonHeader of seasonHeaders) {
+		const seasonText = seasonHeader.textContent?.trim() || '';
+		const seasonMatch = seasonText.match(/Season (\d+)/);
+		const seasonNumber = seasonMatch ? parseInt(seasonMatch[1], 10) : 0;
+		// TheTVDB lists Season 0 as "Specials"
+		const specials = !seasonMatch && /Specials/i.test(seasonText);
+		if (!seasonMatch && !specials) {
+			logger.warn(
+				brand.error(
+					`  Unrecognised season header "${seasonText}", using season 0`,
+				),
+			);
+		}
+
+		// console.log(`📺 Processing Season ${seasonNumber}...`);  // Show how many seasons found
+
+		// Find the episode list for this season
+		const seasonContainer = seasonHeader.closest('h3')?.nextElementSibling;
+		if (seasonContainer?.classList.contains('list-group')) {
+			const episodeItems =
+				seasonContainer.querySelectorAll('.list-group-item');
+			// console.log(`  Found ${episodeItems.length} episodes in Season ${seasonNumber}`); // Show how many episodes in this season found
+
+			for (const episodeItem of episodeItems) {
+				const episode = extractEpisodeFromItem(
+					episodeItem as Element,
+					seasonNumber,
+					specials,
+					logger,
+				);
+				if (episode) {
+					episodes.push(episode);
+				}
+			}
+		} else {
+			logger.warn(
+				brand.error(
+					`  No episode list found for Season ${seasonNumber}`,
+				),
+			);
+		}
+	}
+
+	logger.log(brand.success(`✅ Extracted ${episodes.length} total episodes`));
+	return episodes;
+}
+
+function extractEpisodeFromItem(
+	episodeItem: Element,
+	seasonNumber: number,
+	specials: boolean,
+	logger: ScrapeLogger,
+): EpisodeEntry | null {
+	try {
+		// Extract episode number from span with class "episode-label"
+		const episodeLabel =
+			episodeItem.querySelector('.episode-label')?.textContent?.trim() ||
+			'';
+		const episodeMatch = episodeLabel.match(/S(\d+)E(\d+)/);
+		const episodeNumber = episodeMatch ? parseInt(episodeMatch[2], 10) : 0;
+		// Specials aired mid-season are labelled "SPECIAL 0x14" and keep episode 0
+		const specialMatch = episodeLabel.match(/SPECIAL (\d+)x(\d+)/i);
+		const isSpecial =
+			specials ||
+			specialMatch !== null ||
+			(episodeMatch !== null && parseInt(episodeMatch[1], 10) === 0);
+		const specialNumber = specialMatch
+			? parseInt(specialMatch[2], 10)
+			: isSpecial && episodeNumber > 0
+			? episodeNumber
+			: undefined;
+
+		// Extract title from the episode link
+		const titleElement = episodeItem.querySelector(
+			'h4.list-group-item-heading a',
+		);
+		const title = titleElement?.textContent?.trim() || '';
+		// Resolved against the listing URL, used for deep scraping
+		const url = (titleElement as HTMLAnchorElement | null)?.href || null;
+
+		// Extract air date from list-inline items
+		const dateElements = episodeItem.querySelectorAll('.list-inline li');
+		let airDate = '';
+		for (const dateElement of dateElements) {
+			const text = dateElement.textContent?.trim() || '';
+			// Look for date pattern (Month Day, Year)
+			if (/^[A-Za-z]+ \d{1,2}, \d{4}$/.test(text)) {
+				airDate = parseAirDate(text, logger);
+				break;
+			}
+		}
+
+		// Extract description from the episode text
+		const descriptionElement = episodeItem.querySelector(
+			'.list-group-item-text p',
+		);
+		const description = descriptionElement?.textContent?.trim() || '';
+
+		// Split the title into guest names and talking points
+		const { guests, topics } = parseEpisodeTitle(title);
+
+		// Generate tags based on title and description
+		const tags = categorizeProfession(title, description);
+
+		if (!title) {
+			logger.warn(
+				brand.error(
+					`Skipping episode with missing title in season ${seasonNumber}`,
+				),
+			);
+			return null;
+		}
+
+		return {
+			episode: {
+				season_number: seasonNumber,
+				episode_number: episodeNumber,
+				title,
+				guests,
+				topics,
+				air_date: airDate,
+				description,
+				tags,
+				is_special: isSpecial,
+				...(specialNumber !== undefined && {
+					special_number: specialNumber,
+				}),
+			},
+			url,
+		};
+	} catch (error) {
+		logger.error(brand.error('Error extracting episode data:'), error);
+		return null;
+	}
+}
+
+const MONTHS = [
+	'jan',
+	'feb',
+	'mar',
+	'apr',
+	'may',
+	'jun',
+	'jul',
+	'aug',
+	'sep',
+	'oct',
+	'nov',
+	'dec',
+];
+
+// Read "October 27, 2016" as a calendar date in UTC, so the machine's
+// timezone can't move it a day
+function parseAirDate(dateString: string, logger: ScrapeLogger): string {
+	const match = dateString.match(/^([A-Za-z]+) (\d{1,2}), (\d{4})$/);
+	const month = match
+		? MONTHS.indexOf(match[1].slice(0, 3).toLowerCase())
+		: -1;
+	const date =
+		match && month !== -1
+			? new Date(Date.UTC(Number(match[3]), month, Number(match[2])))
+			: undefined;
+	if (!date || date.getUTCDate() !== Number(match?.[2])) {
+		logger.warn(brand.error(`Failed to parse date: ${dateString}`));
+		return dateString; // Return original if parsing fails
+	}
+	return date.toISOString().split('T')[0]; // YYYY-MM-DD format
+}
@@ -2,33 +2,399 @@ export interface HotOnesEpisode {
 	season_number: number;
 	episode_number: number;
 	title: string;
+	guests: string[];
+	topics: string[];
 	air_date: string;
 	description: string;
 	tags: EpisodeTag[];
+	// Curator's annotation from the overrides file
+	note?: string;
+	// Specials sit in Season 0 or inside a regular season as episode 0
+	is_special?: boolean;
+	// TheTVDB's Season 0 number for a special, e.g. 14 for "SPECIAL 0x14"
+	special_number?: number;
+	// 1-based position among regular episodes, in air-date order
+	absolute_number?: number;
+	// The video behind an episode only found on YouTube (no TheTVDB numbering)
+	youtube_id?: string | null;
+}
+
+// Fields only available from an episode's own TheTVDB page (deep scrape)
+export interface EpisodeDetails {
+	tvdb_id: number | null;
+	tvdb_url: string;
+	overview: string;
+	runtime_minutes: number | null;
+	guest_stars: string[];
+	imdb_id: string | null;
+	youtube_id: string | null;
+}
+
+export interface HotOnesEpisodeDetails extends HotOnesEpisode, EpisodeDetails {
+	youtube_id: string | null;
+}
+
+// Where scraping progress and warnings go; console unless a caller (or a
+// test) wants them elsewhere
+export interface ScrapeLogger {
+	log(...args: unknown[]): void;
+	warn(...args: unknown[]): void;
+	error(...args: unknown[]): void;
+}
+
+// Anywhere episodes can be loaded from (TheTVDB, YouTube RSS, saved HTML...)
+export interface EpisodeSource {
+	readonly name: string;
+	// Where the episodes come from, recorded in the report envelope
+	readonly url: string;
+	fetchEpisodes(): Promise<HotOnesEpisode[]>;
+}
+
+// What hot-ones-report.json holds since schema version 1
+export interface HotOnesReport {
+	schema_version: number;
+	// ISO timestamp, null when unknown (e.g. migrated from a bare array)
+	scraped_at: string | null;
+	source_url: string;
+	episodes: HotOnesEpisode[];
+}
+
+// One bottle in a season's ten-wing lineup
+export interface HotSauce {
+	name: string;
+	maker: string;
+	// Scoville heat units, as the maker or the show quotes them
+	scoville: number;
+	// 1 is the mildest wing, 10 the hottest
+	wing: number;
+	// Any of the "The Last Dab" variants, traditionally on wing 10
+	last_dab: boolean;
+}
+
+// The sauces every regular episode of a season is filmed with
+export interface SauceLineup {
+	season: number;
+	sauces: HotSauce[];
 }
 
 export interface EpisodeTag {
 	category: string;
 	sub_categories: string[];
+	// 0-1, how strongly the tagging rules matched (absent on older reports)
+	confidence?: number;
 }
 
 export interface ProfessionTaxonomy {
 	[category: string]: string[];
 }
 
-export const PROFESSION_TAXONOMY: ProfessionTaxonomy = {
-	'Movie/TV': [
-		'Actor',
-		'Actress',
-		'Director',
-		'Producer',
-		'Screenwriter',
-		'TV Personality',
-	],
-	Music: ['Rapper', 'Singer', 'Musician', 'Songwriter', 'DJ'],
-	Comedy: ['Stand-up Comedian', 'Sketch Comedian', 'Comedy Actor'],
-	Sports: ['Basketball Player', 'Football Player', 'Olympian', 'Athlete'],
-	'Food/Culinary': ['Chef', 'Food Critic', 'Restaurateur'],
-	'Internet/Social Media': ['YouTuber', 'TikToker', 'Streamer', 'Influencer'],
-	Other: ['Author', 'Scientist', 'Politician', 'Journalist'],
-};
+// One node of the profession hierarchy; the top level are EpisodeTag categories
+export interface TaxonomyNode {
+	name: string;
+	// Other names to look the node up by, e.g. "Hoops" for Basketball Player
+	aliases?: string[];
+	// Words in an episode's title or description that point at this node,
+	// used by both the tagging engine and search
+	synonyms?: string[];
+	children?: TaxonomyNode[];
+}
+
+export const PROFESSION_TREE: TaxonomyNode[] = [
+	{
+		name: 'Movie/TV',
+		aliases: ['Film', 'Television', 'Hollywood'],
+		children: [
+			{ name: 'Actor', synonyms: ['actor'] },
+			{ name: 'Actress', synonyms: ['actress'] },
+			{ name: 'Director', synonyms: ['director', 'filmmaker'] },
+			{
+				name: 'Producer',
+				aliases: ['Showrunner'],
+				synonyms: ['showrunner'],
+			},
+			{
+				name: 'Screenwriter',
+				synonyms: ['screenwriter', 'screenplay'],
+			},
+			{
+				name: 'TV Personality',
+				aliases: ['TV Host'],
+				synonyms: ['tv host', 'tv personality'],
+				children: [
+					{
+						name: 'Talk Show Host',
+						aliases: ['Late Night'],
+						synonyms: ['talk show host', 'late night host'],
+					},
+					{
+						name: 'Reality Star',
+						synonyms: ['reality star', 'reality tv'],
+					},
+				],
+			},
+		],
+	},
+	{
+		name: 'Music',
+		aliases: ['Musicians'],
+		children: [
+			{
+				name: 'Rapper',
+				aliases: ['MC', 'Emcee', 'Hip-Hop'],
+				synonyms: ['rapper', 'emcee', 'hip hop'],
+			},
+			{
+				name: 'Singer',
+				aliases: ['Vocalist'],
+				synonyms: ['singer', 'vocalist', 'crooner'],
+			},
+			{
+				name: 'Musician',
+				synonyms: ['musician'],
+				children: [
+					{ name: 'Guitarist', synonyms: ['guitarist'] },
+					{ name: 'Drummer', synonyms: ['drummer'] },
+					{
+						name: 'Band Member',
+						aliases: ['Band'],
+						synonyms: ['frontman', 'frontwoman', 'bandmate'],
+					},
+				],
+			},
+			{ name: 'Songwriter', synonyms: ['songwriter'] },
+			{
+				name: 'Record Producer',
+				aliases: ['Beatmaker'],
+				synonyms: ['record producer', 'beatmaker'],
+			},
+			{ name: 'DJ', aliases: ['Disc Jockey'], synonyms: ['dj'] },
+		],
+	},
+	{
+		name: 'Comedy',
+		aliases: ['Comedians'],
+		children: [
+			{
+				name: 'Stand-up Comedian',
+				aliases: ['Stand-up', 'Standup'],
+				synonyms: ['stand up comedian', 'comedy special'],
+			},
+			{
+				name: 'Sketch Comedian',
+				aliases: ['Sketch', 'SNL'],
+				synonyms: ['sketch comedy', 'snl', 'saturday night live'],
+			},
+			{
+				name: 'Comedy Actor',
+				synonyms: ['comedic actor', 'comedy actor'],
+			},
+		],
+	},
+	{
+		name: 'Sports',
+		aliases: ['Athletes'],
+		children: [
+			{
+				name: 'Basketball Player',
+				aliases: ['Basketball', 'Hoops'],
+				synonyms: ['basketball', 'point guard'],
+				children: [
+					{
+						name: 'NBA',
+						aliases: ['National Basketball Association'],
+						synonyms: ['nba'],
+					},
+					{ name: 'WNBA', synonyms: ['wnba'] },
+				],
+			},
+			{
+				name: 'Football Player',
+				aliases: ['Football'],
+				synonyms: [
+					'quarterback',
+					'cornerback',
+					'linebacker',
+					'wide receiver',
+					'tight end',
+				],
+				children: [
+					{
+						name: 'NFL',
+						aliases: ['National Football League'],
+						synonyms: ['nfl', 'super bowl'],
+					},
+					{
+						name: 'College Football',
+						synonyms: ['college football', 'heisman'],
+					},
+				],
+			},
+			{
+				name: 'Baseball Player',
+				aliases: ['Baseball'],
+				synonyms: ['baseball', 'pitcher', 'baseman'],
+				children: [
+					{
+						name: 'MLB',
+						aliases: ['Major League Baseball'],
+						synonyms: ['mlb', 'world series'],
+					},
+				],
+			},
+			{
+				name: 'Olympian',
+				aliases: ['Olympics'],
+				synonyms: ['olympian', 'olympic', 'gold medal'],
+			},
+			{
+				name: 'Athlete',
+				synonyms: ['athlete'],
+				children: [
+					{ name: 'Boxer', aliases: ['Boxing'], synonyms: ['boxer'] },
+					{
+						name: 'MMA Fighter',
+						aliases: ['MMA', 'UFC'],
+						synonyms: ['mma', 'ufc'],
+					},
+					{
+						name: 'Wrestler',
+						aliases: ['Wrestling', 'WWE'],
+						synonyms: ['wrestler', 'wwe'],
+					},
+					{
+						name: 'Skateboarder',
+						aliases: ['Skateboarding'],
+						synonyms: ['skateboarder'],
+					},
+					{
+						name: 'Tennis Player',
+						aliases: ['Tennis'],
+						synonyms: ['tennis'],
+					},
+					{
+						name: 'Soccer Player',
+						aliases: ['Soccer'],
+						synonyms: ['soccer'],
+					},
+					{ name: 'Golfer', aliases: ['Golf'], synonyms: ['golfer'] },
+					{
+						name: 'Hockey Player',
+						aliases: ['Hockey', 'NHL'],
+						synonyms: ['hockey', 'nhl'],
+					},
+				],
+			},
+		],
+	},
+	{
+		name: 'Food/Culinary',
+		aliases: ['Food', 'Culinary'],
+		children: [
+			{
+				name: 'Chef',
+				aliases: ['Cook'],
+				synonyms: ['chef'],
+				children: [
+					{
+						name: 'TV Chef',
+						aliases: ['Celebrity Chef'],
+						synonyms: [
+							'food network',
+							'top chef',
+							'celebrity chef',
+						],
+					},
+				],
+			},
+			{
+				name: 'Food Critic',
+				synonyms: ['food critic', 'food writer'],
+			},
+			{ name: 'Restaurateur', synonyms: ['restaurateur'] },
+		],
+	},
+	{
+		name: 'Internet/Social Media',
+		aliases: ['Internet', 'Social Media', 'Creators'],
+		children: [
+			{
+				name: 'YouTuber',
+				aliases: ['YouTube'],
+				synonyms: ['youtuber', 'youtube star', 'vlogger'],
+			},
+			{ name: 'TikToker', aliases: ['TikTok'], synonyms: ['tiktoker'] },
+			{
+				name: 'Streamer',
+				aliases: ['Twitch'],
+				synonyms: ['streamer', 'twitch'],
+				children: [{ name: 'Gamer', synonyms: ['gamer', 'esports'] }],
+			},
+			{
+				name: 'Influencer',
+				synonyms: ['influencer', 'instagram star'],
+			},
+			{
+				name: 'Podcaster',
+				aliases: ['Podcast'],
+				synonyms: ['podcaster', 'podcast host'],
+			},
+		],
+	},
+	{
+		name: 'Other',
+		children: [
+			{
+				name: 'Author',
+				aliases: ['Writer'],
+				synonyms: ['author', 'novelist'],
+			},
+			{
+				name: 'Scientist',
+				aliases: ['Science'],
+				synonyms: ['scientist', 'astrophysicist', 'physicist'],
+				children: [{ name: 'Astronaut', synonyms: ['astronaut'] }],
+			},
+			{
+				name: 'Politician',
+				aliases: ['Politics'],
+				synonyms: [
+					'politician',
+					'senator',
+					'congressman',
+					'congresswoman',
+					'governor',
+					'mayor',
+				],
+			},
+			{
+				name: 'Journalist',
+				aliases: ['Reporter'],
+				synonyms: ['journalist', 'reporter', 'news anchor'],
+			},
+			{
+				name: 'Entrepreneur',
+				aliases: ['Business'],
+				synonyms: [
+					'entrepreneur',
+					'businessman',
+					'businesswoman',
+					'mogul',
+				],
+			},
+		],
+	},
+];
+
+const descendantNames = (node: TaxonomyNode): string[] =>
+	(node.children ?? []).flatMap((child) => [
+		child.name,
+		...descendantNames(child),
+	]);
+
+// Category -> every node below it, i.e. what EpisodeTag.sub_categories may hold
+export const PROFESSION_TAXONOMY: ProfessionTaxonomy = Object.fromEntries(
+	PROFESSION_TREE.map((category) => [
+		category.name,
+		descendantNames(category),
+	]),
+);
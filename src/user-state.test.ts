@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	describeEpisodeState,
+	emptyUserState,
+	getEpisodeState,
+	listFavorites,
+	listUnwatched,
+	loadUserState,
+	markWatched,
+	rateEpisode,
+	saveUserState,
+	setFavorite,
+	UserStateError,
+	validateUserState,
+} from './user-state';
+import { HotOnesEpisode } from './types';
+import { makeEpisode, tag } from './__fixtures__/episodes';
+
+const episode = (
+	episode_number: number,
+	title: string,
+	category = 'Music',
+): HotOnesEpisode =>
+	makeEpisode({
+		episode_number,
+		title,
+		air_date: '2015-03-12',
+		tags: [tag(category)],
+	});
+
+const yayo = episode(1, 'Tony Yayo Talks Shmoney Dance');
+const keyAndPeele = episode(2, 'Key & Peele Lose Their Minds', 'Comedy');
+const episodes = [yayo, keyAndPeele];
+
+const monday = new Date('2024-05-06T20:00:00Z');
+const tuesday = new Date('2024-05-07T21:30:00Z');
+
+describe('updating state', () => {
+	it('records watches with a timestamp and forgets them when undone', () => {
+		let state = markWatched(emptyUserState(), yayo, true, monday);
+		state = markWatched(state, yayo, true, tuesday);
+
+		expect(getEpisodeState(state, yayo)).toEqual({
+			watched: true,
+			watched_at: tuesday.toISOString(),
+			updated_at: tuesday.toISOString(),
+		});
+		expect(markWatched(state, yayo, false).episodes).toEqual({});
+	});
+
+	it('keys entries like the overrides file and keeps unrelated fields', () => {
+		let state = rateEpisode(emptyUserState(), yayo, 4, monday);
+		state = setFavorite(state, yayo, true, tuesday);
+
+		expect(state.episodes.S1E1).toEqual({
+			rating: 4,
+			favorite: true,
+			updated_at: tuesday.toISOString(),
+		});
+		expect(rateEpisode(state, yayo, null).episodes.S1E1).toMatchObject({
+			favorite: true,
+		});
+		expect(rateEpisode(state, yayo, null).episodes.S1E1.rating).toBe(
+			undefined,
+		);
+	});
+
+	it('only takes whole ratings from 1 to 5', () => {
+		expect(() => rateEpisode(emptyUserState(), yayo, 6)).toThrow(
+			UserStateError,
+		);
+		expect(() => rateEpisode(emptyUserState(), yayo, 2.5)).toThrow(
+			/1 to 5/,
+		);
+	});
+});
+
+describe('listing', () => {
+	const state = setFavorite(
+		markWatched(emptyUserState(), yayo, true, monday),
+		yayo,
+	);
+
+	it('lists favorites and unwatched episodes with report numbers', () => {
+		expect(listFavorites(episodes, state)).toEqual([
+			{ number: 1, episode: yayo },
+		]);
+		expect(listUnwatched(episodes, state)).toEqual([
+			{ number: 2, episode: keyAndPeele },
+		]);
+	});
+
+	it('describes an episode state in one line', () => {
+		expect(
+			describeEpisodeState({
+				...getEpisodeState(state, yayo)!,
+				rating: 4,
+			}),
+		).toBe('Watched 2024-05-06 · ★★★★☆ · ♥ Favorite');
+		expect(describeEpisodeState(undefined)).toBe('Not watched yet');
+	});
+});
+
+describe('loading and saving', () => {
+	let directory: string;
+	let filePath: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(
+			path.join(os.tmpdir(), 'wing-scrape-user-state-'),
+		);
+		filePath = path.join(directory, 'state.json');
+	});
+
+	afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+	it('treats a missing file as a fresh start and round-trips', () => {
+		expect(loadUserState(filePath)).toEqual(emptyUserState());
+
+		const state = rateEpisode(emptyUserState(), keyAndPeele, 5, monday);
+		saveUserState(state, filePath);
+		expect(loadUserState(filePath)).toEqual(state);
+	});
+
+	it('refuses malformed files with the offending path', () => {
+		fs.writeFileSync(
+			filePath,
+			JSON.stringify({
+				schema_version: 1,
+				episodes: { S1E1: { rating: 9, updated_at: 'yesterday' } },
+			}),
+		);
+
+		expect(() => loadUserState(filePath)).toThrow(/episodes\.S1E1/);
+		expect(
+			validateUserState({
+				schema_version: 1,
+				episodes: { S1E1: { rating: 9, updated_at: 'yesterday' } },
+			}).map((issue) => issue.path),
+		).toEqual(['episodes.S1E1.updated_at', 'episodes.S1E1.rating']);
+	});
+});
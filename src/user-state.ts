@@ -0,0 +1,273 @@
+import { HotOnesEpisode } from './types';
+import { ValidationIssue } from './report';
+import { episodeKey } from './report-diff';
+import { filterEpisodes, NumberedEpisode } from './episode-queries';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const USER_STATE_SCHEMA_VERSION = 1;
+
+// Kept apart from the report so a re-scrape never touches it
+export const DEFAULT_USER_STATE_PATH = path.join(
+	process.cwd(),
+	'hot-ones-user-state.json',
+);
+
+export interface EpisodeState {
+	watched?: boolean;
+	// ISO timestamp of the latest watch
+	watched_at?: string;
+	// 1-5
+	rating?: number;
+	favorite?: boolean;
+	updated_at: string;
+}
+
+export interface UserState {
+	schema_version: number;
+	// Keyed like the overrides file: "S22E5", or "S4E0:<title>" for specials
+	episodes: Record<string, EpisodeState>;
+}
+
+export class UserStateError extends Error {
+	constructor(
+		message: string,
+		public readonly issues: ValidationIssue[] = [],
+	) {
+		super(message);
+		this.name = 'UserStateError';
+	}
+}
+
+export function emptyUserState(): UserState {
+	return { schema_version: USER_STATE_SCHEMA_VERSION, episodes: {} };
+}
+
+const isRating = (value: unknown) =>
+	typeof value === 'number' &&
+	Number.isInteger(value) &&
+	value >= 1 &&
+	value <= 5;
+
+export function validateUserState(data: unknown): ValidationIssue[] {
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		return [{ path: 'state', message: 'expected an object' }];
+	}
+
+	const { schema_version, episodes } = data as Partial<UserState>;
+	const issues: ValidationIssue[] = [];
+	if (schema_version !== USER_STATE_SCHEMA_VERSION) {
+		issues.push({
+			path: 'schema_version',
+			message: `expected ${USER_STATE_SCHEMA_VERSION}`,
+		});
+	}
+	if (
+		typeof episodes !== 'object' ||
+		episodes === null ||
+		Array.isArray(episodes)
+	) {
+		return [
+			...issues,
+			{
+				path: 'episodes',
+				message: 'expected an object keyed by episode',
+			},
+		];
+	}
+
+	Object.entries(episodes).forEach(([key, state]) => {
+		const at = `episodes.${key}`;
+		if (
+			typeof state !== 'object' ||
+			state === null ||
+			Array.isArray(state)
+		) {
+			issues.push({ path: at, message: 'expected an object' });
+			return;
+		}
+		(['watched', 'favorite'] as const).forEach((field) => {
+			if (
+				state[field] !== undefined &&
+				typeof state[field] !== 'boolean'
+			) {
+				issues.push({
+					path: `${at}.${field}`,
+					message: 'expected a boolean',
+				});
+			}
+		});
+		(['watched_at', 'updated_at'] as const).forEach((field) => {
+			const value = state[field];
+			if (
+				(value !== undefined || field === 'updated_at') &&
+				(typeof value !== 'string' || Number.isNaN(Date.parse(value)))
+			) {
+				issues.push({
+					path: `${at}.${field}`,
+					message: 'expected an ISO timestamp',
+				});
+			}
+		});
+		if (state.rating !== undefined && !isRating(state.rating)) {
+			issues.push({
+				path: `${at}.rating`,
+				message: 'expected a whole number from 1 to 5',
+			});
+		}
+	});
+
+	return issues;
+}
+
+// A missing file just means nothing has been watched yet
+export function loadUserState(filePath = DEFAULT_USER_STATE_PATH): UserState {
+	if (!fs.existsSync(filePath)) {
+		return emptyUserState();
+	}
+
+	const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+	const issues = validateUserState(data);
+	if (issues.length > 0) {
+		throw new UserStateError(
+			`Invalid user state file ${filePath}: ${issues[0].path}: ${issues[0].message}`,
+			issues,
+		);
+	}
+	return data as UserState;
+}
+
+export function saveUserState(
+	state: UserState,
+	filePath = DEFAULT_USER_STATE_PATH,
+): void {
+	fs.writeFileSync(filePath, JSON.stringify(state, null, 2));
+}
+
+export function getEpisodeState(
+	state: UserState,
+	episode: HotOnesEpisode,
+): EpisodeState | undefined {
+	return state.episodes[episodeKey(episode)];
+}
+
+// Drops entries once nothing is left but the timestamp
+function updateEpisodeState(
+	state: UserState,
+	episode: HotOnesEpisode,
+	changes: Partial<EpisodeState>,
+	now: Date,
+): UserState {
+	const key = episodeKey(episode);
+	const episodes = { ...state.episodes };
+	const { updated_at: _previous, ...rest } = {
+		...episodes[key],
+		...changes,
+	};
+	const kept = Object.fromEntries(
+		Object.entries(rest).filter(
+			([, value]) => value !== undefined && value !== false,
+		),
+	);
+
+	if (Object.keys(kept).length === 0) {
+		delete episodes[key];
+	} else {
+		episodes[key] = { ...kept, updated_at: now.toISOString() };
+	}
+	return { ...state, episodes };
+}
+
+// Watching again moves the timestamp forward; unwatching forgets it
+export function markWatched(
+	state: UserState,
+	episode: HotOnesEpisode,
+	watched = true,
+	now = new Date(),
+): UserState {
+	return updateEpisodeState(
+		state,
+		episode,
+		{
+			watched,
+			watched_at: watched ? now.toISOString() : undefined,
+		},
+		now,
+	);
+}
+
+// A null rating clears it
+export function rateEpisode(
+	state: UserState,
+	episode: HotOnesEpisode,
+	rating: number | null,
+	now = new Date(),
+): UserState {
+	if (rating !== null && !isRating(rating)) {
+		throw new UserStateError(`Ratings go from 1 to 5, got "${rating}"`);
+	}
+	return updateEpisodeState(
+		state,
+		episode,
+		{ rating: rating ?? undefined },
+		now,
+	);
+}
+
+export function setFavorite(
+	state: UserState,
+	episode: HotOnesEpisode,
+	favorite = true,
+	now = new Date(),
+): UserState {
+	return updateEpisodeState(state, episode, { favorite }, now);
+}
+
+export const isWatched = (state: UserState, episode: HotOnesEpisode) =>
+	getEpisodeState(state, episode)?.watched === true;
+
+export const isFavorite = (state: UserState, episode: HotOnesEpisode) =>
+	getEpisodeState(state, episode)?.favorite === true;
+
+// Report order, numbered like every other listing
+export function listFavorites(
+	episodes: HotOnesEpisode[],
+	state: UserState,
+): NumberedEpisode[] {
+	return filterEpisodes(episodes, {}).filter(({ episode }) =>
+		isFavorite(state, episode),
+	);
+}
+
+export function listUnwatched(
+	episodes: HotOnesEpisode[],
+	state: UserState,
+): NumberedEpisode[] {
+	return filterEpisodes(episodes, {}).filter(
+		({ episode }) => !isWatched(state, episode),
+	);
+}
+
+// "Watched 2024-05-01 · ★★★★☆ · ♥ Favorite", or "Not watched yet"
+export function describeEpisodeState(episodeState?: EpisodeState): string {
+	const parts: string[] = [];
+	if (episodeState?.watched) {
+		parts.push(
+			episodeState.watched_at
+				? `Watched ${episodeState.watched_at.slice(0, 10)}`
+				: 'Watched',
+		);
+	} else {
+		parts.push('Not watched yet');
+	}
+	if (episodeState?.rating) {
+		parts.push(
+			'★'.repeat(episodeState.rating) +
+				'☆'.repeat(5 - episodeState.rating),
+		);
+	}
+	if (episodeState?.favorite) {
+		parts.push('♥ Favorite');
+	}
+	return parts.join(' · ');
+}
@@ -0,0 +1,83 @@
+import Parser from 'rss-parser';
+import { EpisodeSource, HotOnesEpisode } from './types';
+import { parseEpisodeTitle } from './title-parser';
+import { categorizeProfession } from './tagging';
+import { DEFAULT_USER_AGENT } from './http-client';
+
+// First We Feast's official Hot Ones playlist
+export const HOT_ONES_PLAYLIST_ID = 'PLAzrgbu8gEMIIK3r4Se1dOZWSZzUSadfZ';
+
+// The playlist feed adds no fields beyond rss-parser's defaults
+type YouTubeFeed = Record<string, unknown>;
+
+interface YouTubeFeedItem {
+	videoId?: string;
+	mediaGroup?: {
+		'media:description'?: string[];
+	};
+}
+
+export class YouTubePlaylistSource implements EpisodeSource {
+	readonly name = 'youtube';
+	private parser: Parser<YouTubeFeed, YouTubeFeedItem>;
+
+	constructor(
+		private playlistId: string = HOT_ONES_PLAYLIST_ID,
+		userAgent: string = DEFAULT_USER_AGENT,
+	) {
+		this.parser = new Parser<YouTubeFeed, YouTubeFeedItem>({
+			headers: { 'User-Agent': userAgent },
+			customFields: {
+				item: [
+					['yt:videoId', 'videoId'],
+					['media:group', 'mediaGroup'],
+				],
+			},
+		});
+	}
+
+	get feedUrl(): string {
+		return `https://www.youtube.com/feeds/videos.xml?playlist_id=${this.playlistId}`;
+	}
+
+	get url(): string {
+		return this.feedUrl;
+	}
+
+	async fetchEpisodes(): Promise<HotOnesEpisode[]> {
+		const feed = await this.parser.parseURL(this.feedUrl);
+		return feed.items.map(feedItemToEpisode);
+	}
+
+	// Parses an already downloaded Atom feed, e.g. a saved copy
+	async parseFeed(xml: string): Promise<HotOnesEpisode[]> {
+		const feed = await this.parser.parseString(xml);
+		return feed.items.map(feedItemToEpisode);
+	}
+}
+
+function feedItemToEpisode(
+	item: YouTubeFeedItem & Parser.Item,
+): HotOnesEpisode {
+	const title = item.title?.trim() || '';
+	const fullDescription =
+		item.mediaGroup?.['media:description']?.[0] ?? item.content ?? '';
+	// Video descriptions are long; keep the first paragraph like TheTVDB does
+	const description = fullDescription.split(/\n\s*\n/)[0].trim();
+	const { guests, topics } = parseEpisodeTitle(title);
+
+	return {
+		// The feed carries no season/episode numbering, so an item that no
+		// other source matches is kept as a special, keyed by its video ID
+		season_number: 0,
+		episode_number: 0,
+		is_special: true,
+		youtube_id: item.videoId ?? null,
+		title,
+		guests,
+		topics,
+		air_date: item.isoDate ? item.isoDate.split('T')[0] : '',
+		description,
+		tags: categorizeProfession(title, description),
+	};
+}